@@ -52,6 +52,26 @@ const mainConfig = {
   plugins,
 };
 
+// Core store without React (tree-shakeable)
+const coreConfig = {
+  input: 'src/core/index.ts',
+  output: [
+    {
+      file: 'dist/core.js',
+      format: 'cjs',
+      sourcemap: true,
+      exports: 'named',
+    },
+    {
+      file: 'dist/core.esm.js',
+      format: 'esm',
+      sourcemap: true,
+    },
+  ],
+  external,
+  plugins,
+};
+
 // History module (tree-shakeable)
 const historyConfig = {
   input: 'src/history/index.ts',
@@ -92,6 +112,26 @@ const syncConfig = {
   plugins,
 };
 
+// Drafts module (tree-shakeable)
+const draftsConfig = {
+  input: 'src/drafts/index.ts',
+  output: [
+    {
+      file: 'dist/drafts.js',
+      format: 'cjs',
+      sourcemap: true,
+      exports: 'named',
+    },
+    {
+      file: 'dist/drafts.esm.js',
+      format: 'esm',
+      sourcemap: true,
+    },
+  ],
+  external,
+  plugins,
+};
+
 // DevTools module (tree-shakeable)
 const devtoolsConfig = {
   input: 'src/devtools/index.ts',
@@ -143,6 +183,16 @@ const dtsConfig = {
   external,
 };
 
+const coreDtsConfig = {
+  input: 'src/core/index.ts',
+  output: {
+    file: 'dist/core.d.ts',
+    format: 'esm',
+  },
+  plugins: [dts()],
+  external,
+};
+
 const historyDtsConfig = {
   input: 'src/history/index.ts',
   output: {
@@ -163,6 +213,16 @@ const syncDtsConfig = {
   external,
 };
 
+const draftsDtsConfig = {
+  input: 'src/drafts/index.ts',
+  output: {
+    file: 'dist/drafts.d.ts',
+    format: 'esm',
+  },
+  plugins: [dts()],
+  external,
+};
+
 const devtoolsDtsConfig = {
   input: 'src/devtools/index.ts',
   output: {
@@ -185,13 +245,17 @@ const testingDtsConfig = {
 
 export default [
   mainConfig,
+  coreConfig,
   historyConfig,
   syncConfig,
+  draftsConfig,
   devtoolsConfig,
   testingConfig,
   dtsConfig,
+  coreDtsConfig,
   historyDtsConfig,
   syncDtsConfig,
+  draftsDtsConfig,
   devtoolsDtsConfig,
   testingDtsConfig,
 ];
@@ -4,18 +4,31 @@
  * @author 686f6c61
  * @repository https://github.com/686f6c61/react-form-autosave
  *
- * Tests for components (FormPersistProvider, AutoSaveIndicator)
+ * Tests for components (FormPersistProvider, AutoSaveIndicator, SyncConflictDialog,
+ * RestoreDraftBanner, DraftList, PersistedForm)
  */
 
 import React from 'react';
-import { render, screen } from '@testing-library/react';
+import { render, screen, fireEvent, renderHook, act, waitFor } from '@testing-library/react';
 import {
   FormPersistProvider,
   useFormPersistContext,
   useFormRegistry,
 } from '../components/FormPersistProvider';
 import { AutoSaveIndicator } from '../components/AutoSaveIndicator';
-import type { FormPersistRegistryEntry } from '../core/types';
+import { SyncConflictDialog } from '../components/SyncConflictDialog';
+import { RestoreDraftBanner } from '../components/RestoreDraftBanner';
+import { DraftList } from '../drafts/DraftList';
+import { PersistedForm } from '../components/PersistedForm';
+import { useFormPersist } from '../hooks/useFormPersist';
+import { findFormPersistStore } from '../core/sharedStores';
+import { seedPersistedData, getPersistedData, clearTestStorage } from '../testing';
+import type {
+  FormPersistRegistryEntry,
+  SyncConflict,
+  PendingDraft,
+  UseDraftsReturn,
+} from '../core/types';
 
 // Helper component to test context
 function ContextConsumer() {
@@ -41,6 +54,7 @@ function RegistryConsumer() {
       </button>
       <button onClick={() => registry.unregister('test')}>Unregister</button>
       <div data-testid="count">{registry.getAll().size}</div>
+      <div data-testid="entries">{registry.entries.map((e) => e.key).join(',')}</div>
     </div>
   );
 }
@@ -105,6 +119,162 @@ describe('useFormRegistry', () => {
 
     expect(screen.getByTestId('count')).toHaveTextContent('0');
   });
+
+  it('should re-render when entries change', () => {
+    render(
+      <FormPersistProvider>
+        <RegistryConsumer />
+      </FormPersistProvider>
+    );
+
+    fireEvent.click(screen.getByText('Register'));
+    expect(screen.getByTestId('entries')).toHaveTextContent('test');
+    expect(screen.getByTestId('count')).toHaveTextContent('1');
+
+    fireEvent.click(screen.getByText('Unregister'));
+    expect(screen.getByTestId('entries')).toBeEmptyDOMElement();
+  });
+
+  it('should list mounted useFormPersist hooks', () => {
+    function Form({ formKey }: { formKey: string }) {
+      useFormPersist(formKey, { name: '' }, { storage: 'sessionStorage' });
+      return null;
+    }
+
+    function App({ showForm }: { showForm: boolean }) {
+      return (
+        <FormPersistProvider>
+          {showForm && <Form formKey="contact" />}
+          <RegistryConsumer />
+        </FormPersistProvider>
+      );
+    }
+
+    const { rerender } = render(<App showForm={true} />);
+    expect(screen.getByTestId('entries')).toHaveTextContent('rfp:contact');
+
+    rerender(<App showForm={false} />);
+    expect(screen.getByTestId('entries')).toBeEmptyDOMElement();
+  });
+
+  it('should keep the entry of a key until its last consumer unmounts', () => {
+    function Form() {
+      useFormPersist('shared-registry', { name: '' });
+      return null;
+    }
+
+    function App({ forms }: { forms: number }) {
+      return (
+        <FormPersistProvider>
+          {forms > 0 && <Form />}
+          {forms > 1 && <Form />}
+          <RegistryConsumer />
+        </FormPersistProvider>
+      );
+    }
+
+    const { rerender } = render(<App forms={2} />);
+    expect(screen.getByTestId('count')).toHaveTextContent('1');
+
+    rerender(<App forms={1} />);
+    expect(screen.getByTestId('count')).toHaveTextContent('1');
+    expect(screen.getByTestId('entries')).toHaveTextContent('rfp:shared-registry');
+
+    rerender(<App forms={0} />);
+    expect(screen.getByTestId('count')).toHaveTextContent('0');
+  });
+
+  it('should keep registry entries up to date', () => {
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <FormPersistProvider>{children}</FormPersistProvider>
+    );
+    const { result } = renderHook(
+      () => ({
+        form: useFormPersist('registry-form', { name: '' }, { debounce: 0 }),
+        registry: useFormRegistry(),
+      }),
+      { wrapper }
+    );
+
+    expect(result.current.registry.entries).toEqual([
+      expect.objectContaining({
+        key: 'rfp:registry-form',
+        state: { name: '' },
+        storage: 'localStorage',
+        status: 'idle',
+        isPaused: false,
+        lastError: null,
+      }),
+    ]);
+
+    act(() => {
+      result.current.form[1]({ name: 'Jane' });
+      result.current.form[2].pause();
+    });
+
+    expect(result.current.registry.entries[0]).toEqual(
+      expect.objectContaining({ state: { name: 'Jane' }, isPaused: true })
+    );
+  });
+
+  it('should register a form once however often it changes', () => {
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <FormPersistProvider>{children}</FormPersistProvider>
+    );
+    const { result } = renderHook(
+      () => ({
+        form: useFormPersist('registry-once', { name: '' }, { debounce: 0 }),
+        registry: useFormRegistry(),
+      }),
+      { wrapper }
+    );
+    const listener = jest.fn();
+    const unsubscribe = result.current.registry.subscribe(listener);
+    const entry = result.current.registry.entries[0];
+
+    act(() => {
+      result.current.form[1]({ name: 'J' });
+    });
+    act(() => {
+      result.current.form[1]({ name: 'Ja' });
+    });
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(result.current.registry.entries[0]).toBe(entry);
+    expect(entry.state).toEqual({ name: 'Ja' });
+    unsubscribe();
+  });
+
+  it('should remove the entry with the last consumer even while it is watched', () => {
+    function Form() {
+      useFormPersist('registry-watched', { name: '' });
+      return null;
+    }
+    function Count() {
+      const { entries } = useFormRegistry();
+      return <span data-testid="watched">{entries.length}</span>;
+    }
+    function App({ forms }: { forms: number }) {
+      return (
+        <FormPersistProvider>
+          {Array.from({ length: forms }, (_, index) => (
+            <Form key={index} />
+          ))}
+          <Count />
+        </FormPersistProvider>
+      );
+    }
+
+    const { rerender } = render(<App forms={2} />);
+    expect(screen.getByTestId('watched')).toHaveTextContent('1');
+
+    rerender(<App forms={1} />);
+    expect(screen.getByTestId('watched')).toHaveTextContent('1');
+
+    rerender(<App forms={0} />);
+    expect(screen.getByTestId('watched')).toHaveTextContent('0');
+    expect(findFormPersistStore('rfp:registry-watched')).toBeUndefined();
+  });
 });
 
 describe('AutoSaveIndicator', () => {
@@ -230,4 +400,447 @@ describe('AutoSaveIndicator', () => {
     const status = screen.getByRole('status');
     expect(status).toHaveAttribute('aria-live', 'polite');
   });
+
+  describe('with persist actions', () => {
+    it('should render pending and saving as saving', () => {
+      const { rerender } = render(
+        <AutoSaveIndicator persist={{ status: 'pending', lastSaved: null, lastError: null }} />
+      );
+      expect(screen.getByText('Saving...')).toBeInTheDocument();
+
+      rerender(
+        <AutoSaveIndicator persist={{ status: 'saving', lastSaved: null, lastError: null }} />
+      );
+      expect(screen.getByRole('status')).toHaveAttribute('data-status', 'saving');
+      expect(screen.getByText('Saving...')).toBeInTheDocument();
+    });
+
+    it('should render saved state', () => {
+      render(
+        <AutoSaveIndicator
+          persist={{ status: 'saved', lastSaved: Date.now(), lastError: null }}
+          showTimestamp={false}
+        />
+      );
+
+      expect(screen.getByText('Saved')).toBeInTheDocument();
+    });
+
+    it('should render error state with the error message as title', () => {
+      render(
+        <AutoSaveIndicator
+          persist={{
+            status: 'error',
+            lastSaved: null,
+            lastError: { type: 'QUOTA_EXCEEDED', message: 'Quota exceeded', key: 'rfp:form' },
+          }}
+          errorText="No se pudo guardar"
+        />
+      );
+
+      expect(screen.getByText('No se pudo guardar')).toBeInTheDocument();
+      expect(screen.getByRole('status')).toHaveAttribute('title', 'Quota exceeded');
+    });
+
+    it('should render idle state', () => {
+      render(<AutoSaveIndicator persist={{ status: 'idle', lastSaved: null, lastError: null }} />);
+
+      expect(screen.getByText('Not saved')).toBeInTheDocument();
+    });
+  });
+});
+
+describe('SyncConflictDialog', () => {
+  const conflict: SyncConflict<{
+    name: string;
+    email: string;
+    address: { city: string; zip: string };
+  }> = {
+    local: { name: 'Jane', email: 'jane@test.com', address: { city: 'Paris', zip: '75001' } },
+    remote: { name: 'Jane', email: 'jane@work.com', address: { city: 'Lyon', zip: '75001' } },
+    remoteTabId: 'tab-2',
+    receivedAt: Date.now(),
+  };
+
+  it('should render nothing without a conflict', () => {
+    const { container } = render(<SyncConflictDialog conflict={null} onResolve={jest.fn()} />);
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('should show only the changed fields side by side', () => {
+    render(<SyncConflictDialog conflict={conflict} onResolve={jest.fn()} />);
+
+    expect(screen.getByRole('alertdialog')).toBeInTheDocument();
+    expect(screen.getByText('email')).toBeInTheDocument();
+    expect(screen.getByText('address.city')).toBeInTheDocument();
+    expect(screen.queryByText('name')).not.toBeInTheDocument();
+    expect(screen.getByText('jane@test.com')).toBeInTheDocument();
+    expect(screen.getByText('Lyon')).toBeInTheDocument();
+  });
+
+  it('should resolve with the local or remote version', () => {
+    const onResolve = jest.fn();
+    render(<SyncConflictDialog conflict={conflict} onResolve={onResolve} />);
+
+    fireEvent.click(screen.getByText('Keep mine'));
+    fireEvent.click(screen.getByText('Use theirs'));
+
+    expect(onResolve).toHaveBeenNthCalledWith(1, 'local');
+    expect(onResolve).toHaveBeenNthCalledWith(2, 'remote');
+  });
+
+  it('should merge the fields picked per row', () => {
+    const onResolve = jest.fn();
+    render(<SyncConflictDialog conflict={conflict} onResolve={onResolve} />);
+
+    fireEvent.click(screen.getByLabelText('Lyon'));
+    fireEvent.click(screen.getByText('Merge selected'));
+
+    expect(onResolve).toHaveBeenCalledWith({
+      name: 'Jane',
+      email: 'jane@test.com',
+      address: { city: 'Lyon', zip: '75001' },
+    });
+  });
+
+  it('should accept custom labels and value formatting', () => {
+    render(
+      <SyncConflictDialog
+        conflict={conflict}
+        onResolve={jest.fn()}
+        title="Conflicto"
+        localLabel="Esta pestaña"
+        remoteLabel="Otra pestaña"
+        keepLocalText="Mantener"
+        formatValue={(value, path) => `${path}=${String(value)}`}
+      />
+    );
+
+    expect(screen.getByRole('alertdialog')).toHaveAccessibleName('Conflicto');
+    expect(screen.getByText('Esta pestaña')).toBeInTheDocument();
+    expect(screen.getByText('Mantener')).toBeInTheDocument();
+    expect(screen.getByText('email=jane@work.com')).toBeInTheDocument();
+  });
+});
+
+describe('RestoreDraftBanner', () => {
+  const draft: PendingDraft<unknown> = {
+    data: { name: 'Jane' },
+    savedAt: Date.now() - 2 * 60 * 60 * 1000,
+    version: 1,
+  };
+
+  it('should render nothing without a pending draft', () => {
+    const { container } = render(
+      <RestoreDraftBanner
+        persist={{ pendingDraft: null, acceptDraft: jest.fn(), discardDraft: jest.fn() }}
+      />
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('should show how long ago the draft was saved', () => {
+    render(
+      <RestoreDraftBanner
+        persist={{ pendingDraft: draft, acceptDraft: jest.fn(), discardDraft: jest.fn() }}
+      />
+    );
+
+    expect(screen.getByRole('region', { name: 'Unsaved draft' })).toHaveTextContent(
+      'You have an unsaved draft from 2 hours ago'
+    );
+  });
+
+  it('should call acceptDraft and discardDraft from the buttons', () => {
+    const acceptDraft = jest.fn();
+    const discardDraft = jest.fn();
+    render(<RestoreDraftBanner persist={{ pendingDraft: draft, acceptDraft, discardDraft }} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Restore' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Discard' }));
+
+    expect(acceptDraft).toHaveBeenCalledTimes(1);
+    expect(discardDraft).toHaveBeenCalledTimes(1);
+  });
+
+  it('should accept a custom message and button texts', () => {
+    render(
+      <RestoreDraftBanner
+        persist={{ pendingDraft: draft, acceptDraft: jest.fn(), discardDraft: jest.fn() }}
+        message={(time) => `Borrador guardado ${time}`}
+        restoreText="Recuperar"
+        discardText="Descartar"
+      />
+    );
+
+    expect(screen.getByText('Borrador guardado 2 hours ago')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Recuperar' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Descartar' })).toBeInTheDocument();
+  });
+
+  it('should restore the draft of a prompt-mode form', async () => {
+    localStorage.setItem(
+      'rfp:banner-form',
+      JSON.stringify({ data: { name: 'Stored' }, timestamp: Date.now() - 60000, version: 1 })
+    );
+
+    function Form() {
+      const [formData, , actions] = useFormPersist(
+        'banner-form',
+        { name: '' },
+        { restore: 'prompt' }
+      );
+      return (
+        <>
+          <RestoreDraftBanner persist={actions} />
+          <span data-testid="name">{formData.name}</span>
+        </>
+      );
+    }
+
+    render(<Form />);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Restore' }));
+
+    expect(screen.getByTestId('name')).toHaveTextContent('Stored');
+    expect(screen.queryByRole('region', { name: 'Unsaved draft' })).not.toBeInTheDocument();
+  });
+});
+
+describe('DraftList', () => {
+  const createDrafts = (overrides: Partial<UseDraftsReturn> = {}): UseDraftsReturn => ({
+    drafts: [
+      { id: 'a', title: 'ACME', createdAt: 0, lastSaved: Date.now() - 3 * 60 * 1000, size: 2048 },
+      { id: 'b', title: 'Globex', createdAt: 0, lastSaved: null, size: 0 },
+    ],
+    activeId: 'a',
+    activeKey: 'email:draft:a',
+    isLoaded: true,
+    createDraft: jest.fn(() => 'c'),
+    openDraft: jest.fn(),
+    renameDraft: jest.fn(),
+    duplicateDraft: jest.fn(() => 'c'),
+    deleteDraft: jest.fn(),
+    refresh: jest.fn(() => Promise.resolve()),
+    ...overrides,
+  });
+
+  it('should list drafts with save time and size and mark the open one', () => {
+    render(<DraftList drafts={createDrafts()} />);
+
+    const items = screen.getAllByRole('listitem');
+    expect(items).toHaveLength(2);
+    expect(items[0]).toHaveAttribute('aria-current', 'true');
+    expect(items[0]).toHaveTextContent('3 minutes ago · 2.0 KB');
+    expect(items[1]).not.toHaveAttribute('aria-current');
+    expect(items[1]).toHaveTextContent('Not saved');
+  });
+
+  it('should open, duplicate, delete and create drafts', () => {
+    const drafts = createDrafts();
+    render(<DraftList drafts={drafts} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Globex' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Duplicate ACME' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Delete Globex' }));
+    fireEvent.click(screen.getByRole('button', { name: 'New draft' }));
+
+    expect(drafts.openDraft).toHaveBeenCalledWith('b');
+    expect(drafts.duplicateDraft).toHaveBeenCalledWith('a');
+    expect(drafts.deleteDraft).toHaveBeenCalledWith('b');
+    expect(drafts.createDraft).toHaveBeenCalled();
+  });
+
+  it('should rename a draft inline', () => {
+    const drafts = createDrafts();
+    render(<DraftList drafts={drafts} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Rename ACME' }));
+    const input = screen.getByRole('textbox', { name: 'Draft title' });
+    fireEvent.change(input, { target: { value: 'ACME renewal' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(drafts.renameDraft).toHaveBeenCalledWith('a', 'ACME renewal');
+    expect(screen.queryByRole('textbox')).not.toBeInTheDocument();
+  });
+
+  it('should cancel renaming with Escape', () => {
+    const drafts = createDrafts();
+    render(<DraftList drafts={drafts} renameText="Renombrar" />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Renombrar Globex' }));
+    fireEvent.keyDown(screen.getByRole('textbox'), { key: 'Escape' });
+
+    expect(drafts.renameDraft).not.toHaveBeenCalled();
+    expect(screen.getByRole('button', { name: 'Globex' })).toBeInTheDocument();
+  });
+});
+
+describe('PersistedForm', () => {
+  function ContactForm(props: Partial<React.ComponentProps<typeof PersistedForm>>) {
+    return (
+      <PersistedForm storageKey="contact" aria-label="contact" {...props}>
+        <input aria-label="name" name="name" defaultValue="" />
+        <input aria-label="password" name="password" type="password" />
+        <input aria-label="captcha" name="captcha" />
+        <input aria-label="attachment" name="attachment" type="file" />
+        <select aria-label="topic" name="topic" defaultValue="sales">
+          <option value="sales">Sales</option>
+          <option value="support">Support</option>
+        </select>
+        <select aria-label="colors" name="colors" multiple>
+          <option value="red">Red</option>
+          <option value="blue">Blue</option>
+        </select>
+        <input aria-label="newsletter" name="newsletter" type="checkbox" />
+        <input aria-label="news" name="tags" type="checkbox" value="news" />
+        <input aria-label="offers" name="tags" type="checkbox" value="offers" />
+        <input aria-label="email" name="contactBy" type="radio" value="email" />
+        <input aria-label="phone" name="contactBy" type="radio" value="phone" />
+        <button type="submit">Send</button>
+      </PersistedForm>
+    );
+  }
+
+  beforeEach(() => {
+    clearTestStorage();
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should save the native elements after the debounce', () => {
+    render(<ContactForm exclude={['captcha']} options={{ debounce: 100 }} />);
+
+    fireEvent.input(screen.getByLabelText('name'), { target: { value: 'Ada' } });
+    fireEvent.input(screen.getByLabelText('password'), { target: { value: 'secret' } });
+    fireEvent.input(screen.getByLabelText('captcha'), { target: { value: 'x7' } });
+    fireEvent.change(screen.getByLabelText('topic'), { target: { value: 'support' } });
+    const colors = screen.getByLabelText('colors') as HTMLSelectElement;
+    colors.options[1].selected = true;
+    fireEvent.change(colors);
+    fireEvent.click(screen.getByLabelText('newsletter'));
+    fireEvent.click(screen.getByLabelText('offers'));
+    fireEvent.click(screen.getByLabelText('phone'));
+
+    expect(getPersistedData('contact')).toBeNull();
+    act(() => {
+      jest.advanceTimersByTime(100);
+    });
+
+    expect(getPersistedData('contact')).toEqual({
+      name: 'Ada',
+      topic: 'support',
+      colors: ['blue'],
+      newsletter: true,
+      tags: ['offers'],
+      contactBy: 'phone',
+    });
+  });
+
+  it('should write stored values into the elements on mount', async () => {
+    seedPersistedData('contact', {
+      name: 'Grace',
+      password: 'leaked',
+      topic: 'support',
+      colors: ['red', 'blue'],
+      newsletter: true,
+      tags: ['news'],
+      contactBy: 'email',
+    });
+    render(<ContactForm />);
+
+    await waitFor(() => {
+      expect(screen.getByLabelText('name')).toHaveValue('Grace');
+    });
+    expect(screen.getByLabelText('password')).toHaveValue('');
+    expect(screen.getByLabelText('topic')).toHaveValue('support');
+    expect(screen.getByLabelText('colors')).toHaveValue(['red', 'blue']);
+    expect(screen.getByLabelText('newsletter')).toBeChecked();
+    expect(screen.getByLabelText('news')).toBeChecked();
+    expect(screen.getByLabelText('offers')).not.toBeChecked();
+    expect(screen.getByLabelText('email')).toBeChecked();
+  });
+
+  it('should clear the stored form on submit, including a pending save', () => {
+    const onSubmit = jest.fn((event: React.FormEvent<HTMLFormElement>) => event.preventDefault());
+    render(<ContactForm onSubmit={onSubmit} />);
+
+    fireEvent.input(screen.getByLabelText('name'), { target: { value: 'Ada' } });
+    act(() => {
+      jest.runOnlyPendingTimers();
+    });
+    expect(getPersistedData('contact')).not.toBeNull();
+
+    fireEvent.input(screen.getByLabelText('name'), { target: { value: 'Ada L.' } });
+    fireEvent.submit(screen.getByRole('form', { name: 'contact' }));
+    act(() => {
+      jest.runOnlyPendingTimers();
+    });
+
+    expect(onSubmit).toHaveBeenCalledTimes(1);
+    expect(getPersistedData('contact')).toBeNull();
+  });
+
+  it('should keep the stored form when onSubmit returns false', () => {
+    seedPersistedData('contact', { name: 'Grace' });
+    render(
+      <ContactForm
+        onSubmit={(event: React.FormEvent<HTMLFormElement>) => {
+          event.preventDefault();
+          return false;
+        }}
+      />
+    );
+
+    fireEvent.submit(screen.getByRole('form', { name: 'contact' }));
+
+    expect(getPersistedData('contact')).toEqual({ name: 'Grace' });
+  });
+
+  it('should keep the stored form when the submit promise resolves to false', async () => {
+    seedPersistedData('contact', { name: 'Grace' });
+    render(<ContactForm onSubmit={() => Promise.resolve(false)} />);
+
+    await act(async () => {
+      fireEvent.submit(screen.getByRole('form', { name: 'contact' }));
+      await Promise.resolve();
+    });
+
+    expect(getPersistedData('contact')).toEqual({ name: 'Grace' });
+  });
+
+  it('should clear the stored form when the submit promise resolves', async () => {
+    seedPersistedData('contact', { name: 'Grace' });
+    render(
+      <ContactForm
+        onSubmit={(event: React.FormEvent<HTMLFormElement>) => {
+          event.preventDefault();
+          return Promise.resolve();
+        }}
+      />
+    );
+
+    await act(async () => {
+      fireEvent.submit(screen.getByRole('form', { name: 'contact' }));
+      await Promise.resolve();
+    });
+
+    expect(getPersistedData('contact')).toBeNull();
+  });
+
+  it('should keep the stored form when the submit promise rejects', async () => {
+    seedPersistedData('contact', { name: 'Grace' });
+    render(<ContactForm onSubmit={() => Promise.reject(new Error('offline'))} />);
+
+    await act(async () => {
+      fireEvent.submit(screen.getByRole('form', { name: 'contact' }));
+      await Promise.resolve();
+    });
+
+    expect(getPersistedData('contact')).toEqual({ name: 'Grace' });
+  });
 });
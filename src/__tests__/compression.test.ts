@@ -0,0 +1,246 @@
+/**
+ * react-form-autosave
+ * @version 0.1.2
+ * @author 686f6c61
+ * @license MIT
+ * @repository https://github.com/686f6c61/react-form-autosave
+ *
+ * Tests for LZ and deflate compression codecs
+ */
+
+import { CompressionStream, DecompressionStream } from 'stream/web';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import {
+  LZ_MARKER,
+  DEFLATE_MARKER,
+  lzCompress,
+  lzDecompress,
+  deflateCompress,
+  deflateDecompress,
+  isDeflateAvailable,
+  getCompressionCodec,
+  simpleCompress,
+  decompress,
+  decompressAsync,
+  resolveCompressionOptions,
+  needsAsyncTransform,
+  createTransformPipeline,
+  createAsyncTransformPipeline,
+  wrapWithMetadata,
+} from '../middleware';
+import { useFormPersist } from '../hooks/useFormPersist';
+
+const formJson = JSON.stringify({
+  applicants: Array.from({ length: 50 }, (_, i) => ({
+    name: `Applicant ${i}`,
+    email: `applicant${i}@example.com`,
+    address: { street: 'Main Street', city: 'Springfield', country: 'US' },
+  })),
+});
+
+describe('LZ codec', () => {
+  it.each([
+    ['empty string', ''],
+    ['single character', 'a'],
+    ['repeated text', 'abc'.repeat(1000)],
+    ['unicode', 'Ñandú, Straße, 日本語, Ελληνικά'],
+    ['emoji and surrogate pairs', '👩‍💻 saved 🚀🚀🚀 — done ✅'],
+    ['form JSON', formJson],
+  ])('should round-trip %s', (_, input) => {
+    const compressed = lzCompress(input);
+
+    expect(compressed.startsWith(LZ_MARKER)).toBe(true);
+    expect(lzDecompress(compressed)).toBe(input);
+  });
+
+  it('should shrink repetitive form data', () => {
+    expect(lzCompress(formJson).length).toBeLessThan(formJson.length / 4);
+  });
+
+  it('should only emit printable, non-surrogate characters', () => {
+    const compressed = lzCompress(formJson + '😀'.repeat(100));
+
+    for (let i = 1; i < compressed.length; i++) {
+      const code = compressed.charCodeAt(i);
+      expect(code).toBeGreaterThanOrEqual(32);
+      expect(code >= 0xd800 && code <= 0xdfff).toBe(false);
+    }
+  });
+
+  it('should round-trip data larger than the dictionary', () => {
+    const large = Array.from({ length: 20000 }, (_, i) => `${i * 7919}`).join(',');
+    expect(lzDecompress(lzCompress(large))).toBe(large);
+  });
+
+  it('should reject foreign and corrupted payloads', () => {
+    expect(() => lzDecompress('plain')).toThrow('not LZ-compressed');
+    expect(() => lzDecompress(lzCompress(formJson).slice(0, 10))).toThrow();
+  });
+});
+
+describe('decompress', () => {
+  it('should detect the codec from the marker', () => {
+    expect(getCompressionCodec(simpleCompress('a'.repeat(2000)))).toBe('rle');
+    expect(getCompressionCodec(lzCompress('abc'))).toBe('lz');
+    expect(getCompressionCodec(`${DEFLATE_MARKER}x`)).toBe('deflate');
+    expect(getCompressionCodec('{"a":1}')).toBeNull();
+  });
+
+  it('should decode legacy RLE and LZ payloads', () => {
+    const text = 'a'.repeat(500) + 'b'.repeat(500);
+
+    expect(decompress(simpleCompress(text))).toBe(text);
+    expect(decompress(lzCompress(text))).toBe(text);
+    expect(decompress(text)).toBe(text);
+  });
+
+  it('should require async decompression for deflate payloads', () => {
+    expect(() => decompress(`${DEFLATE_MARKER}x`)).toThrow('asynchronous');
+  });
+
+  it('should restore payloads stored with the legacy RLE codec', () => {
+    const wrapped = wrapWithMetadata({ content: 'C'.repeat(4000) }, 1);
+    const legacy = simpleCompress(JSON.stringify(wrapped));
+
+    expect(createTransformPipeline(undefined, true).deserialize(legacy)).toEqual(wrapped);
+    expect(createTransformPipeline(undefined, false).deserialize(legacy)).toEqual(wrapped);
+  });
+});
+
+describe('compression options', () => {
+  it('should resolve defaults', () => {
+    expect(resolveCompressionOptions(true)).toEqual({
+      enabled: true,
+      threshold: 1024,
+      codec: 'lz',
+    });
+    expect(resolveCompressionOptions(undefined).enabled).toBe(false);
+    expect(resolveCompressionOptions({ enabled: false }).enabled).toBe(false);
+    expect(resolveCompressionOptions({ codec: 'deflate', threshold: 10 })).toEqual({
+      enabled: true,
+      threshold: 10,
+      codec: 'deflate',
+    });
+  });
+
+  it('should skip compression when it does not shrink the payload', () => {
+    const onCompress = jest.fn();
+    const pipeline = createTransformPipeline(undefined, { threshold: 0 }, false, onCompress);
+
+    expect(pipeline.serialize({ a: 1 })).toBe('{"a":1}');
+    expect(onCompress).not.toHaveBeenCalled();
+  });
+
+  it('should report input and output lengths', () => {
+    const onCompress = jest.fn();
+    const pipeline = createTransformPipeline(undefined, true, false, onCompress);
+    const serialized = pipeline.serialize(JSON.parse(formJson));
+
+    expect(onCompress).toHaveBeenCalledWith(formJson.length, serialized.length);
+  });
+});
+
+describe('deflate codec', () => {
+  it('should be unavailable without CompressionStream', () => {
+    expect(isDeflateAvailable()).toBe(false);
+    expect(needsAsyncTransform({ codec: 'deflate' }, undefined)).toBe(false);
+  });
+
+  describe('with CompressionStream', () => {
+    beforeAll(() => {
+      Object.assign(globalThis, { CompressionStream, DecompressionStream });
+    });
+
+    afterAll(() => {
+      const globals = globalThis as Record<string, unknown>;
+      delete globals.CompressionStream;
+      delete globals.DecompressionStream;
+    });
+
+    it('should round-trip through deflate-raw', async () => {
+      expect(isDeflateAvailable()).toBe(true);
+
+      const compressed = await deflateCompress(formJson);
+
+      expect(compressed.startsWith(DEFLATE_MARKER)).toBe(true);
+      expect(compressed.length).toBeLessThan(formJson.length / 4);
+      await expect(deflateDecompress(compressed)).resolves.toBe(formJson);
+      await expect(decompressAsync(compressed)).resolves.toBe(formJson);
+      await expect(decompressAsync(lzCompress('abc'))).resolves.toBe('abc');
+    });
+
+    it('should round-trip unicode', async () => {
+      const text = '日本語 👩‍💻 '.repeat(100);
+      await expect(deflateDecompress(await deflateCompress(text))).resolves.toBe(text);
+    });
+
+    it('should deflate in the async pipeline and still read LZ payloads', async () => {
+      const onCompress = jest.fn();
+      const pipeline = createAsyncTransformPipeline(
+        undefined,
+        { codec: 'deflate' },
+        undefined,
+        onCompress
+      );
+      const data = JSON.parse(formJson);
+
+      const serialized = await pipeline.serialize(data);
+
+      expect(getCompressionCodec(serialized)).toBe('deflate');
+      expect(onCompress).toHaveBeenCalledWith(formJson.length, serialized.length);
+      await expect(pipeline.deserialize(serialized)).resolves.toEqual(data);
+      await expect(pipeline.deserialize(lzCompress(formJson))).resolves.toEqual(data);
+      await expect(pipeline.deserialize(`${DEFLATE_MARKER}broken`)).resolves.toBeNull();
+    });
+
+    it('should persist with deflate and expose the compression ratio', async () => {
+      const options = { compress: { codec: 'deflate' as const }, debounce: 0 };
+      const { result, unmount } = renderHook(() =>
+        useFormPersist('deflate-form', { content: '' }, options)
+      );
+
+      act(() => {
+        result.current[1]({ content: 'C'.repeat(4000) });
+      });
+
+      await waitFor(() => {
+        expect(result.current[2].status).toBe('saved');
+      });
+      expect(localStorage.getItem('rfp:deflate-form')?.startsWith(DEFLATE_MARKER)).toBe(true);
+      expect(result.current[2].compressionRatio).toBeGreaterThan(10);
+      unmount();
+
+      const { result: restored } = renderHook(() =>
+        useFormPersist('deflate-form', { content: '' }, options)
+      );
+
+      await waitFor(() => {
+        expect(restored.current[0].content).toBe('C'.repeat(4000));
+      });
+    });
+  });
+});
+
+describe('compressionRatio', () => {
+  it('should be null when the last save was not compressed', () => {
+    jest.useFakeTimers();
+    const { result } = renderHook(() =>
+      useFormPersist('ratio-form', { content: '' }, { compress: true, debounce: 0 })
+    );
+
+    act(() => {
+      result.current[1]({ content: 'x'.repeat(3000) });
+      jest.advanceTimersByTime(0);
+    });
+    expect(result.current[2].compressionRatio).toBeGreaterThan(1);
+
+    act(() => {
+      result.current[1]({ content: 'short' });
+    });
+    act(() => {
+      jest.advanceTimersByTime(0);
+    });
+    expect(result.current[2].compressionRatio).toBeNull();
+    jest.useRealTimers();
+  });
+});
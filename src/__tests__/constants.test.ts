@@ -96,6 +96,7 @@ describe('constants', () => {
       expect(DEFAULT_OPTIONS.enabled).toBe(true);
       expect(DEFAULT_OPTIONS.version).toBe(DEFAULT_VERSION);
       expect(DEFAULT_OPTIONS.merge).toBe('shallow');
+      expect(DEFAULT_OPTIONS.restore).toBe('auto');
       expect(DEFAULT_OPTIONS.debug).toBe(false);
       expect(DEFAULT_OPTIONS.persistMode).toBe('full');
       expect(DEFAULT_OPTIONS.exclude).toEqual([]);
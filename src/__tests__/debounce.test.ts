@@ -84,6 +84,33 @@ describe('debounce', () => {
       expect(pending()).toBe(false);
     });
 
+    it('should notify when the pending state changes', () => {
+      const callback = jest.fn();
+      const onPendingChange = jest.fn();
+      const { debounced, cancel, flush } = createDebouncedFn(callback, 100, onPendingChange);
+
+      debounced('a');
+      debounced('b');
+      expect(onPendingChange.mock.calls).toEqual([[true]]);
+
+      jest.advanceTimersByTime(100);
+      expect(onPendingChange.mock.calls).toEqual([[true], [false]]);
+
+      debounced('c');
+      flush();
+      debounced('d');
+      cancel();
+      cancel();
+      expect(onPendingChange.mock.calls).toEqual([
+        [true],
+        [false],
+        [true],
+        [false],
+        [true],
+        [false],
+      ]);
+    });
+
     it('should clear lastArgs after execution', () => {
       const callback = jest.fn();
       const { debounced, flush } = createDebouncedFn(callback, 100);
@@ -270,5 +297,16 @@ describe('debounce', () => {
 
       expect(controller.pending()).toBe(false);
     });
+
+    it('should forward pending changes from the debounce window', () => {
+      const onPendingChange = jest.fn();
+      const controller = createSaveController(jest.fn(), 100, 1000, onPendingChange);
+
+      controller.save('test');
+      expect(onPendingChange).toHaveBeenLastCalledWith(true);
+
+      jest.advanceTimersByTime(100);
+      expect(onPendingChange).toHaveBeenLastCalledWith(false);
+    });
   });
 });
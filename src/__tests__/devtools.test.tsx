@@ -11,6 +11,8 @@ import React from 'react';
 import { render, screen, fireEvent, act } from '@testing-library/react';
 import { FormPersistDevTools } from '../devtools/FormPersistDevTools';
 import { DEFAULT_KEY_PREFIX } from '../core/constants';
+import { FormPersistProvider } from '../components/FormPersistProvider';
+import { useFormPersist } from '../hooks/useFormPersist';
 
 describe('FormPersistDevTools', () => {
   type CreateElementWithOptions = (
@@ -71,6 +73,110 @@ describe('FormPersistDevTools', () => {
     expect(screen.getByText(/v1/)).toBeInTheDocument();
   });
 
+  it('should mark forms owned by mounted hooks as live', async () => {
+    const data = { data: { name: 'Old' }, timestamp: Date.now(), version: 1 };
+    localStorage.setItem(`${DEFAULT_KEY_PREFIX}leftover`, JSON.stringify(data));
+
+    function LiveForm({ formKey, storage }: { formKey: string; storage: 'localStorage' | 'memory' }) {
+      useFormPersist(formKey, { name: '' }, { storage });
+      return null;
+    }
+
+    await act(async () => {
+      render(
+        <FormPersistProvider>
+          <LiveForm formKey="leftover" storage="localStorage" />
+          <LiveForm formKey="in-memory" storage="memory" />
+          <FormPersistDevTools defaultOpen={true} />
+        </FormPersistProvider>
+      );
+    });
+
+    expect(screen.getByText('leftover')).toBeInTheDocument();
+    expect(screen.getByText('in-memory')).toBeInTheDocument();
+    expect(screen.getAllByText(/^live/)).toHaveLength(2);
+    expect(screen.getByText('2 form(s)')).toBeInTheDocument();
+  });
+
+  it('should show a history timeline that moves live forms to any entry', async () => {
+    function HistoryForm() {
+      const [form, setForm] = useFormPersist(
+        'timeline-form',
+        { name: '' },
+        { storage: 'memory', history: true }
+      );
+      return (
+        <>
+          <output>{form.name || 'empty'}</output>
+          <button onClick={() => setForm({ name: 'Jane' }, { label: 'Typed name' })}>
+            Type
+          </button>
+          <button onClick={() => setForm({ name: 'Jane Doe' })}>Type more</button>
+        </>
+      );
+    }
+
+    await act(async () => {
+      render(
+        <FormPersistProvider>
+          <HistoryForm />
+          <FormPersistDevTools defaultOpen={true} timeline={true} />
+        </FormPersistProvider>
+      );
+    });
+
+    fireEvent.click(screen.getByText('Type'));
+    fireEvent.click(screen.getByText('Type more'));
+    fireEvent.click(screen.getByText('timeline-form'));
+
+    const timeline = screen.getByRole('list', { name: 'History timeline' });
+    const items = timeline.querySelectorAll('button');
+    expect(items).toHaveLength(3);
+    expect(items[0]).toHaveTextContent('Initial state');
+    expect(items[1]).toHaveTextContent('Typed name');
+    expect(items[2]).toHaveTextContent('name');
+    expect(items[2]).toHaveAttribute('aria-current', 'step');
+
+    fireEvent.click(items[0]);
+    expect(screen.getByRole('status')).toHaveTextContent('empty');
+
+    fireEvent.change(screen.getByLabelText('History position'), { target: { value: '1' } });
+    expect(screen.getByRole('status')).toHaveTextContent('Jane');
+    expect(screen.getByText(/Typed name/).closest('button')).toHaveAttribute(
+      'aria-current',
+      'step'
+    );
+  });
+
+  it('should not show the timeline unless enabled', async () => {
+    function HistoryForm() {
+      useFormPersist('no-timeline-form', { name: '' }, { storage: 'memory', history: true });
+      return null;
+    }
+
+    await act(async () => {
+      render(
+        <FormPersistProvider>
+          <HistoryForm />
+          <FormPersistDevTools defaultOpen={true} />
+        </FormPersistProvider>
+      );
+    });
+
+    fireEvent.click(screen.getByText('no-timeline-form'));
+
+    expect(screen.queryByRole('list', { name: 'History timeline' })).not.toBeInTheDocument();
+  });
+
+  it('should mark forms without a mounted hook as stored', () => {
+    const data = { data: { name: 'Old' }, timestamp: Date.now(), version: 1 };
+    localStorage.setItem(`${DEFAULT_KEY_PREFIX}leftover`, JSON.stringify(data));
+
+    render(<FormPersistDevTools defaultOpen={true} />);
+
+    expect(screen.getByText(/stored/)).toBeInTheDocument();
+  });
+
   it('should expand form details on click', () => {
     const data = {
       data: { name: 'John' },
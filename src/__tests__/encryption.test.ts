@@ -0,0 +1,277 @@
+/**
+ * react-form-autosave
+ * @version 0.1.2
+ * @author 686f6c61
+ * @license MIT
+ * @repository https://github.com/686f6c61/react-form-autosave
+ *
+ * Tests for Web Crypto encryption of persisted data
+ */
+
+import { webcrypto } from 'crypto';
+import { TextEncoder, TextDecoder } from 'util';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import {
+  ENCRYPTION_MARKER,
+  encryptString,
+  decryptString,
+  isDecryptionError,
+  createKeyResolver,
+  createAsyncTransformPipeline,
+  detectErrorType,
+  wrapWithMetadata,
+} from '../middleware';
+import { useFormPersist } from '../hooks/useFormPersist';
+
+// jsdom exposes neither SubtleCrypto nor TextEncoder/TextDecoder
+Object.defineProperty(globalThis, 'crypto', { configurable: true, value: webcrypto });
+Object.assign(globalThis, { TextEncoder, TextDecoder });
+
+function generateKey(): Promise<CryptoKey> {
+  return webcrypto.subtle.generateKey(
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  ) as Promise<CryptoKey>;
+}
+
+function tamper(payload: string): string {
+  const body = payload.slice(ENCRYPTION_MARKER.length);
+  const bytes = Buffer.from(body, 'base64');
+  bytes[bytes.length - 1] ^= 0xff;
+  return `${ENCRYPTION_MARKER}${bytes.toString('base64')}`;
+}
+
+describe('encryptString / decryptString', () => {
+  it('should round-trip unicode strings', async () => {
+    const key = await generateKey();
+    const encrypted = await encryptString('Hola, señor 👋', key);
+
+    expect(encrypted.startsWith(ENCRYPTION_MARKER)).toBe(true);
+    expect(encrypted).not.toContain('Hola');
+    await expect(decryptString(encrypted, key)).resolves.toBe('Hola, señor 👋');
+  });
+
+  it('should use a random IV for every write', async () => {
+    const key = await generateKey();
+    const first = await encryptString('same', key);
+    const second = await encryptString('same', key);
+
+    expect(first).not.toBe(second);
+  });
+
+  it('should reject data encrypted with another key', async () => {
+    const encrypted = await encryptString('secret', await generateKey());
+
+    await expect(decryptString(encrypted, await generateKey())).rejects.toMatchObject({
+      name: 'DecryptionError',
+    });
+  });
+
+  it('should reject tampered data', async () => {
+    const key = await generateKey();
+    const encrypted = await encryptString('secret', key);
+
+    await expect(decryptString(tamper(encrypted), key)).rejects.toThrow(
+      'Failed to decrypt stored data'
+    );
+  });
+
+  it('should reject unencrypted and malformed payloads', async () => {
+    const key = await generateKey();
+
+    await expect(decryptString('{"data":{}}', key)).rejects.toThrow('not encrypted');
+    await expect(decryptString(`${ENCRYPTION_MARKER}!!!`, key)).rejects.toThrow('malformed');
+    await expect(decryptString(`${ENCRYPTION_MARKER}AAAA`, key)).rejects.toThrow('malformed');
+  });
+
+  it('should be detected as DECRYPTION_FAILED', async () => {
+    const key = await generateKey();
+    const error = await decryptString('plain', key).catch((e: unknown) => e);
+
+    expect(isDecryptionError(error)).toBe(true);
+    expect(detectErrorType(error)).toBe('DECRYPTION_FAILED');
+    expect(isDecryptionError(new Error('other'))).toBe(false);
+  });
+});
+
+describe('createKeyResolver', () => {
+  it('should invoke key factories once', async () => {
+    const key = await generateKey();
+    const factory = jest.fn(async () => key);
+    const resolve = createKeyResolver(factory);
+
+    await expect(resolve()).resolves.toBe(key);
+    await expect(resolve()).resolves.toBe(key);
+    expect(factory).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry after a failed factory', async () => {
+    const key = await generateKey();
+    const factory = jest
+      .fn<Promise<CryptoKey>, []>()
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockResolvedValueOnce(key);
+    const resolve = createKeyResolver(factory);
+
+    await expect(resolve()).rejects.toThrow('offline');
+    await expect(resolve()).resolves.toBe(key);
+  });
+});
+
+describe('createAsyncTransformPipeline', () => {
+  it('should encrypt the serialized envelope', async () => {
+    const key = await generateKey();
+    const pipeline = createAsyncTransformPipeline(undefined, false, { key });
+    const wrapped = wrapWithMetadata({ ssn: '123-45-6789' }, 1);
+
+    const serialized = await pipeline.serialize(wrapped);
+
+    expect(serialized).not.toContain('123-45-6789');
+    await expect(pipeline.deserialize(serialized)).resolves.toEqual(wrapped);
+  });
+
+  it('should combine encryption with compression', async () => {
+    const key = await generateKey();
+    const pipeline = createAsyncTransformPipeline<{ text: string }>(undefined, true, {
+      key,
+      algorithm: 'AES-GCM',
+    });
+    const data = { text: 'a'.repeat(2000) };
+
+    const serialized = await pipeline.serialize(data);
+
+    await expect(pipeline.deserialize(serialized)).resolves.toEqual(data);
+  });
+});
+
+describe('useFormPersist with encryption', () => {
+  const initialState = { name: '', ssn: '' };
+
+  it('should persist encrypted data and restore it', async () => {
+    const key = await generateKey();
+    const encryption = { key, algorithm: 'AES-GCM' as const };
+
+    const { result, unmount } = renderHook(() =>
+      useFormPersist('encrypted-form', initialState, { encryption, debounce: 0 })
+    );
+
+    act(() => {
+      result.current[1]({ name: 'Jane', ssn: '123-45-6789' });
+    });
+
+    await waitFor(() => {
+      expect(result.current[2].isPersisted).toBe(true);
+    });
+
+    const raw = localStorage.getItem('rfp:encrypted-form') as string;
+    expect(raw.startsWith(ENCRYPTION_MARKER)).toBe(true);
+    expect(raw).not.toContain('123-45-6789');
+    expect(result.current[2].getPersistedValue()).toEqual({ name: 'Jane', ssn: '123-45-6789' });
+
+    unmount();
+
+    const { result: restored } = renderHook(() =>
+      useFormPersist('encrypted-form', initialState, {
+        encryption: { key: async () => key },
+      })
+    );
+
+    await waitFor(() => {
+      expect(restored.current[0]).toEqual({ name: 'Jane', ssn: '123-45-6789' });
+    });
+  });
+
+  it('should revert a restored encrypted form to the persisted value', async () => {
+    const key = await generateKey();
+    localStorage.setItem(
+      'rfp:encrypted-revert-form',
+      await encryptString(JSON.stringify(wrapWithMetadata({ name: 'Jane', ssn: '1' }, 1)), key)
+    );
+
+    const { result } = renderHook(() =>
+      useFormPersist('encrypted-revert-form', initialState, { encryption: { key }, debounce: 1000 })
+    );
+    await waitFor(() => {
+      expect(result.current[2].isRestored).toBe(true);
+    });
+
+    act(() => {
+      result.current[1]({ name: 'Grace', ssn: '2' });
+    });
+    expect(result.current[2].getPersistedValue()).toEqual({ name: 'Jane', ssn: '1' });
+
+    act(() => {
+      result.current[2].revert();
+    });
+    expect(result.current[0]).toEqual({ name: 'Jane', ssn: '1' });
+
+    act(() => {
+      result.current[2].clear();
+    });
+    expect(result.current[2].getPersistedValue()).toBeNull();
+  });
+
+  it('should report DECRYPTION_FAILED when the key is wrong', async () => {
+    localStorage.setItem(
+      'rfp:wrong-key-form',
+      await encryptString(JSON.stringify(wrapWithMetadata({ name: 'Jane' }, 1)), await generateKey())
+    );
+    const onError = jest.fn();
+    const encryption = { key: await generateKey() };
+
+    const { result } = renderHook(() =>
+      useFormPersist('wrong-key-form', initialState, { encryption, onError })
+    );
+
+    await waitFor(() => {
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'DECRYPTION_FAILED', key: 'rfp:wrong-key-form' })
+      );
+    });
+    expect(result.current[0]).toEqual(initialState);
+  });
+
+  it('should report DECRYPTION_FAILED when data was tampered with', async () => {
+    const key = await generateKey();
+    const encrypted = await encryptString(
+      JSON.stringify(wrapWithMetadata({ name: 'Jane' }, 1)),
+      key
+    );
+    localStorage.setItem('rfp:tampered-form', tamper(encrypted));
+    const onError = jest.fn();
+    const encryption = { key };
+
+    renderHook(() =>
+      useFormPersist('tampered-form', initialState, { encryption, onError })
+    );
+
+    await waitFor(() => {
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'DECRYPTION_FAILED' })
+      );
+    });
+  });
+
+  it('should never write a plaintext emergency copy on pagehide', async () => {
+    const encryption = { key: await generateKey() };
+
+    const { result } = renderHook(() =>
+      useFormPersist('encrypted-flush-form', initialState, { encryption, debounce: 1000 })
+    );
+
+    act(() => {
+      result.current[1]({ name: 'Jane', ssn: '123-45-6789' });
+    });
+    act(() => {
+      window.dispatchEvent(new Event('pagehide'));
+    });
+
+    expect(localStorage.getItem('rfp:encrypted-flush-form:emergency')).toBeNull();
+
+    await waitFor(() => {
+      expect(result.current[2].isPersisted).toBe(true);
+    });
+    expect(localStorage.getItem('rfp:encrypted-flush-form')).not.toContain('123-45-6789');
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * react-form-autosave
+ * @version 0.1.2
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/react-form-autosave
+ *
+ * Tests for the field helper (hooks/field.ts)
+ */
+
+import { render, screen, fireEvent, renderHook, act } from '@testing-library/react';
+import { useFormPersist } from '../hooks/useFormPersist';
+import { clearTestStorage, seedPersistedData } from '../testing';
+import type { FormPersistActions } from '../core/types';
+
+interface ProfileForm extends Record<string, unknown> {
+  name: string;
+  bio: string;
+  age: number | null;
+  newsletter: boolean;
+  plan: string;
+  tags: string[];
+  colors: string[];
+  address: { city: string };
+  contacts: { email: string }[];
+}
+
+const initialState: ProfileForm = {
+  name: '',
+  bio: '',
+  age: null,
+  newsletter: false,
+  plan: 'free',
+  tags: [],
+  colors: [],
+  address: { city: '' },
+  contacts: [{ email: '' }, { email: 'b@test.com' }],
+};
+
+let latest: { state: ProfileForm; actions: FormPersistActions<ProfileForm> };
+
+function ProfileEditor() {
+  const [state, , actions] = useFormPersist('field-profile', initialState);
+  latest = { state, actions };
+  const { field } = actions;
+
+  return (
+    <form>
+      <input aria-label="name" {...field('name')} />
+      <textarea aria-label="bio" {...field('bio', { type: 'textarea' })} />
+      <input aria-label="age" {...field('age', { type: 'number' })} />
+      <input aria-label="newsletter" {...field('newsletter', { type: 'checkbox' })} />
+      <input aria-label="free" {...field('plan', { type: 'radio', value: 'free' })} />
+      <input aria-label="pro" {...field('plan', { type: 'radio', value: 'pro' })} />
+      <input aria-label="news" {...field('tags', { type: 'checkbox', value: 'news' })} />
+      <input aria-label="offers" {...field('tags', { type: 'checkbox', value: 'offers' })} />
+      <select aria-label="colors" {...field('colors', { type: 'select-multiple' })}>
+        <option value="red">Red</option>
+        <option value="blue">Blue</option>
+      </select>
+      <input aria-label="city" {...field('address.city')} />
+      <input aria-label="email" {...field('contacts[0].email')} />
+    </form>
+  );
+}
+
+describe('field helper', () => {
+  beforeEach(() => {
+    clearTestStorage();
+  });
+
+  it('should bind text inputs and textareas', () => {
+    render(<ProfileEditor />);
+
+    fireEvent.change(screen.getByLabelText('name'), { target: { value: 'Ada' } });
+    fireEvent.change(screen.getByLabelText('bio'), { target: { value: 'Hello' } });
+
+    expect(latest.state.name).toBe('Ada');
+    expect(latest.state.bio).toBe('Hello');
+    expect(screen.getByLabelText('name')).toHaveValue('Ada');
+    expect(screen.getByLabelText('name')).toHaveAttribute('name', 'name');
+  });
+
+  it('should store numbers, and null for an empty number input', () => {
+    render(<ProfileEditor />);
+    const age = screen.getByLabelText('age');
+
+    fireEvent.change(age, { target: { value: '42' } });
+    expect(latest.state.age).toBe(42);
+    expect(age).toHaveValue(42);
+
+    fireEvent.change(age, { target: { value: '' } });
+    expect(latest.state.age).toBeNull();
+  });
+
+  it('should store null when a number input is cleared', () => {
+    render(<ProfileEditor />);
+    const age = screen.getByLabelText('age');
+
+    fireEvent.change(age, { target: { value: '7' } });
+    expect(latest.actions.isFieldDirty('age')).toBe(true);
+
+    fireEvent.change(age, { target: { value: '' } });
+    expect(latest.state.age).toBeNull();
+    expect(age).toHaveValue(null);
+    // The initial value is null, so clearing the input undoes the change
+    expect(latest.actions.isFieldDirty('age')).toBe(false);
+  });
+
+  it('should bind checkboxes, checkbox groups and radios', () => {
+    render(<ProfileEditor />);
+
+    fireEvent.click(screen.getByLabelText('newsletter'));
+    expect(latest.state.newsletter).toBe(true);
+    expect(screen.getByLabelText('newsletter')).toBeChecked();
+
+    fireEvent.click(screen.getByLabelText('offers'));
+    fireEvent.click(screen.getByLabelText('news'));
+    expect(latest.state.tags).toEqual(['offers', 'news']);
+    fireEvent.click(screen.getByLabelText('offers'));
+    expect(latest.state.tags).toEqual(['news']);
+
+    expect(screen.getByLabelText('free')).toBeChecked();
+    fireEvent.click(screen.getByLabelText('pro'));
+    expect(latest.state.plan).toBe('pro');
+    expect(screen.getByLabelText('pro')).toBeChecked();
+  });
+
+  it('should bind multiple selects', () => {
+    render(<ProfileEditor />);
+    const select = screen.getByLabelText('colors') as HTMLSelectElement;
+
+    select.options[0].selected = true;
+    select.options[1].selected = true;
+    fireEvent.change(select);
+
+    expect(latest.state.colors).toEqual(['red', 'blue']);
+  });
+
+  it('should update nested paths and arrays immutably', () => {
+    render(<ProfileEditor />);
+    const before = latest.state;
+
+    fireEvent.change(screen.getByLabelText('city'), { target: { value: 'Paris' } });
+    fireEvent.change(screen.getByLabelText('email'), { target: { value: 'a@test.com' } });
+
+    expect(latest.state.address).toEqual({ city: 'Paris' });
+    expect(latest.state.contacts).toEqual([{ email: 'a@test.com' }, { email: 'b@test.com' }]);
+    expect(before.address.city).toBe('');
+    expect(before.contacts[0].email).toBe('');
+    expect(latest.state.contacts[1]).toBe(before.contacts[1]);
+  });
+
+  it('should track touched and dirty fields', () => {
+    render(<ProfileEditor />);
+    const city = screen.getByLabelText('city');
+
+    expect(latest.actions.touched).toEqual({});
+    fireEvent.blur(city);
+    expect(latest.actions.touched).toEqual({ 'address.city': true });
+
+    fireEvent.change(city, { target: { value: 'Rome' } });
+    expect(latest.actions.isFieldDirty('address.city')).toBe(true);
+    expect(latest.actions.isFieldDirty('name')).toBe(false);
+
+    act(() => {
+      latest.actions.reset();
+    });
+    expect(latest.actions.touched).toEqual({});
+    expect(latest.actions.isFieldDirty('address.city')).toBe(false);
+  });
+
+  it('should mark changed fields as touched', () => {
+    render(<ProfileEditor />);
+
+    fireEvent.change(screen.getByLabelText('email'), { target: { value: 'a@test.com' } });
+
+    expect(latest.actions.touched).toEqual({ 'contacts[0].email': true });
+    expect(latest.actions.isFieldDirty('contacts[0].email')).toBe(true);
+    expect(latest.actions.isFieldDirty('contacts')).toBe(true);
+    expect(latest.actions.isFieldDirty('contacts[1]')).toBe(false);
+  });
+
+  it('should only report touched fields as dirty', async () => {
+    seedPersistedData('field-profile', { ...initialState, name: 'Restored', bio: 'Draft' });
+    await act(async () => {
+      render(<ProfileEditor />);
+    });
+
+    expect(latest.state.name).toBe('Restored');
+    expect(latest.actions.isDirty).toBe(true);
+    expect(latest.actions.isFieldDirty('name')).toBe(false);
+
+    fireEvent.blur(screen.getByLabelText('name'));
+    expect(latest.actions.isFieldDirty('name')).toBe(true);
+    expect(latest.actions.isFieldDirty('bio')).toBe(false);
+  });
+
+  it('should apply changes made before a render to the latest state', () => {
+    const { result } = renderHook(() => useFormPersist('field-batch', initialState));
+    const nameField = result.current[2].field('name');
+    const bioField = result.current[2].field('bio');
+
+    act(() => {
+      nameField.onChange({ target: { value: 'Ada' } } as React.ChangeEvent<HTMLInputElement>);
+      bioField.onChange({ target: { value: 'Bio' } } as React.ChangeEvent<HTMLInputElement>);
+    });
+
+    expect(result.current[0]).toMatchObject({ name: 'Ada', bio: 'Bio' });
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * react-form-autosave
+ * @version 0.1.2
+ * @author 686f6c61
+ * @license MIT
+ * @repository https://github.com/686f6c61/react-form-autosave
+ *
+ * Tests for per-field clocks and field-level merging
+ */
+
+import { stampFieldChanges, pickFieldClock, mergeFieldClocks } from '../sync/fieldClock';
+import type { FieldClock } from '../core/types';
+
+interface Ticket {
+  subject: string;
+  priority: string;
+  customer: { name: string; email: string };
+  tags: string[];
+  note?: string;
+}
+
+const ticket: Ticket = {
+  subject: 'Printer broken',
+  priority: 'low',
+  customer: { name: 'Jane', email: 'jane@test.com' },
+  tags: ['hardware'],
+};
+
+describe('stampFieldChanges', () => {
+  it('should record changed fields, including nested ones', () => {
+    const next = { ...ticket, priority: 'high', customer: { ...ticket.customer, email: 'j@x.com' } };
+
+    expect(stampFieldChanges({}, ticket, next, 'tab-a', 100)).toEqual({
+      priority: { at: 100, tabId: 'tab-a' },
+      'customer.email': { at: 100, tabId: 'tab-a' },
+    });
+  });
+
+  it('should not record anything without previous data or changes', () => {
+    const clock: FieldClock = { subject: { at: 1, tabId: 'a' } };
+
+    expect(stampFieldChanges(clock, undefined, ticket, 'tab-a', 100)).toBe(clock);
+    expect(stampFieldChanges(clock, ticket, { ...ticket }, 'tab-a', 100)).toBe(clock);
+  });
+
+  it('should replace entries below a replaced value', () => {
+    const clock: FieldClock = { 'customer.name': { at: 1, tabId: 'a' } };
+    const next = { ...ticket, customer: null };
+
+    expect(stampFieldChanges(clock, ticket, next, 'tab-b', 5)).toEqual({
+      customer: { at: 5, tabId: 'tab-b' },
+    });
+  });
+});
+
+describe('pickFieldClock', () => {
+  it('should drop local-only fields and keep deleted fields', () => {
+    const clock: FieldClock = {
+      subject: { at: 1, tabId: 'a' },
+      'customer.email': { at: 2, tabId: 'a' },
+      note: { at: 3, tabId: 'a' },
+    };
+    const sent = { ...ticket, customer: { name: 'Jane' } };
+
+    expect(pickFieldClock(clock, sent, ticket)).toEqual({
+      subject: { at: 1, tabId: 'a' },
+      note: { at: 3, tabId: 'a' },
+    });
+  });
+});
+
+describe('mergeFieldClocks', () => {
+  it('should keep concurrent edits to different fields', () => {
+    const local = { ...ticket, priority: 'high', customer: { ...ticket.customer, name: 'Janet' } };
+    const remote = { ...ticket, subject: 'Printer on fire', customer: { ...ticket.customer, email: 'j@x.com' } };
+
+    const merged = mergeFieldClocks(
+      local,
+      { priority: { at: 10, tabId: 'a' }, 'customer.name': { at: 11, tabId: 'a' } },
+      remote,
+      { subject: { at: 12, tabId: 'b' }, 'customer.email': { at: 9, tabId: 'b' } }
+    );
+
+    expect(merged.data).toEqual({
+      subject: 'Printer on fire',
+      priority: 'high',
+      customer: { name: 'Janet', email: 'j@x.com' },
+      tags: ['hardware'],
+    });
+    expect(Object.keys(merged.clock).sort()).toEqual([
+      'customer.email',
+      'customer.name',
+      'priority',
+      'subject',
+    ]);
+  });
+
+  it('should keep the latest write of the same field', () => {
+    const local = { ...ticket, priority: 'high' };
+    const remote = { ...ticket, priority: 'urgent' };
+
+    expect(
+      mergeFieldClocks(local, { priority: { at: 20, tabId: 'a' } }, remote, {
+        priority: { at: 10, tabId: 'b' },
+      }).data.priority
+    ).toBe('high');
+    expect(
+      mergeFieldClocks(local, { priority: { at: 10, tabId: 'a' } }, remote, {
+        priority: { at: 20, tabId: 'b' },
+      }).data.priority
+    ).toBe('urgent');
+  });
+
+  it('should break ties by tab id on both sides', () => {
+    const a = { ...ticket, priority: 'high' };
+    const b = { ...ticket, priority: 'urgent' };
+    const clockA: FieldClock = { priority: { at: 10, tabId: 'tab-a' } };
+    const clockB: FieldClock = { priority: { at: 10, tabId: 'tab-b' } };
+
+    expect(mergeFieldClocks(a, clockA, b, clockB).data.priority).toBe('urgent');
+    expect(mergeFieldClocks(b, clockB, a, clockA).data.priority).toBe('urgent');
+  });
+
+  it('should apply deletions and parent replacements', () => {
+    const local: Ticket = { ...ticket, note: 'call back' };
+    const remote = { ...ticket, tags: [] as string[] };
+
+    const merged = mergeFieldClocks(
+      local,
+      { note: { at: 1, tabId: 'a' }, 'customer.name': { at: 1, tabId: 'a' } },
+      remote,
+      { note: { at: 5, tabId: 'b' }, tags: { at: 5, tabId: 'b' } }
+    );
+
+    expect(merged.data).toEqual({ ...ticket, tags: [] });
+    expect('note' in merged.data).toBe(false);
+  });
+
+  it('should keep local values for fields the remote clock does not cover', () => {
+    const local = { ...ticket, subject: 'Local' };
+    const remote = { ...ticket, subject: 'Remote' };
+
+    expect(mergeFieldClocks(local, {}, remote, {}).data.subject).toBe('Local');
+  });
+});
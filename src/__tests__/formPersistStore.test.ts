@@ -0,0 +1,503 @@
+/**
+ * react-form-autosave
+ * @version 0.1.2
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/react-form-autosave
+ *
+ * Tests for core/store.ts
+ */
+
+import { createFormPersistStore } from '../core/store';
+import { wrapWithMetadata } from '../middleware';
+import { createHistoryStackFromStates } from '../history/historyStack';
+import {
+  seedPersistedData,
+  getPersistedData,
+  clearTestStorage,
+  createMockStorage,
+} from '../testing';
+import type { FormPersistOptions, StorageAdapter } from '../core/types';
+
+interface TestFormData extends Record<string, unknown> {
+  name: string;
+  email: string;
+}
+
+const initialState: TestFormData = { name: '', email: '' };
+
+// Let the asynchronous restore finish
+async function flushMicrotasks(): Promise<void> {
+  for (let i = 0; i < 10; i++) {
+    await Promise.resolve();
+  }
+}
+
+/**
+ * Async adapter backed by a Map
+ */
+function createAsyncStorage(): StorageAdapter & { data: Map<string, string> } {
+  const data = new Map<string, string>();
+  return {
+    data,
+    getItem: (key) => Promise.resolve(data.get(key) ?? null),
+    setItem: (key, value) => {
+      data.set(key, value);
+      return Promise.resolve();
+    },
+    removeItem: (key) => {
+      data.delete(key);
+      return Promise.resolve();
+    },
+  };
+}
+
+const stored = (data: unknown, expiresAt?: number): string =>
+  JSON.stringify({ ...wrapWithMetadata(data, 1), ...(expiresAt !== undefined && { expiresAt }) });
+
+describe('createFormPersistStore', () => {
+  beforeEach(() => {
+    clearTestStorage();
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should update the state, notify listeners and save after the debounce', () => {
+    const store = createFormPersistStore('store-basic', initialState, { debounce: 300 });
+    const listener = jest.fn();
+    const unsubscribe = store.subscribe(listener);
+
+    store.setState({ name: 'Ada', email: '' });
+    store.setState((prev) => ({ ...prev, email: 'ada@test.com' }));
+
+    expect(store.getState()).toEqual({ name: 'Ada', email: 'ada@test.com' });
+    expect(listener).toHaveBeenCalled();
+    expect(store.getSnapshot().status).toBe('pending');
+    expect(getPersistedData('store-basic')).toBeNull();
+
+    jest.advanceTimersByTime(300);
+    expect(getPersistedData<TestFormData>('store-basic')?.email).toBe('ada@test.com');
+    expect(store.getSnapshot()).toMatchObject({ status: 'saved', isPersisted: true, isDirty: true });
+
+    unsubscribe();
+  });
+
+  it('should keep the same snapshot until something changes', () => {
+    const store = createFormPersistStore('store-snapshot', initialState);
+    const snapshot = store.getSnapshot();
+
+    expect(store.getSnapshot()).toBe(snapshot);
+    store.setState({ name: 'Changed', email: '' });
+    expect(store.getSnapshot()).not.toBe(snapshot);
+    expect(store.getSnapshot().state).toBe(store.getState());
+  });
+
+  it('should restore stored data when the first listener subscribes', async () => {
+    seedPersistedData('store-restore', { name: 'Stored', email: 'stored@test.com' });
+    const onRestore = jest.fn();
+    const store = createFormPersistStore('store-restore', initialState, { onRestore });
+
+    await flushMicrotasks();
+    expect(store.getState()).toEqual(initialState);
+
+    const unsubscribe = store.subscribe(() => {});
+    await flushMicrotasks();
+
+    expect(store.getState()).toEqual({ name: 'Stored', email: 'stored@test.com' });
+    expect(store.getSnapshot().isRestored).toBe(true);
+    expect(onRestore).toHaveBeenCalledTimes(1);
+
+    // Subscribing again does not restore again
+    unsubscribe();
+    store.subscribe(() => {});
+    await flushMicrotasks();
+    expect(onRestore).toHaveBeenCalledTimes(1);
+  });
+
+  it('should write the pending save on flush and when the last listener unsubscribes', () => {
+    const store = createFormPersistStore('store-flush', initialState, { debounce: 5000 });
+    const unsubscribeA = store.subscribe(() => {});
+    const unsubscribeB = store.subscribe(() => {});
+
+    store.setState({ name: 'Flushed', email: '' });
+    store.flush();
+    expect(getPersistedData<TestFormData>('store-flush')?.name).toBe('Flushed');
+
+    store.setState({ name: 'Unsubscribed', email: '' });
+    unsubscribeA();
+    expect(getPersistedData<TestFormData>('store-flush')?.name).toBe('Flushed');
+    unsubscribeB();
+    expect(getPersistedData<TestFormData>('store-flush')?.name).toBe('Unsubscribed');
+  });
+
+  it('should undo and redo with history enabled', () => {
+    const store = createFormPersistStore('store-history', initialState, { history: true });
+
+    store.setState({ name: 'A', email: '' });
+    store.setState({ name: 'AB', email: '' });
+    expect(store.getSnapshot()).toMatchObject({ canUndo: true, canRedo: false, historyLength: 3 });
+
+    store.undo();
+    expect(store.getState().name).toBe('A');
+    store.undo();
+    expect(store.getState().name).toBe('');
+    expect(store.getSnapshot().canUndo).toBe(false);
+
+    store.redo();
+    expect(store.getState().name).toBe('A');
+    expect(store.getSnapshot().historyIndex).toBe(1);
+  });
+
+  it('should clear the stored data', () => {
+    const store = createFormPersistStore('store-clear', initialState, { debounce: 0 });
+    store.setState({ name: 'Saved', email: '' });
+    store.flush();
+    expect(getPersistedData('store-clear')).not.toBeNull();
+
+    store.clear();
+    expect(getPersistedData('store-clear')).toBeNull();
+    expect(store.getSnapshot()).toMatchObject({ isPersisted: false, status: 'idle' });
+  });
+
+  it('should cancel a pending save when cleared', () => {
+    const store = createFormPersistStore('store-clear-pending', initialState, { debounce: 300 });
+    const unsubscribe = store.subscribe(() => {});
+
+    store.setState({ name: 'Submitted', email: '' });
+    store.clear();
+    jest.advanceTimersByTime(300);
+    expect(getPersistedData('store-clear-pending')).toBeNull();
+
+    // Unsubscribing flushes pending saves, and there is none left
+    unsubscribe();
+    expect(getPersistedData('store-clear-pending')).toBeNull();
+    expect(store.getSnapshot().status).toBe('idle');
+  });
+
+  it('should apply new options', () => {
+    const store = createFormPersistStore('store-options', initialState, { debounce: 5000 });
+    store.setOptions({ debounce: 100, keyPrefix: 'ignored:' });
+
+    store.setState({ name: 'Fast', email: '' });
+    jest.advanceTimersByTime(100);
+
+    expect(store.key).toBe('rfp:store-options');
+    expect(getPersistedData<TestFormData>('store-options')?.name).toBe('Fast');
+  });
+
+  it('should restore the other items of an array when an index is excluded', async () => {
+    const options: FormPersistOptions<{ items: string[] }> = { exclude: ['items[0]'], debounce: 0 };
+    const store = createFormPersistStore('store-exclude-index', { items: ['x'] }, options);
+    store.setState({ items: ['a', 'b', 'c'] });
+    store.flush();
+    expect(getPersistedData('store-exclude-index')).toEqual({ items: [null, 'b', 'c'] });
+
+    const restored = createFormPersistStore('store-exclude-index', { items: ['x'] }, options);
+    restored.subscribe(() => {});
+    await flushMicrotasks();
+    expect(restored.getState()).toEqual({ items: ['x', 'b', 'c'] });
+  });
+
+  it('should restart sync, flush events and the history flags when their options change', () => {
+    const store = createFormPersistStore('store-options-restart', initialState, {
+      debounce: 5000,
+    });
+    const listener = jest.fn();
+    const unsubscribe = store.subscribe(listener);
+
+    listener.mockClear();
+    store.setOptions({ debounce: 5000, history: true });
+    expect(listener).toHaveBeenCalled();
+
+    store.setOptions({ debounce: 5000, history: true, sync: true, flushOn: ['beforeunload'] });
+    store.setState({ name: 'Leaving', email: '' });
+    window.dispatchEvent(new Event('pagehide'));
+    expect(getPersistedData('store-options-restart')).toBeNull();
+
+    window.dispatchEvent(new Event('beforeunload'));
+    expect(getPersistedData<TestFormData>('store-options-restart')?.name).toBe('Leaving');
+    unsubscribe();
+  });
+
+  describe('asynchronous adapters', () => {
+    it('should save, read back and clear', async () => {
+      const storage = createAsyncStorage();
+      const store = createFormPersistStore('store-async', initialState, { storage, debounce: 0 });
+      const unsubscribe = store.subscribe(() => {});
+      await flushMicrotasks();
+
+      store.setState({ name: 'Async', email: '' });
+      jest.advanceTimersByTime(0);
+      expect(store.getSnapshot().status).toBe('saving');
+      await flushMicrotasks();
+
+      expect(store.getSnapshot()).toMatchObject({ status: 'saved', isPersisted: true });
+      expect(JSON.parse(storage.data.get('rfp:store-async') as string).data.name).toBe('Async');
+      expect(store.getPersistedValue()).toEqual({ name: 'Async', email: '' });
+
+      store.clear();
+      await flushMicrotasks();
+      expect(storage.data.size).toBe(0);
+      expect(store.getSnapshot()).toMatchObject({ status: 'idle', isPersisted: false });
+      expect(store.getPersistedValue()).toBeNull();
+      unsubscribe();
+    });
+
+    it('should report writes and clears that fail', async () => {
+      const storage = createAsyncStorage();
+      storage.setItem = () => Promise.reject(new Error('write failed'));
+      storage.removeItem = () => Promise.reject(new Error('remove failed'));
+      const onError = jest.fn();
+      const store = createFormPersistStore('store-async-errors', initialState, {
+        storage,
+        debounce: 0,
+        onError,
+      });
+
+      store.setState({ name: 'Lost', email: '' });
+      jest.advanceTimersByTime(0);
+      await flushMicrotasks();
+      expect(onError).toHaveBeenLastCalledWith(
+        expect.objectContaining({ message: 'write failed' })
+      );
+      expect(store.getSnapshot().status).toBe('error');
+
+      store.clear();
+      await flushMicrotasks();
+      expect(onError).toHaveBeenLastCalledWith(
+        expect.objectContaining({ type: 'UNKNOWN', message: 'remove failed' })
+      );
+    });
+
+    it('should write an emergency copy only for data that passes validation', async () => {
+      const storage = createAsyncStorage();
+      storage.setItem = () => new Promise<void>(() => {});
+      const store = createFormPersistStore('store-emergency', initialState, {
+        storage,
+        debounce: 1000,
+        validate: (data) => data.name !== 'Invalid',
+      });
+      const unsubscribe = store.subscribe(() => {});
+      await flushMicrotasks();
+
+      store.setState({ name: 'Valid', email: '' });
+      jest.advanceTimersByTime(1000);
+      store.setState({ name: 'Invalid', email: '' });
+      window.dispatchEvent(new Event('pagehide'));
+      expect(localStorage.getItem('rfp:store-emergency:emergency')).toBeNull();
+
+      store.setState({ name: 'Valid again', email: '' });
+      window.dispatchEvent(new Event('pagehide'));
+      expect(getPersistedData<TestFormData>('store-emergency:emergency')?.name).toBe(
+        'Valid again'
+      );
+      unsubscribe();
+    });
+
+    it('should ignore emergency copies that cannot be read', async () => {
+      const storage = createAsyncStorage();
+      storage.data.set('rfp:store-emergency-bad', stored({ name: 'Primary', email: '' }));
+      localStorage.setItem('rfp:store-emergency-bad:emergency', '{"data":1}');
+      const store = createFormPersistStore('store-emergency-bad', initialState, { storage });
+      store.subscribe(() => {});
+      await flushMicrotasks();
+      expect(store.getState().name).toBe('Primary');
+
+      const getItem = jest.spyOn(Storage.prototype, 'getItem').mockImplementation(() => {
+        throw new Error('denied');
+      });
+      const other = createFormPersistStore('store-emergency-denied', initialState, { storage });
+      other.subscribe(() => {});
+      await flushMicrotasks();
+      getItem.mockRestore();
+      expect(other.getSnapshot().lastError).toBeNull();
+    });
+  });
+
+  describe('partitions', () => {
+    const long = { name: 'x'.repeat(300), email: '' };
+    const partition = { maxSize: 100 };
+
+    it('should split large saves, read them back and remove old chunks', () => {
+      const storage = createMockStorage();
+      const store = createFormPersistStore('store-parts', initialState, {
+        storage,
+        partition,
+        debounce: 0,
+      });
+
+      store.setState(long);
+      store.flush();
+      expect(JSON.parse(storage.store.get('rfp:store-parts') as string)).toMatchObject({
+        __rfp_partitioned__: true,
+      });
+      expect(storage.store.has('rfp:store-parts:part:0')).toBe(true);
+      expect(store.getPersistedValue()).toEqual(long);
+
+      store.setState({ name: 'short', email: '' });
+      store.flush();
+      expect(storage.store.has('rfp:store-parts:part:0')).toBe(false);
+
+      store.setState(long);
+      store.flush();
+      store.clear();
+      expect(storage.store.size).toBe(0);
+    });
+
+    it('should write, restore and clear partitions through an asynchronous adapter', async () => {
+      const storage = createAsyncStorage();
+      const store = createFormPersistStore('store-parts-async', initialState, {
+        storage,
+        partition,
+        debounce: 0,
+      });
+      store.setState(long);
+      jest.advanceTimersByTime(0);
+      await flushMicrotasks();
+      expect(storage.data.has('rfp:store-parts-async:part:3')).toBe(true);
+
+      const restored = createFormPersistStore('store-parts-async', initialState, { storage });
+      restored.subscribe(() => {});
+      await flushMicrotasks();
+      expect(restored.getState()).toEqual(long);
+
+      restored.clear();
+      await flushMicrotasks();
+      expect(storage.data.size).toBe(0);
+    });
+
+    it('should report missing chunks', async () => {
+      const storage = createMockStorage();
+      storage.store.set('rfp:store-parts-missing', '{"__rfp_partitioned__":true,"count":2}');
+      const onError = jest.fn();
+      const store = createFormPersistStore('store-parts-missing', initialState, {
+        storage,
+        onError,
+      });
+
+      expect(store.getPersistedValue()).toBeNull();
+      store.subscribe(() => {});
+      await flushMicrotasks();
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ type: 'CORRUPTED_DATA' }));
+    });
+
+    it('should remove expired partitioned data', async () => {
+      const storage = createAsyncStorage();
+      storage.data.set('rfp:store-parts-expired', '{"__rfp_partitioned__":true,"count":1}');
+      storage.data.set('rfp:store-parts-expired:part:0', stored(long, Date.now() - 1));
+      const store = createFormPersistStore('store-parts-expired', initialState, { storage });
+
+      store.subscribe(() => {});
+      await flushMicrotasks();
+      expect(store.getState()).toEqual(initialState);
+      expect(storage.data.size).toBe(0);
+    });
+  });
+
+  describe('persisted history', () => {
+    const historyKey = 'rfp:store-history-persist:history';
+    const storedHistory = (states: TestFormData[], index: number, version = 1): string =>
+      JSON.stringify(
+        wrapWithMetadata({ entries: createHistoryStackFromStates(states), index }, version)
+      );
+
+    it('should append the restored state when the stored history ends elsewhere', async () => {
+      seedPersistedData('store-history-persist', { name: 'C', email: '' });
+      localStorage.setItem(
+        historyKey,
+        storedHistory(
+          [
+            { name: 'A', email: '' },
+            { name: 'B', email: '' },
+          ],
+          1
+        )
+      );
+      const store = createFormPersistStore('store-history-persist', initialState, {
+        history: { persist: true },
+      });
+
+      store.subscribe(() => {});
+      await flushMicrotasks();
+      expect(store.getSnapshot()).toMatchObject({ historyLength: 3, historyIndex: 2 });
+      store.undo();
+      expect(store.getState().name).toBe('B');
+    });
+
+    it('should ignore stored history of another version or that cannot be read', async () => {
+      seedPersistedData('store-history-persist', { name: 'C', email: '' });
+      localStorage.setItem(historyKey, storedHistory([{ name: 'C', email: '' }], 0, 2));
+      const store = createFormPersistStore('store-history-persist', initialState, {
+        history: { persist: true },
+      });
+      store.subscribe(() => {});
+      await flushMicrotasks();
+      expect(store.getSnapshot().historyLength).toBe(1);
+
+      const historyStorage = createMockStorage();
+      historyStorage.getItem.mockImplementation(() => {
+        throw new Error('denied');
+      });
+      const other = createFormPersistStore('store-history-persist', initialState, {
+        history: { persist: true, storage: historyStorage },
+      });
+      other.subscribe(() => {});
+      await flushMicrotasks();
+      expect(other.getState().name).toBe('C');
+      expect(other.getSnapshot().historyLength).toBe(1);
+    });
+
+    it('should report history writes that fail', async () => {
+      const historyStorage = createMockStorage();
+      historyStorage.setItem.mockImplementation(() => {
+        throw new Error('history full');
+      });
+      const onError = jest.fn();
+      const store = createFormPersistStore('store-history-error', initialState, {
+        history: { persist: true, storage: historyStorage },
+        debounce: 0,
+        onError,
+      });
+
+      store.setState({ name: 'A', email: '' });
+      store.flush();
+      await flushMicrotasks();
+      expect(getPersistedData<TestFormData>('store-history-error')?.name).toBe('A');
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'history full' }));
+    });
+  });
+
+  describe('drafts', () => {
+    it('should do nothing without a pending draft', () => {
+      const store = createFormPersistStore('store-no-draft', initialState);
+      const listener = jest.fn();
+      store.subscribe(listener);
+      listener.mockClear();
+
+      store.acceptDraft();
+      store.discardDraft();
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should keep changes made while a discarded draft was pending', async () => {
+      seedPersistedData('store-draft-discard', { name: 'Draft', email: '' });
+      const store = createFormPersistStore('store-draft-discard', initialState, {
+        restore: 'prompt',
+        debounce: 100,
+      });
+      store.subscribe(() => {});
+      await flushMicrotasks();
+      expect(store.getSnapshot().pendingDraft?.data.name).toBe('Draft');
+
+      store.setState({ name: '', email: 'new@test.com' });
+      store.discardDraft();
+      jest.advanceTimersByTime(100);
+      expect(getPersistedData<TestFormData>('store-draft-discard')).toEqual({
+        name: '',
+        email: 'new@test.com',
+      });
+    });
+  });
+});
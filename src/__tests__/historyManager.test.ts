@@ -228,6 +228,261 @@ describe('historyManager', () => {
     });
   });
 
+  describe('entries', () => {
+    it('should record labels and changed fields', () => {
+      const history = new HistoryManager({ name: '', email: '' });
+      history.push({ name: 'John', email: '' }, { label: 'Typed name' });
+      history.push({ name: 'John', email: 'john@example.com' });
+
+      const entries = history.getEntries();
+
+      expect(entries).toHaveLength(3);
+      expect(entries[0].changedFields).toEqual([]);
+      expect(entries[1]).toMatchObject({ label: 'Typed name', changedFields: ['name'] });
+      expect(entries[2]).toMatchObject({ changedFields: ['email'] });
+      expect(typeof entries[2].timestamp).toBe('number');
+      expect(history.getSnapshot().entries).toEqual(entries);
+    });
+
+    it('should keep entry metadata when trimming', () => {
+      const history = new HistoryManager({ name: '0' }, 2);
+      history.push({ name: '1' }, { label: 'one' });
+      history.push({ name: '2' }, { label: 'two' });
+
+      expect(history.getEntries().map((entry) => entry.label)).toEqual(['one', 'two']);
+    });
+  });
+
+  describe('patch storage', () => {
+    it('should rebuild states across checkpoints when navigating', () => {
+      const history = new HistoryManager({ name: '0', notes: 'same' }, 50, {
+        checkpointInterval: 3,
+      });
+      for (let i = 1; i <= 7; i++) {
+        history.push({ name: String(i), notes: 'same' });
+      }
+
+      expect(history.goTo(2)).toEqual({ name: '2', notes: 'same' });
+      expect(history.undo()).toEqual({ name: '1', notes: 'same' });
+      expect(history.goTo(5)).toEqual({ name: '5', notes: 'same' });
+      expect(history.redo()).toEqual({ name: '6', notes: 'same' });
+      expect(history.getSnapshot().states.map((state) => state.name)).toEqual([
+        '0', '1', '2', '3', '4', '5', '6', '7',
+      ]);
+    });
+
+    it('should keep states after trimming a patch-only prefix', () => {
+      const history = new HistoryManager({ name: '0' }, 3, { checkpointInterval: 10 });
+      for (let i = 1; i <= 5; i++) {
+        history.push({ name: String(i) });
+      }
+
+      expect(history.getAll()).toEqual([{ name: '3' }, { name: '4' }, { name: '5' }]);
+      history.goTo(0);
+      expect(history.current).toEqual({ name: '3' });
+    });
+  });
+
+  describe('amend and load', () => {
+    it('should replace the current entry', () => {
+      const history = new HistoryManager({ name: '' });
+      history.push({ name: 'J' });
+      history.amend({ name: 'Jo' }, { timestamp: 5, label: 'typed', changedFields: ['name'] });
+
+      expect(history.getAll()).toEqual([{ name: '' }, { name: 'Jo' }]);
+      expect(history.getEntries()[1]).toEqual({
+        timestamp: 5,
+        label: 'typed',
+        changedFields: ['name'],
+      });
+    });
+
+    it('should push when amending the first entry', () => {
+      const history = new HistoryManager({ name: '' });
+      history.amend({ name: 'J' }, { timestamp: 5, changedFields: ['name'] });
+
+      expect(history.length).toBe(2);
+    });
+
+    it('should load states and trim them to the limits', () => {
+      const history = new HistoryManager({ name: '' }, 3);
+      history.load(
+        [{ name: '0' }, { name: '1' }, { name: '2' }, { name: '3' }],
+        [undefined, undefined, { timestamp: 5, label: 'two', changedFields: ['name'] }],
+        2
+      );
+
+      expect(history.getAll()).toEqual([{ name: '1' }, { name: '2' }, { name: '3' }]);
+      expect(history.index).toBe(1);
+      expect(history.current).toEqual({ name: '2' });
+      expect(history.getEntries()[1].label).toBe('two');
+    });
+
+    it('should trim by maxBytes', () => {
+      const history = new HistoryManager({ text: '' }, 50, { maxBytes: 40 });
+      for (let i = 1; i <= 5; i++) {
+        history.push({ text: 'x'.repeat(10 * i) });
+      }
+
+      expect(history.length).toBeLessThan(6);
+      expect(history.current).toEqual({ text: 'x'.repeat(50) });
+    });
+
+    it('should amend and load in tree mode', () => {
+      const history = new HistoryManager({ text: '' }, 50, { mode: 'tree' });
+      history.push({ text: 'a' });
+      history.amend({ text: 'ab' }, { timestamp: 5, changedFields: ['text'] });
+
+      expect(history.getAll()).toEqual([{ text: '' }, { text: 'ab' }]);
+
+      history.undo();
+      history.amend({ text: 'b' }, { timestamp: 6, changedFields: ['text'] });
+      expect(history.branches).toHaveLength(2);
+
+      history.load([{ text: '0' }, { text: '1' }], [], 0);
+      expect(history.current).toEqual({ text: '0' });
+      expect(history.length).toBe(2);
+      expect(history.branches).toHaveLength(1);
+    });
+  });
+
+  describe('tree mode', () => {
+    const buildTree = () => {
+      const history = new HistoryManager({ text: '' }, 50, { mode: 'tree' });
+      history.push({ text: 'a' });
+      history.push({ text: 'ab' });
+      history.undo();
+      history.push({ text: 'ac' });
+      return history;
+    };
+
+    it('should keep redo states on a new branch', () => {
+      const history = buildTree();
+
+      expect(history.current).toEqual({ text: 'ac' });
+      expect(history.getAll()).toEqual([{ text: '' }, { text: 'a' }, { text: 'ac' }]);
+      expect(history.branches).toHaveLength(2);
+      expect(history.branches.map((branch) => branch.isActive)).toEqual([false, true]);
+      expect(history.branches[1].forkId).toBe(history.branches[0].nodeIds[1]);
+    });
+
+    it('should undo and redo along the active branch', () => {
+      const history = buildTree();
+
+      expect(history.undo()).toEqual({ text: 'a' });
+      expect(history.undo()).toEqual({ text: '' });
+      expect(history.canUndo).toBe(false);
+      expect(history.redo()).toEqual({ text: 'a' });
+      expect(history.redo()).toEqual({ text: 'ac' });
+      expect(history.canRedo).toBe(false);
+    });
+
+    it('should switch branches and go to their tip', () => {
+      const history = buildTree();
+      const [first] = history.branches;
+
+      expect(history.switchBranch(first.id)).toEqual({ text: 'ab' });
+      expect(history.index).toBe(2);
+      expect(history.branches[0].isActive).toBe(true);
+      expect(history.switchBranch(999)).toEqual({ text: 'ab' });
+    });
+
+    it('should go to a node on another branch and follow that branch', () => {
+      const history = buildTree();
+      const [first] = history.branches;
+      history.goTo(0);
+
+      expect(history.goToNode(first.tipId)).toEqual({ text: 'ab' });
+      expect(history.undo()).toEqual({ text: 'a' });
+      expect(history.redo()).toEqual({ text: 'ab' });
+      expect(history.goToNode(-1)).toEqual({ text: 'ab' });
+    });
+
+    it('should extend the active branch when pushing at its tip', () => {
+      const history = buildTree();
+      const activeId = history.branches[1].id;
+      history.push({ text: 'acd' }, { label: 'typed' });
+
+      expect(history.branches).toHaveLength(2);
+      expect(history.branches[1]).toMatchObject({ id: activeId, length: 4 });
+      expect(history.getEntries()[3]).toMatchObject({
+        label: 'typed',
+        changedFields: ['text'],
+      });
+    });
+
+    it('should prune the least recently used branches beyond maxBranches', () => {
+      const history = new HistoryManager({ text: '' }, 50, {
+        mode: 'tree',
+        maxBranches: 2,
+      });
+      jest.spyOn(Date, 'now').mockReturnValue(1000);
+      history.push({ text: 'a' });
+      history.undo();
+      jest.spyOn(Date, 'now').mockReturnValue(2000);
+      history.push({ text: 'b' });
+      history.undo();
+      jest.spyOn(Date, 'now').mockReturnValue(3000);
+      history.push({ text: 'c' });
+
+      expect(history.branches.map((branch) => history.goToNode(branch.tipId))).toEqual([
+        { text: 'b' },
+        { text: 'c' },
+      ]);
+      jest.restoreAllMocks();
+    });
+
+    it('should trim the active branch to maxLength', () => {
+      const history = new HistoryManager({ text: '0' }, 3, {
+        mode: 'tree',
+        checkpointInterval: 10,
+      });
+      history.push({ text: '1' });
+      history.undo();
+      for (let i = 2; i <= 5; i++) {
+        history.push({ text: String(i) });
+      }
+
+      expect(history.getAll()).toEqual([{ text: '3' }, { text: '4' }, { text: '5' }]);
+      expect(history.branches).toHaveLength(1);
+      expect(history.goTo(0)).toEqual({ text: '3' });
+    });
+
+    it('should rebuild states from checkpoints', () => {
+      const history = new HistoryManager({ n: 0 }, 50, {
+        mode: 'tree',
+        checkpointInterval: 2,
+      });
+      for (let i = 1; i <= 5; i++) {
+        history.push({ n: i });
+      }
+
+      expect(history.goTo(3)).toEqual({ n: 3 });
+      expect(history.getSnapshot()).toMatchObject({
+        index: 3,
+        states: [0, 1, 2, 3, 4, 5].map((n) => ({ n })),
+      });
+    });
+
+    it('should reset to a single branch', () => {
+      const history = buildTree();
+      history.reset({ text: 'x' });
+
+      expect(history.current).toEqual({ text: 'x' });
+      expect(history.length).toBe(1);
+      expect(history.branches).toHaveLength(1);
+    });
+
+    it('should have no branches in linear mode', () => {
+      const history = new HistoryManager({ text: '' });
+      history.push({ text: 'a' });
+
+      expect(history.branches).toEqual([]);
+      expect(history.switchBranch(0)).toEqual({ text: 'a' });
+      expect(history.goToNode(0)).toEqual({ text: 'a' });
+    });
+  });
+
   describe('createHistoryManager', () => {
     it('should create a new HistoryManager instance', () => {
       const history = createHistoryManager({ name: '' });
@@ -0,0 +1,187 @@
+/**
+ * react-form-autosave
+ * @version 0.1.2
+ * @author 686f6c61
+ * @license MIT
+ * @repository https://github.com/686f6c61/react-form-autosave
+ *
+ * Tests for history patches and the compact history stack
+ */
+
+import {
+  createPatch,
+  applyPatch,
+  createHistoryStack,
+  createHistoryStackFromStates,
+  getHistoryStackState,
+  getHistoryStackStates,
+  pushHistoryStack,
+  trimHistoryStack,
+} from '../history';
+
+describe('patches', () => {
+  describe('createPatch', () => {
+    it('should return an empty patch for equal values', () => {
+      expect(createPatch({ a: 1, b: { c: [1, 2] } }, { a: 1, b: { c: [1, 2] } })).toEqual([]);
+    });
+
+    it('should produce add, remove and replace operations for objects', () => {
+      expect(createPatch({ a: 1, b: 2 }, { a: 3, c: 4 })).toEqual([
+        { op: 'remove', path: '/b' },
+        { op: 'replace', path: '/a', value: 3 },
+        { op: 'add', path: '/c', value: 4 },
+      ]);
+    });
+
+    it('should diff nested objects and arrays element by element', () => {
+      expect(
+        createPatch(
+          { address: { city: 'Paris', zip: '75001' }, tags: ['a', 'b', 'c'] },
+          { address: { city: 'Lyon', zip: '75001' }, tags: ['a', 'x'] }
+        )
+      ).toEqual([
+        { op: 'replace', path: '/address/city', value: 'Lyon' },
+        { op: 'replace', path: '/tags/1', value: 'x' },
+        { op: 'remove', path: '/tags/2' },
+      ]);
+    });
+
+    it('should escape keys in JSON pointers', () => {
+      expect(createPatch({}, { 'a/b': 1, 'c~d': 2 })).toEqual([
+        { op: 'add', path: '/a~1b', value: 1 },
+        { op: 'add', path: '/c~0d', value: 2 },
+      ]);
+    });
+
+    it('should replace the root when types differ', () => {
+      expect(createPatch({ a: 1 }, ['a'])).toEqual([{ op: 'replace', path: '', value: ['a'] }]);
+    });
+  });
+
+  describe('applyPatch', () => {
+    const cases: Array<[unknown, unknown]> = [
+      [{ a: 1, b: 2 }, { a: 3, c: 4 }],
+      [{ items: [{ id: 1 }, { id: 2 }] }, { items: [{ id: 1, done: true }, { id: 2 }, { id: 3 }] }],
+      [{ items: [1, 2, 3, 4] }, { items: [1] }],
+      [{ 'a/b': { 'c~d': 1 } }, { 'a/b': { 'c~d': 2 } }],
+      [{ a: 1 }, null],
+    ];
+
+    it.each(cases)('should rebuild the target state from %j', (from, to) => {
+      expect(applyPatch(from, createPatch(from, to))).toEqual(to);
+    });
+
+    it('should not mutate the source and share unchanged branches', () => {
+      const source = { name: 'Jane', address: { city: 'Paris' }, tags: ['a'] };
+      const result = applyPatch(source, [{ op: 'replace', path: '/name', value: 'John' }]);
+
+      expect(source.name).toBe('Jane');
+      expect(result.name).toBe('John');
+      expect(result.address).toBe(source.address);
+      expect(result.tags).toBe(source.tags);
+    });
+
+    it('should ignore prototype pollution paths', () => {
+      const result = applyPatch({}, [{ op: 'add', path: '/__proto__/polluted', value: true }]);
+
+      expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+      expect(result).toEqual({});
+    });
+
+    it('should append with the "-" array index', () => {
+      expect(applyPatch({ list: [1] }, [{ op: 'add', path: '/list/-', value: 2 }])).toEqual({
+        list: [1, 2],
+      });
+    });
+  });
+});
+
+describe('historyStack', () => {
+  const states = Array.from({ length: 12 }, (_, i) => ({ name: `v${i}`, notes: 'same' }));
+
+  it('should store patches between checkpoints', () => {
+    const stack = createHistoryStackFromStates(states, 5);
+
+    expect(stack.map((entry) => ('checkpoint' in entry ? 'checkpoint' : 'patch'))).toEqual([
+      'checkpoint',
+      'patch',
+      'patch',
+      'patch',
+      'patch',
+      'checkpoint',
+      'patch',
+      'patch',
+      'patch',
+      'patch',
+      'checkpoint',
+      'patch',
+    ]);
+    expect(stack[1]).toEqual({
+      patch: [{ op: 'replace', path: '/name', value: 'v1' }],
+      meta: { timestamp: expect.any(Number), changedFields: ['name'] },
+    });
+  });
+
+  it('should rebuild any state', () => {
+    const stack = createHistoryStackFromStates(states, 5);
+
+    expect(getHistoryStackStates(stack)).toEqual(states);
+    states.forEach((state, i) => {
+      expect(getHistoryStackState(stack, i)).toEqual(state);
+    });
+  });
+
+  it('should keep full snapshots with a checkpoint interval of 1', () => {
+    const stack = createHistoryStackFromStates(states, 1);
+
+    expect(stack.every((entry) => 'checkpoint' in entry)).toBe(true);
+  });
+
+  it('should drop forward entries when pushing after an index', () => {
+    let stack = createHistoryStackFromStates(states.slice(0, 4));
+    stack = pushHistoryStack(stack, 1, { name: 'branch', notes: 'same' }, { maxLength: 50 });
+
+    expect(getHistoryStackStates(stack).map((state) => state.name)).toEqual([
+      'v0',
+      'v1',
+      'branch',
+    ]);
+  });
+
+  it('should trim by length and turn the new first entry into a checkpoint', () => {
+    let stack = createHistoryStack(states[0]);
+    for (let i = 1; i < states.length; i++) {
+      stack = pushHistoryStack(stack, i - 1, states[i], { maxLength: 4, checkpointInterval: 10 });
+    }
+
+    expect(stack).toHaveLength(4);
+    expect(stack[0]).toMatchObject({ checkpoint: states[8], meta: { changedFields: ['name'] } });
+    expect(getHistoryStackStates(stack)).toEqual(states.slice(8));
+  });
+
+  it('should trim by size and always keep the newest entry', () => {
+    const large = (i: number) => ({ name: `v${i}`, notes: 'x'.repeat(200) });
+    const stack = createHistoryStackFromStates([large(0), large(1), large(2)], 1);
+
+    expect(trimHistoryStack(stack, 50, 500)).toHaveLength(2);
+    expect(trimHistoryStack(stack, 50, 10)).toEqual([
+      { checkpoint: large(2), meta: stack[2].meta },
+    ]);
+    expect(trimHistoryStack(stack, 50)).toBe(stack);
+  });
+
+  it('should count patches rather than full states toward maxBytes', () => {
+    const base = { name: '', notes: 'x'.repeat(1000) };
+    let stack = createHistoryStack(base);
+    for (let i = 1; i <= 5; i++) {
+      stack = pushHistoryStack(
+        stack,
+        i - 1,
+        { ...base, name: `v${i}` },
+        { maxLength: 50, maxBytes: 2000 }
+      );
+    }
+
+    expect(stack).toHaveLength(6);
+  });
+});
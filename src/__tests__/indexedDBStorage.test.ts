@@ -0,0 +1,165 @@
+/**
+ * react-form-autosave
+ * @version 0.1.2
+ * @author 686f6c61
+ * @license MIT
+ * @repository https://github.com/686f6c61/react-form-autosave
+ *
+ * Tests for the IndexedDB storage adapter
+ */
+
+import { serialize, deserialize } from 'v8';
+import { IDBFactory } from 'fake-indexeddb';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import {
+  createIndexedDBStorage,
+  isIndexedDBAvailable,
+  getStorageAdapter,
+} from '../storage';
+import { useFormPersist } from '../hooks/useFormPersist';
+
+// fake-indexeddb relies on structuredClone, which jsdom does not expose
+if (typeof globalThis.structuredClone === 'undefined') {
+  Object.defineProperty(globalThis, 'structuredClone', {
+    configurable: true,
+    value: <V>(value: V): V => deserialize(serialize(value)) as V,
+  });
+}
+
+describe('createIndexedDBStorage', () => {
+  let factory: IDBFactory;
+
+  beforeEach(() => {
+    factory = new IDBFactory();
+  });
+
+  it('should store and retrieve string values', async () => {
+    const storage = createIndexedDBStorage({ indexedDB: factory });
+
+    await storage.setItem('key', 'value');
+    await expect(storage.getItem('key')).resolves.toBe('value');
+
+    await storage.removeItem('key');
+    await expect(storage.getItem('key')).resolves.toBeNull();
+  });
+
+  it('should return null for missing keys', async () => {
+    const storage = createIndexedDBStorage({ indexedDB: factory });
+    await expect(storage.getItem('missing')).resolves.toBeNull();
+  });
+
+  it('should store structured values natively', async () => {
+    const storage = createIndexedDBStorage({ indexedDB: factory });
+    const value = { name: 'John', tags: ['a', 'b'], nested: { count: 2 } };
+
+    await storage.setValue('structured', value);
+
+    await expect(storage.getValue('structured')).resolves.toEqual(value);
+    await expect(storage.getItem('structured')).resolves.toBe(JSON.stringify(value));
+  });
+
+  it('should use custom database and store names', async () => {
+    const storage = createIndexedDBStorage({
+      indexedDB: factory,
+      dbName: 'custom-db',
+      storeName: 'drafts',
+    });
+
+    await storage.setItem('key', 'value');
+    storage.close();
+
+    const databases = await factory.databases();
+    expect(databases.map((db) => db.name)).toContain('custom-db');
+  });
+
+  it('should add a missing object store to an existing database', async () => {
+    const first = createIndexedDBStorage({ indexedDB: factory, storeName: 'first' });
+    await first.setItem('key', 'first');
+    first.close();
+
+    const second = createIndexedDBStorage({ indexedDB: factory, storeName: 'second' });
+    await second.setItem('key', 'second');
+
+    await expect(second.getItem('key')).resolves.toBe('second');
+    second.close();
+
+    const reopened = createIndexedDBStorage({ indexedDB: factory, storeName: 'first' });
+    await expect(reopened.getItem('key')).resolves.toBe('first');
+  });
+
+  it('should reopen the database after close', async () => {
+    const storage = createIndexedDBStorage({ indexedDB: factory });
+    await storage.setItem('key', 'value');
+
+    storage.close();
+
+    await expect(storage.getItem('key')).resolves.toBe('value');
+  });
+
+  it('should reject when IndexedDB is unavailable', async () => {
+    const storage = createIndexedDBStorage();
+    await expect(storage.getItem('key')).rejects.toThrow('IndexedDB is not available');
+  });
+});
+
+describe('getStorageAdapter with indexedDB', () => {
+  it('should report IndexedDB availability', () => {
+    expect(isIndexedDBAvailable()).toBe(typeof indexedDB !== 'undefined');
+  });
+
+  it('should fallback to memory storage when IndexedDB is unavailable', () => {
+    const adapter = getStorageAdapter('indexedDB');
+    adapter.setItem('test', 'value');
+    expect(adapter.getItem('test')).toBe('value');
+  });
+
+  it('should return the IndexedDB adapter when available', async () => {
+    Object.defineProperty(globalThis, 'indexedDB', {
+      configurable: true,
+      value: new IDBFactory(),
+    });
+
+    try {
+      const adapter = getStorageAdapter('indexedDB');
+      await adapter.setItem('test', 'value');
+      await expect(adapter.getItem('test')).resolves.toBe('value');
+      expect(getStorageAdapter('indexedDB')).toBe(adapter);
+    } finally {
+      delete (globalThis as { indexedDB?: IDBFactory }).indexedDB;
+    }
+  });
+});
+
+describe('useFormPersist with IndexedDB storage', () => {
+  it('should persist and restore through the async adapter', async () => {
+    const storage = createIndexedDBStorage({ indexedDB: new IDBFactory() });
+    const initialState = { name: '', notes: '' };
+
+    const { result, unmount } = renderHook(() =>
+      useFormPersist('idb-form', initialState, { storage, debounce: 0 })
+    );
+
+    act(() => {
+      result.current[1]({ name: 'Large', notes: 'x'.repeat(10000) });
+    });
+
+    await waitFor(() => {
+      expect(result.current[2].isPersisted).toBe(true);
+    });
+
+    const raw = await storage.getItem('rfp:idb-form');
+    expect(JSON.parse(raw as string).data.name).toBe('Large');
+
+    unmount();
+
+    const { result: restored } = renderHook(() =>
+      useFormPersist('idb-form', initialState, { storage })
+    );
+
+    await waitFor(() => {
+      expect(restored.current[0].name).toBe('Large');
+    });
+    expect(restored.current[0].notes).toHaveLength(10000);
+    expect(restored.current[2].isRestored).toBe(true);
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * react-form-autosave
+ * @version 0.1.2
+ * @author 686f6c61
+ * @license MIT
+ * @repository https://github.com/686f6c61/react-form-autosave
+ *
+ * Tests for field path utilities and nested include/exclude filters
+ */
+
+import {
+  parsePath,
+  getPathValue,
+  setPathValue,
+  omitPaths,
+  pickPaths,
+  copyPaths,
+  diffPaths,
+  filterExcludedFields,
+  filterIncludedFields,
+  applyFieldFilters,
+  restoreFilteredFields,
+} from '../middleware';
+import type { FieldPath } from '../core/types';
+
+interface Application extends Record<string, unknown> {
+  name: string;
+  payment: { holder: string; cardNumber: string };
+  applicants: { name: string; ssn: string }[];
+  tags: string[];
+}
+
+const application: Application = {
+  name: 'Policy',
+  payment: { holder: 'Jane', cardNumber: '4111111111111111' },
+  applicants: [
+    { name: 'Jane', ssn: '111' },
+    { name: 'John', ssn: '222' },
+  ],
+  tags: ['home', 'auto'],
+};
+
+describe('FieldPath', () => {
+  it('should accept nested and wildcard paths', () => {
+    const paths: FieldPath<Application>[] = [
+      'name',
+      'payment.cardNumber',
+      'applicants[*].ssn',
+      'applicants[0].name',
+      'tags[*]',
+    ];
+    // @ts-expect-error -- unknown field
+    const invalid: FieldPath<Application> = 'payment.cvv';
+
+    expect(paths).toHaveLength(5);
+    expect(invalid).toBe('payment.cvv');
+  });
+});
+
+describe('parsePath', () => {
+  it('should parse dot and bracket notation', () => {
+    expect(parsePath('payment.cardNumber')).toEqual(['payment', 'cardNumber']);
+    expect(parsePath('applicants[*].ssn')).toEqual(['applicants', '*', 'ssn']);
+    expect(parsePath('matrix[1][2]')).toEqual(['matrix', '1', '2']);
+    expect(parsePath('contacts.*.phone')).toEqual(['contacts', '*', 'phone']);
+    expect(parsePath('')).toEqual([]);
+  });
+});
+
+describe('getPathValue', () => {
+  it('should read nested values', () => {
+    expect(getPathValue(application, 'payment.holder')).toBe('Jane');
+    expect(getPathValue(application, 'applicants[1].ssn')).toBe('222');
+    expect(getPathValue(application, ['tags', '0'])).toBe('home');
+  });
+
+  it('should return undefined for missing or unsafe paths', () => {
+    expect(getPathValue(application, 'payment.cvv')).toBeUndefined();
+    expect(getPathValue(application, 'name.first')).toBeUndefined();
+    expect(getPathValue(application, '__proto__')).toBeUndefined();
+  });
+});
+
+describe('setPathValue', () => {
+  it('should set nested values immutably', () => {
+    const next = setPathValue(application, 'applicants[1].name', 'Johnny');
+
+    expect(next.applicants[1].name).toBe('Johnny');
+    expect(application.applicants[1].name).toBe('John');
+    expect(next.applicants[0]).toBe(application.applicants[0]);
+    expect(next.payment).toBe(application.payment);
+  });
+
+  it('should create missing containers', () => {
+    const next = setPathValue({} as Record<string, unknown>, 'address.lines[0]', 'Main St');
+    expect(next).toEqual({ address: { lines: ['Main St'] } });
+  });
+
+  it('should replace the root with an empty path', () => {
+    expect(setPathValue({ a: 1 }, '', { b: 2 })).toEqual({ b: 2 });
+  });
+
+  it('should ignore unsafe and wildcard segments', () => {
+    const data = { a: 1 };
+    expect(setPathValue(data, '__proto__.polluted', true)).toBe(data);
+    expect(setPathValue(data, 'items[*]', true)).toBe(data);
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+});
+
+describe('omitPaths', () => {
+  it('should remove nested fields and wildcard matches', () => {
+    expect(omitPaths(application, ['payment.cardNumber', 'applicants[*].ssn'])).toEqual({
+      name: 'Policy',
+      payment: { holder: 'Jane' },
+      applicants: [{ name: 'Jane' }, { name: 'John' }],
+      tags: ['home', 'auto'],
+    });
+  });
+
+  it('should remove array items and whole arrays', () => {
+    expect(omitPaths(application, ['tags[0]']).tags).toEqual([undefined, 'auto']);
+    expect(omitPaths(application, ['tags[*]']).tags).toEqual([]);
+    expect(omitPaths(application, ['applicants[5].ssn'])).toEqual(application);
+  });
+
+  it('should support object wildcards', () => {
+    const data = { contacts: { home: { phone: '1', note: 'a' }, work: { phone: '2' } } };
+
+    expect(omitPaths(data, ['contacts.*.phone'])).toEqual({
+      contacts: { home: { note: 'a' }, work: {} },
+    });
+    expect(omitPaths(data, ['contacts.*'])).toEqual({ contacts: {} });
+  });
+
+  it('should leave data untouched for missing paths', () => {
+    expect(omitPaths(application, ['missing.deep'])).toBe(application);
+  });
+});
+
+describe('pickPaths', () => {
+  it('should keep only the selected paths', () => {
+    expect(pickPaths(application, ['name', 'payment.holder', 'applicants[*].name'])).toEqual({
+      name: 'Policy',
+      payment: { holder: 'Jane' },
+      applicants: [{ name: 'Jane' }, { name: 'John' }],
+    });
+  });
+
+  it('should merge overlapping selections', () => {
+    expect(pickPaths(application, ['applicants[*].name', 'applicants[*].ssn'])).toEqual({
+      applicants: application.applicants,
+    });
+  });
+
+  it('should pick single array items and object wildcards', () => {
+    expect(pickPaths(application, ['applicants[1].ssn']).applicants?.[1]).toEqual({
+      ssn: '222',
+    });
+    expect(pickPaths(application, ['applicants[9]'])).toEqual({});
+    expect(pickPaths({ a: { x: 1, y: 2 } }, ['a.*'])).toEqual({ a: { x: 1, y: 2 } });
+  });
+
+  it('should ignore paths through primitives', () => {
+    expect(pickPaths(application, ['name.first'])).toEqual({});
+  });
+});
+
+describe('copyPaths', () => {
+  it('should copy matched values from source into target', () => {
+    const filtered = omitPaths(application, ['payment.cardNumber', 'applicants[*].ssn']);
+    const restored = copyPaths(filtered, application, [
+      'payment.cardNumber',
+      'applicants[*].ssn',
+    ]);
+
+    expect(restored).toEqual(application);
+  });
+
+  it('should copy array items, whole arrays and object wildcards', () => {
+    expect(copyPaths({ tags: ['x'] }, { tags: ['a', 'b'] }, ['tags[1]'])).toEqual({
+      tags: ['x', 'b'],
+    });
+    expect(copyPaths({ tags: [] }, { tags: ['a'] }, ['tags[*]'])).toEqual({ tags: ['a'] });
+    expect(copyPaths({ a: {} }, { a: { x: 1, y: 2 } }, ['a.*'])).toEqual({ a: { x: 1, y: 2 } });
+  });
+
+  it('should ignore mismatched shapes', () => {
+    expect(copyPaths({ a: [] }, { a: {} }, ['a[0]'])).toEqual({ a: [] });
+    expect(copyPaths({ a: {} }, { a: [] }, ['a.x'])).toEqual({ a: {} });
+    expect(copyPaths({ a: 1 }, { a: { b: 2 } }, ['a.b'])).toEqual({ a: 1 });
+    expect(copyPaths({ a: [] }, { a: [] }, ['a[3]'])).toEqual({ a: [] });
+  });
+});
+
+describe('diffPaths', () => {
+  it('should list changed nested fields', () => {
+    expect(
+      diffPaths(application, {
+        ...application,
+        payment: { ...application.payment, holder: 'John' },
+        tags: ['home'],
+      })
+    ).toEqual(['payment.holder', 'tags']);
+  });
+
+  it('should include added and removed keys', () => {
+    expect(diffPaths({ a: 1 }, { b: 2 })).toEqual(['a', 'b']);
+    expect(diffPaths({ a: 1 }, { a: 1 })).toEqual([]);
+    expect(diffPaths('x', 'y')).toEqual(['']);
+  });
+});
+
+describe('field filters', () => {
+  it('should exclude nested paths', () => {
+    expect(filterExcludedFields(application, ['payment.cardNumber'])).toEqual({
+      ...application,
+      payment: { holder: 'Jane' },
+    });
+  });
+
+  it('should treat literal top-level keys containing dots as keys', () => {
+    const data = { 'user.name': 'Jane', user: { name: 'John' } };
+    expect(filterExcludedFields(data, ['user.name'])).toEqual({ user: { name: 'John' } });
+  });
+
+  it('should include only allow-listed paths', () => {
+    expect(filterIncludedFields(application, ['name', 'applicants[*].name'])).toEqual({
+      name: 'Policy',
+      applicants: [{ name: 'Jane' }, { name: 'John' }],
+    });
+    expect(filterIncludedFields(application, [])).toBe(application);
+  });
+
+  it('should apply include before exclude', () => {
+    expect(
+      applyFieldFilters(application, {
+        include: ['payment'],
+        exclude: ['payment.cardNumber'],
+      })
+    ).toEqual({ payment: { holder: 'Jane' } });
+    expect(applyFieldFilters(application, {})).toBe(application);
+  });
+
+  it('should take filtered-out fields from the base when restoring', () => {
+    const stored = { ...application, payment: { holder: 'Ann' }, tags: ['x'] };
+
+    expect(
+      restoreFilteredFields(stored, application, { exclude: ['payment.cardNumber'] })
+    ).toEqual({ ...application, payment: { holder: 'Ann', cardNumber: '4111111111111111' }, tags: ['x'] });
+    expect(restoreFilteredFields(stored, application, { include: ['tags'] })).toEqual({
+      ...application,
+      tags: ['x'],
+    });
+  });
+
+  it('should keep the other items of an array when an index is excluded', () => {
+    const filters = { exclude: ['items[0]'] };
+    const stored = JSON.parse(JSON.stringify(applyFieldFilters({ items: ['a', 'b', 'c'] }, filters)));
+
+    expect(stored).toEqual({ items: [null, 'b', 'c'] });
+    expect(restoreFilteredFields(stored, { items: ['x'] }, filters)).toEqual({
+      items: ['x', 'b', 'c'],
+    });
+  });
+});
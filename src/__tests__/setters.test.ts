@@ -0,0 +1,198 @@
+/**
+ * react-form-autosave
+ * @version 0.1.2
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/react-form-autosave
+ *
+ * Tests for the typed setters: setField, setFields and the array helpers
+ */
+
+import { renderHook, act } from '@testing-library/react';
+import { useFormPersist } from '../hooks/useFormPersist';
+import { createFormPersistStore } from '../core/store';
+import { getPersistedData, clearTestStorage } from '../testing';
+
+interface OrderForm extends Record<string, unknown> {
+  name: string;
+  address: { city: string; zip: string };
+  items: { sku: string; qty: number }[];
+  notes?: string[];
+}
+
+const initialState: OrderForm = {
+  name: '',
+  address: { city: '', zip: '' },
+  items: [
+    { sku: 'a', qty: 1 },
+    { sku: 'b', qty: 2 },
+  ],
+};
+
+describe('typed setters', () => {
+  beforeEach(() => {
+    clearTestStorage();
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should set nested fields immutably', () => {
+    const { result } = renderHook(() => useFormPersist('setters-field', initialState));
+    const before = result.current[0];
+
+    act(() => {
+      result.current[2].setField('address.city', 'Paris');
+    });
+    act(() => {
+      result.current[2].setField('items[1].qty', 5);
+    });
+
+    expect(result.current[0].address).toEqual({ city: 'Paris', zip: '' });
+    expect(result.current[0].items[1]).toEqual({ sku: 'b', qty: 5 });
+    expect(result.current[0].items[0]).toBe(before.items[0]);
+    expect(before.address.city).toBe('');
+    expect(result.current[2].isDirty).toBe(true);
+    expect(result.current[2].isFieldDirty('address.city')).toBe(true);
+    expect(result.current[2].touched).toEqual({ 'address.city': true, 'items[1].qty': true });
+  });
+
+  it('should set several fields as one undo step', () => {
+    const { result } = renderHook(() =>
+      useFormPersist('setters-fields', initialState, { history: true })
+    );
+
+    act(() => {
+      result.current[2].setFields({ name: 'Ada', 'address.zip': '75001' });
+    });
+    expect(result.current[0]).toMatchObject({ name: 'Ada', address: { city: '', zip: '75001' } });
+    expect(result.current[2].historyLength).toBe(2);
+    expect(result.current[2].touched).toEqual({ name: true, 'address.zip': true });
+
+    act(() => {
+      result.current[2].undo();
+    });
+    expect(result.current[0]).toEqual(initialState);
+  });
+
+  it('should append, insert, replace, move and remove items', () => {
+    const { result } = renderHook(() => useFormPersist('setters-array', initialState));
+    const actions = () => result.current[2];
+    const skus = () => result.current[0].items.map((item) => item.sku);
+
+    act(() => {
+      actions().append('items', { sku: 'c', qty: 3 });
+    });
+    expect(skus()).toEqual(['a', 'b', 'c']);
+
+    act(() => {
+      actions().insert('items', 0, { sku: 'z', qty: 0 });
+    });
+    expect(skus()).toEqual(['z', 'a', 'b', 'c']);
+
+    act(() => {
+      actions().replace('items', 1, { sku: 'y', qty: 9 });
+    });
+    expect(skus()).toEqual(['z', 'y', 'b', 'c']);
+
+    act(() => {
+      actions().move('items', 0, 3);
+    });
+    expect(skus()).toEqual(['y', 'b', 'c', 'z']);
+
+    act(() => {
+      actions().remove('items', 1);
+    });
+    expect(skus()).toEqual(['y', 'c', 'z']);
+
+    act(() => {
+      actions().append('notes', 'fragile');
+    });
+    expect(result.current[0].notes).toEqual(['fragile']);
+  });
+
+  it('should record one undo step per change and skip changes that do nothing', () => {
+    const { result } = renderHook(() =>
+      useFormPersist('setters-history', initialState, { history: true })
+    );
+
+    act(() => {
+      result.current[2].append('items', { sku: 'c', qty: 3 }, { label: 'Add item' });
+    });
+    act(() => {
+      result.current[2].remove('items', 10);
+      result.current[2].move('items', 1, 1);
+      result.current[2].replace('items', -1, { sku: 'x', qty: 0 });
+      result.current[2].setField('name', '');
+    });
+
+    expect(result.current[2].historyLength).toBe(2);
+    expect(result.current[2].historyEntries[1].label).toBe('Add item');
+
+    act(() => {
+      result.current[2].undo();
+    });
+    expect(result.current[0].items).toHaveLength(2);
+  });
+
+  it('should skip setFields calls that change no field', () => {
+    const { result } = renderHook(() =>
+      useFormPersist('setters-fields-noop', initialState, { history: true, debounce: 100 })
+    );
+    const before = result.current[0];
+
+    act(() => {
+      result.current[2].setFields({});
+      result.current[2].setFields({ name: '', 'address.city': '' });
+    });
+
+    expect(result.current[0]).toBe(before);
+    expect(result.current[2].historyLength).toBe(1);
+    expect(result.current[2].status).toBe('idle');
+  });
+
+  it('should save through the debounced save path', () => {
+    const { result } = renderHook(() =>
+      useFormPersist('setters-save', initialState, { debounce: 100 })
+    );
+
+    act(() => {
+      result.current[2].setField('name', 'Grace');
+    });
+    expect(getPersistedData<OrderForm>('setters-save')).toBeNull();
+
+    act(() => {
+      jest.advanceTimersByTime(100);
+    });
+    expect(getPersistedData<OrderForm>('setters-save')?.name).toBe('Grace');
+  });
+
+  it('should be available on the store without React', () => {
+    const store = createFormPersistStore('setters-store', initialState);
+
+    store.setField('address.city', 'Rome');
+    store.remove('items', 0);
+
+    expect(store.getState().address.city).toBe('Rome');
+    expect(store.getState().items).toEqual([{ sku: 'b', qty: 2 }]);
+  });
+
+  it('should type paths and values from the form state', () => {
+    const store = createFormPersistStore('setters-types', initialState);
+    const invalidCalls = () => {
+      // @ts-expect-error -- unknown path
+      store.setField('address.country', 'FR');
+      // @ts-expect-error -- wrong value type
+      store.setField('items[0].qty', 'many');
+      // @ts-expect-error -- not an array field
+      store.append('name', 'x');
+      // @ts-expect-error -- incomplete item
+      store.append('items', { sku: 'c' });
+      // @ts-expect-error -- wildcards cannot be set
+      store.setFields({ 'items[*].qty': 0 });
+    };
+
+    expect(invalidCalls).toBeInstanceOf(Function);
+  });
+});
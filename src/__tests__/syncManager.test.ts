@@ -55,6 +55,24 @@ describe('syncManager', () => {
         manager.destroy();
       });
 
+      it('should transform data with beforeBroadcast', () => {
+        const postMessage = jest.spyOn(
+          (window as unknown as { BroadcastChannel: { prototype: BroadcastChannel } })
+            .BroadcastChannel.prototype,
+          'postMessage'
+        );
+        const manager = new SyncManager<{ name: string; secret?: string }>('test-key', {
+          beforeBroadcast: ({ name }) => ({ name }),
+        });
+
+        manager.broadcast({ name: 'John', secret: 'hidden' });
+
+        expect(postMessage).toHaveBeenCalledWith(
+          expect.objectContaining({ data: { name: 'John' } })
+        );
+        manager.destroy();
+      });
+
       it('should not broadcast after destroy', () => {
         const manager = new SyncManager('test-key');
         manager.destroy();
@@ -468,6 +486,277 @@ describe('syncManager', () => {
     });
   });
 
+  describe('ask-user strategy', () => {
+    interface Form {
+      name: string;
+      email: string;
+    }
+
+    function storageUpdate(data: Form): void {
+      storageEventHandler?.({
+        key: 'test-key',
+        newValue: JSON.stringify({ data }),
+      } as StorageEvent);
+    }
+
+    function deliver(manager: SyncManager<Form>, message: Record<string, unknown>): void {
+      const { channel } = manager as unknown as { channel: BroadcastChannel };
+      channel.onmessage?.({
+        data: { type: 'update', key: 'test-key', tabId: 'other-tab', timestamp: Date.now(), ...message },
+      } as MessageEvent);
+    }
+
+    function createManager(onConflictOption = jest.fn()) {
+      const manager = new SyncManager<Form>('test-key', {
+        strategy: 'ask-user',
+        onConflict: onConflictOption,
+      });
+      const onSync = jest.fn();
+      const onConflict = jest.fn();
+      manager.onSync(onSync);
+      manager.onConflict(onConflict);
+      manager.setSyncedData({ name: 'Base', email: '' });
+      return { manager, onSync, onConflict, onConflictOption };
+    }
+
+    it('should apply remote updates when there are no local changes', () => {
+      const { manager, onSync, onConflict } = createManager();
+
+      storageUpdate({ name: 'Remote', email: '' });
+
+      expect(onSync).toHaveBeenCalledWith({ name: 'Remote', email: '' }, 'storage');
+      expect(onConflict).not.toHaveBeenCalled();
+      expect(manager.getConflict()).toBeNull();
+      manager.destroy();
+    });
+
+    it('should hold conflicting updates until resolved', () => {
+      const { manager, onSync, onConflict, onConflictOption } = createManager();
+      manager.setLocalData({ name: 'Local', email: '' });
+
+      deliver(manager, { data: { name: 'Remote', email: '' } });
+
+      const conflict = manager.getConflict();
+      expect(conflict).toEqual({
+        local: { name: 'Local', email: '' },
+        remote: { name: 'Remote', email: '' },
+        remoteTabId: 'other-tab',
+        receivedAt: expect.any(Number),
+      });
+      expect(onConflict).toHaveBeenCalledWith(conflict);
+      expect(onConflictOption).toHaveBeenCalledWith(conflict);
+      expect(onSync).not.toHaveBeenCalled();
+
+      // Newer updates replace the held one
+      storageUpdate({ name: 'Remote 2', email: '' });
+      expect(manager.getConflict()?.remote).toEqual({ name: 'Remote 2', email: '' });
+      expect(manager.getConflict()?.remoteTabId).toBe('other-tab');
+      expect(onSync).not.toHaveBeenCalled();
+
+      expect(manager.resolveConflict('remote')).toEqual({ name: 'Remote 2', email: '' });
+      expect(onSync).toHaveBeenCalledWith({ name: 'Remote 2', email: '' }, 'storage');
+      expect(onConflict).toHaveBeenLastCalledWith(null);
+      expect(manager.getConflict()).toBeNull();
+      manager.destroy();
+    });
+
+    it('should not raise a conflict when the data already matches', () => {
+      const { manager, onSync, onConflict } = createManager();
+      manager.setLocalData({ name: 'Same', email: '' });
+
+      storageUpdate({ name: 'Same', email: '' });
+
+      expect(onConflict).not.toHaveBeenCalled();
+      expect(onSync).toHaveBeenCalled();
+      manager.destroy();
+    });
+
+    it('should keep local data and send the remote timestamp as base', () => {
+      const postMessage = jest.spyOn(
+        (window as unknown as { BroadcastChannel: { prototype: BroadcastChannel } })
+          .BroadcastChannel.prototype,
+        'postMessage'
+      );
+      const { manager, onSync } = createManager();
+      manager.setLocalData({ name: 'Local', email: '' });
+      deliver(manager, { data: { name: 'Remote', email: '' }, timestamp: 1234 });
+
+      // Edits made while the conflict is pending are kept
+      manager.setLocalData({ name: 'Local edited', email: '' });
+
+      expect(manager.resolveConflict('local')).toEqual({ name: 'Local edited', email: '' });
+      expect(onSync).not.toHaveBeenCalled();
+
+      manager.broadcast({ name: 'Local edited', email: '' });
+      expect(postMessage).toHaveBeenLastCalledWith(expect.objectContaining({ base: 1234 }));
+      manager.destroy();
+    });
+
+    it('should return merged data', () => {
+      const { manager } = createManager();
+      manager.setLocalData({ name: 'Local', email: '' });
+      storageUpdate({ name: 'Remote', email: 'remote@test.com' });
+
+      const merged = { name: 'Local', email: 'remote@test.com' };
+      expect(manager.resolveConflict(merged)).toBe(merged);
+      expect(manager.resolveConflict('local')).toBeUndefined();
+      manager.destroy();
+    });
+
+    it('should apply updates from tabs that had seen the local changes', () => {
+      const postMessage = jest.spyOn(
+        (window as unknown as { BroadcastChannel: { prototype: BroadcastChannel } })
+          .BroadcastChannel.prototype,
+        'postMessage'
+      );
+      const { manager, onSync, onConflict } = createManager();
+      manager.broadcast({ name: 'Mine', email: '' });
+      const sent = postMessage.mock.calls[0][0] as { timestamp: number };
+
+      deliver(manager, { data: { name: 'Older', email: '' }, base: sent.timestamp - 1 });
+      expect(onConflict).toHaveBeenCalledTimes(1);
+
+      // The broadcast arrives after the storage event and shows the sender saw our update
+      deliver(manager, { data: { name: 'Theirs', email: '' }, base: sent.timestamp });
+      expect(onConflict).toHaveBeenLastCalledWith(null);
+      expect(onSync).toHaveBeenCalledWith({ name: 'Theirs', email: '' }, 'broadcast');
+
+      manager.setLocalData({ name: 'Theirs', email: '' });
+      deliver(manager, { data: { name: 'Next', email: '' } });
+      expect(onSync).toHaveBeenLastCalledWith({ name: 'Next', email: '' }, 'broadcast');
+      manager.destroy();
+    });
+
+    it('should drop the conflict when another tab clears the form', () => {
+      const { manager, onSync, onConflict } = createManager();
+      manager.setLocalData({ name: 'Local', email: '' });
+      storageUpdate({ name: 'Remote', email: '' });
+
+      storageEventHandler?.({ key: 'test-key', newValue: null } as StorageEvent);
+
+      expect(manager.getConflict()).toBeNull();
+      expect(onConflict).toHaveBeenLastCalledWith(null);
+      expect(onSync).toHaveBeenCalledWith(undefined, 'storage');
+      manager.destroy();
+    });
+  });
+
+  describe('field-level merge', () => {
+    interface Ticket {
+      subject: string;
+      priority: string;
+      customer: { name: string; email: string };
+    }
+
+    const base: Ticket = {
+      subject: 'Printer broken',
+      priority: 'low',
+      customer: { name: 'Jane', email: 'jane@test.com' },
+    };
+
+    // Deliver the posted messages to every other manager, like a real BroadcastChannel
+    function deliverAll(managers: SyncManager<Ticket>[], postMessage: jest.SpyInstance): void {
+      const channels = managers.map(
+        (manager) => (manager as unknown as { channel: BroadcastChannel }).channel
+      );
+      postMessage.mock.calls.forEach((call, index) => {
+        const sender = postMessage.mock.contexts[index];
+        channels
+          .filter((channel) => channel !== sender)
+          .forEach((channel) => channel.onmessage?.({ data: call[0] } as MessageEvent));
+      });
+      postMessage.mockClear();
+    }
+
+    it('should keep concurrent edits to different fields in both tabs', () => {
+      const postMessage = jest.spyOn(
+        (window as unknown as { BroadcastChannel: { prototype: BroadcastChannel } })
+          .BroadcastChannel.prototype,
+        'postMessage'
+      );
+      const tabA = new SyncManager<Ticket>('test-key', { strategy: 'merge' });
+      const tabB = new SyncManager<Ticket>('test-key', { strategy: 'merge' });
+      const onSyncA = jest.fn();
+      const onSyncB = jest.fn();
+      tabA.onSync(onSyncA);
+      tabB.onSync(onSyncB);
+      tabA.setSyncedData(base);
+      tabB.setSyncedData(base);
+
+      // Both tabs edit and broadcast before receiving the other update
+      tabA.broadcast({ ...base, priority: 'high' });
+      tabB.broadcast({ ...base, customer: { ...base.customer, email: 'jane@work.com' } });
+      deliverAll([tabA, tabB], postMessage);
+
+      const expected = {
+        ...base,
+        priority: 'high',
+        customer: { name: 'Jane', email: 'jane@work.com' },
+      };
+      expect(onSyncA).toHaveBeenLastCalledWith(expected, 'broadcast');
+      expect(onSyncB).toHaveBeenLastCalledWith(expected, 'broadcast');
+      expect(Object.keys(tabA.getClock()).sort()).toEqual(['customer.email', 'priority']);
+      expect(tabB.getClock()).toEqual(tabA.getClock());
+
+      tabA.destroy();
+      tabB.destroy();
+    });
+
+    it('should merge storage events that carry a clock', () => {
+      const onSync = jest.fn();
+      const manager = new SyncManager<Ticket>('test-key', { strategy: 'merge' });
+      manager.onSync(onSync);
+      manager.setSyncedData(base);
+      manager.setLocalData({ ...base, subject: 'Local subject' });
+
+      storageEventHandler?.({
+        key: 'test-key',
+        newValue: JSON.stringify({
+          data: { ...base, priority: 'high' },
+          clock: { priority: { at: Date.now(), tabId: 'other' } },
+        }),
+      } as StorageEvent);
+
+      expect(onSync).toHaveBeenCalledWith(
+        { ...base, subject: 'Local subject', priority: 'high' },
+        'storage'
+      );
+      manager.destroy();
+    });
+
+    it('should only track clocks for the merge strategy without a resolver', () => {
+      const latest = new SyncManager<Ticket>('test-key', { strategy: 'latest-wins' });
+      const custom = new SyncManager<Ticket>('test-key', {
+        strategy: 'merge',
+        conflictResolver: (_, remote) => remote,
+      });
+      for (const manager of [latest, custom]) {
+        manager.setSyncedData(base);
+        manager.setLocalData({ ...base, priority: 'high' });
+        expect(manager.getClock()).toEqual({});
+        manager.destroy();
+      }
+    });
+
+    it('should restore the stored clock and adopt remote clocks', () => {
+      const clock = { priority: { at: 1, tabId: 'a' } };
+      const manager = new SyncManager<Ticket>('test-key', { strategy: 'merge' });
+
+      manager.setSyncedData(base, clock);
+      expect(manager.getClock()).toEqual(clock);
+
+      storageEventHandler?.({ key: 'test-key', newValue: null } as StorageEvent);
+      expect(manager.getClock()).toEqual({});
+
+      storageEventHandler?.({
+        key: 'test-key',
+        newValue: JSON.stringify({ data: base, clock: { subject: { at: 2, tabId: 'b' } } }),
+      } as StorageEvent);
+      expect(manager.getClock()).toEqual({ subject: { at: 2, tabId: 'b' } });
+      manager.destroy();
+    });
+  });
+
   describe('createSyncManager', () => {
     it('should create a new SyncManager instance', () => {
       const manager = createSyncManager('test-key');
@@ -0,0 +1,259 @@
+/**
+ * react-form-autosave
+ * @version 0.1.2
+ * @author 686f6c61
+ * @license MIT
+ * @repository https://github.com/686f6c61/react-form-autosave
+ *
+ * Tests for useDrafts hook
+ */
+
+import React from 'react';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useDrafts } from '../drafts/useDrafts';
+import { useFormPersist } from '../hooks/useFormPersist';
+import { FormPersistProvider } from '../components/FormPersistProvider';
+import { clearTestStorage, seedPersistedData, getPersistedData } from '../testing';
+import type { StorageAdapter } from '../core/types';
+
+/**
+ * Async adapter backed by a Map that cannot enumerate keys
+ */
+function createAsyncStorage(): StorageAdapter & { data: Map<string, string> } {
+  const data = new Map<string, string>();
+  return {
+    data,
+    getItem: (key) => Promise.resolve(data.get(key) ?? null),
+    setItem: (key, value) => {
+      data.set(key, value);
+      return Promise.resolve();
+    },
+    removeItem: (key) => {
+      data.delete(key);
+      return Promise.resolve();
+    },
+  };
+}
+
+async function renderDrafts(baseKey: string, storage?: StorageAdapter) {
+  const hook = renderHook(() => useDrafts(baseKey, storage ? { storage } : {}));
+  await waitFor(() => {
+    expect(hook.result.current.isLoaded).toBe(true);
+  });
+  return hook;
+}
+
+describe('useDrafts', () => {
+  beforeEach(() => {
+    clearTestStorage();
+  });
+
+  it('should start with an empty list', async () => {
+    const { result } = await renderDrafts('email');
+
+    expect(result.current.drafts).toEqual([]);
+    expect(result.current.activeId).toBeNull();
+    expect(result.current.activeKey).toBeNull();
+  });
+
+  it('should create and open drafts and keep the index in storage', async () => {
+    const { result } = await renderDrafts('email');
+
+    let first = '';
+    let second = '';
+    act(() => {
+      first = result.current.createDraft('ACME');
+    });
+    act(() => {
+      second = result.current.createDraft();
+    });
+
+    expect(result.current.drafts.map((d) => d.title)).toEqual(['ACME', 'Untitled draft']);
+    expect(result.current.activeId).toBe(second);
+    expect(result.current.activeKey).toBe(`email:draft:${second}`);
+
+    act(() => {
+      result.current.openDraft(first);
+    });
+    expect(result.current.activeId).toBe(first);
+
+    await waitFor(() => {
+      const stored = JSON.parse(localStorage.getItem('rfp:email:drafts') as string);
+      expect(stored.active).toBe(first);
+      expect(stored.drafts).toHaveLength(2);
+    });
+
+    const { result: reloaded } = await renderDrafts('email');
+    expect(reloaded.current.activeId).toBe(first);
+    expect(reloaded.current.drafts.map((d) => d.id)).toEqual([first, second]);
+  });
+
+  it('should ignore unknown draft ids', async () => {
+    const { result } = await renderDrafts('email');
+
+    act(() => {
+      result.current.openDraft('missing');
+      result.current.deleteDraft('missing');
+    });
+
+    expect(result.current.activeId).toBeNull();
+    expect(result.current.duplicateDraft('missing')).toBeNull();
+  });
+
+  it('should rename drafts', async () => {
+    const { result } = await renderDrafts('email');
+
+    let id = '';
+    act(() => {
+      id = result.current.createDraft('Draft');
+    });
+    act(() => {
+      result.current.renameDraft(id, 'Globex renewal');
+    });
+
+    expect(result.current.drafts[0].title).toBe('Globex renewal');
+  });
+
+  it('should read save times and sizes from storage', async () => {
+    const { result, unmount } = await renderDrafts('email');
+
+    let id = '';
+    act(() => {
+      id = result.current.createDraft('ACME');
+    });
+    unmount();
+
+    seedPersistedData(`email:draft:${id}`, { to: 'ops@acme.test' });
+
+    const { result: reloaded } = await renderDrafts('email');
+    await waitFor(() => {
+      expect(reloaded.current.drafts[0].size).toBeGreaterThan(0);
+    });
+    expect(reloaded.current.drafts[0].lastSaved).toEqual(expect.any(Number));
+  });
+
+  it('should duplicate a draft with its stored data and open the copy', async () => {
+    const { result } = await renderDrafts('email');
+
+    let id = '';
+    act(() => {
+      id = result.current.createDraft('ACME');
+    });
+    seedPersistedData(`email:draft:${id}`, { to: 'ops@acme.test' });
+
+    let copyId: string | null = null;
+    act(() => {
+      copyId = result.current.duplicateDraft(id);
+    });
+
+    expect(result.current.drafts[1].title).toBe('ACME (copy)');
+    await waitFor(() => {
+      expect(result.current.activeId).toBe(copyId);
+    });
+    expect(getPersistedData(`email:draft:${copyId}`)).toEqual({ to: 'ops@acme.test' });
+  });
+
+  it('should delete a draft and its stored data', async () => {
+    const { result } = await renderDrafts('email');
+
+    let id = '';
+    act(() => {
+      id = result.current.createDraft('ACME');
+    });
+    seedPersistedData(`email:draft:${id}`, { to: 'ops@acme.test' });
+    localStorage.setItem(`rfp:email:draft:${id}:emergency`, '{}');
+    localStorage.setItem(`rfp:email:draft:${id}:history`, '{}');
+
+    act(() => {
+      result.current.deleteDraft(id);
+    });
+
+    expect(result.current.drafts).toEqual([]);
+    expect(result.current.activeId).toBeNull();
+    await waitFor(() => {
+      expect(localStorage.getItem(`rfp:email:draft:${id}`)).toBeNull();
+    });
+    expect(localStorage.getItem(`rfp:email:draft:${id}:emergency`)).toBeNull();
+    expect(localStorage.getItem(`rfp:email:draft:${id}:history`)).toBeNull();
+  });
+
+  it('should delete the history of a draft from its own storage', async () => {
+    const historyStorage = createAsyncStorage();
+    const hook = renderHook(() => useDrafts('email', { historyStorage }));
+    await waitFor(() => {
+      expect(hook.result.current.isLoaded).toBe(true);
+    });
+
+    let id = '';
+    act(() => {
+      id = hook.result.current.createDraft('ACME');
+    });
+    historyStorage.data.set(`rfp:email:draft:${id}:history`, '{}');
+
+    act(() => {
+      hook.result.current.deleteDraft(id);
+    });
+
+    await waitFor(() => {
+      expect(historyStorage.data.has(`rfp:email:draft:${id}:history`)).toBe(false);
+    });
+  });
+
+  it('should work with async adapters that cannot enumerate keys', async () => {
+    const storage = createAsyncStorage();
+    const { result, unmount } = await renderDrafts('email', storage);
+
+    let id = '';
+    act(() => {
+      id = result.current.createDraft('Async');
+    });
+    await waitFor(() => {
+      expect(storage.data.has('rfp:email:drafts')).toBe(true);
+    });
+    storage.data.set(`rfp:email:draft:${id}`, JSON.stringify({ data: {}, timestamp: 1000, version: 1 }));
+    unmount();
+
+    const { result: reloaded } = await renderDrafts('email', storage);
+    expect(reloaded.current.drafts.map((d) => d.title)).toEqual(['Async']);
+    await waitFor(() => {
+      expect(reloaded.current.drafts[0].lastSaved).toBe(1000);
+    });
+  });
+
+  it('should follow saves of the open draft inside a provider', async () => {
+    jest.useFakeTimers();
+    try {
+      const wrapper = ({ children }: { children: React.ReactNode }) => (
+        <FormPersistProvider>{children}</FormPersistProvider>
+      );
+      const { result } = renderHook(
+        () => {
+          const drafts = useDrafts('email');
+          const form = useFormPersist(drafts.activeKey ?? 'email:none', { to: '' }, { debounce: 0 });
+          return { drafts, form };
+        },
+        { wrapper }
+      );
+
+      await waitFor(() => {
+        expect(result.current.drafts.isLoaded).toBe(true);
+      });
+      act(() => {
+        result.current.drafts.createDraft('Live');
+      });
+      act(() => {
+        result.current.form[1]({ to: 'live@example.com' });
+      });
+      act(() => {
+        jest.advanceTimersByTime(0);
+      });
+
+      await waitFor(() => {
+        expect(result.current.drafts.drafts[0].lastSaved).toEqual(expect.any(Number));
+      });
+      expect(result.current.drafts.drafts[0].size).toBeGreaterThan(0);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * react-form-autosave
+ * @version 0.1.2
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/react-form-autosave
+ *
+ * Tests for shared stores and hooks/useFormPersistSelector.ts
+ */
+
+import { Suspense } from 'react';
+import { render, renderHook, act } from '@testing-library/react';
+import { useFormPersist } from '../hooks/useFormPersist';
+import { useFormPersistSelector } from '../hooks/useFormPersistSelector';
+import { getFormPersistStore, findFormPersistStore } from '../core/sharedStores';
+import { getPersistedData, clearTestStorage } from '../testing';
+
+interface CheckoutForm extends Record<string, unknown> {
+  name: string;
+  items: string[];
+}
+
+const initialState: CheckoutForm = { name: '', items: [] };
+
+describe('shared stores', () => {
+  beforeEach(() => {
+    clearTestStorage();
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should share one store between consumers of the same key', () => {
+    const setItem = jest.spyOn(localStorage, 'setItem');
+    const { result } = renderHook(() => ({
+      first: useFormPersist('shared-checkout', initialState, { debounce: 100 }),
+      second: useFormPersist('shared-checkout', initialState, { debounce: 100 }),
+    }));
+
+    act(() => {
+      result.current.first[1]((prev) => ({ ...prev, name: 'Ada' }));
+    });
+
+    expect(result.current.second[0].name).toBe('Ada');
+    expect(result.current.second[2].isDirty).toBe(true);
+
+    act(() => {
+      jest.advanceTimersByTime(100);
+    });
+
+    expect(getPersistedData<CheckoutForm>('shared-checkout')?.name).toBe('Ada');
+    expect(setItem.mock.calls.filter(([key]) => key === 'rfp:shared-checkout')).toHaveLength(1);
+    setItem.mockRestore();
+  });
+
+  it('should drop the store when the last consumer unmounts', () => {
+    const first = renderHook(() => useFormPersist('shared-drop', initialState));
+    const second = renderHook(() => useFormPersist('shared-drop', initialState));
+    const store = findFormPersistStore('rfp:shared-drop');
+
+    first.unmount();
+    expect(findFormPersistStore('rfp:shared-drop')).toBe(store);
+
+    second.unmount();
+    expect(findFormPersistStore('rfp:shared-drop')).toBeUndefined();
+  });
+
+  it('should return the same store for the same key once it is subscribed', () => {
+    const store = getFormPersistStore('shared-vanilla', initialState);
+    expect(getFormPersistStore('shared-vanilla', initialState)).not.toBe(store);
+
+    const unsubscribe = store.subscribe(() => {});
+    expect(getFormPersistStore('shared-vanilla', initialState)).toBe(store);
+    expect(getFormPersistStore('shared-vanilla', initialState, { keyPrefix: 'other:' })).not.toBe(
+      store
+    );
+
+    unsubscribe();
+    expect(findFormPersistStore('rfp:shared-vanilla')).toBeUndefined();
+  });
+
+  it('should let a store subscribed after another one claimed the key follow it', () => {
+    const first = getFormPersistStore('shared-claim', initialState);
+    const second = getFormPersistStore('shared-claim', initialState);
+    const unsubscribeFirst = first.subscribe(() => {});
+    const listener = jest.fn();
+    const unsubscribeSecond = second.subscribe(listener);
+
+    act(() => {
+      first.setState({ name: 'Ada', items: [] });
+    });
+
+    expect(listener).toHaveBeenCalled();
+    expect(findFormPersistStore('rfp:shared-claim')).toBe(first);
+
+    unsubscribeFirst();
+    expect(findFormPersistStore('rfp:shared-claim')).toBe(first);
+    unsubscribeSecond();
+    expect(findFormPersistStore('rfp:shared-claim')).toBeUndefined();
+  });
+
+  it('should not keep the store of a render that never commits', () => {
+    const never = new Promise<never>(() => {});
+    function Suspended(): null {
+      useFormPersist('shared-abandoned', initialState);
+      throw never;
+    }
+
+    render(
+      <Suspense fallback={null}>
+        <Suspended />
+      </Suspense>
+    );
+
+    expect(findFormPersistStore('rfp:shared-abandoned')).toBeUndefined();
+    expect(getFormPersistStore('shared-abandoned', initialState).getState()).toEqual(initialState);
+  });
+});
+
+describe('useFormPersistSelector', () => {
+  beforeEach(() => {
+    clearTestStorage();
+  });
+
+  it('should return undefined until a form with the key exists', () => {
+    const { result } = renderHook(() =>
+      useFormPersistSelector('selector-missing', (state: CheckoutForm) => state.name)
+    );
+    expect(result.current).toBeUndefined();
+
+    const form = renderHook(() => useFormPersist('selector-missing', initialState));
+    expect(result.current).toBe('');
+
+    act(() => {
+      form.result.current[1]({ name: 'Later', items: [] });
+    });
+    expect(result.current).toBe('Later');
+  });
+
+  it('should only re-render when the selected value changes', () => {
+    const form = renderHook(() => useFormPersist('selector-renders', initialState));
+    let renders = 0;
+    const { result } = renderHook(() => {
+      renders++;
+      return useFormPersistSelector(
+        'selector-renders',
+        (state: CheckoutForm) => state.items.length
+      );
+    });
+    const initialRenders = renders;
+
+    act(() => {
+      form.result.current[1]((prev) => ({ ...prev, name: 'Typing' }));
+    });
+    act(() => {
+      form.result.current[1]((prev) => ({ ...prev, name: 'Typing more' }));
+    });
+    expect(renders).toBe(initialRenders);
+
+    act(() => {
+      form.result.current[1]((prev) => ({ ...prev, items: ['book'] }));
+    });
+    expect(result.current).toBe(1);
+    expect(renders).toBe(initialRenders + 1);
+  });
+
+  it('should keep equal selections with a custom equality function', () => {
+    const form = renderHook(() => useFormPersist('selector-equal', initialState));
+    const { result } = renderHook(() =>
+      useFormPersistSelector(
+        'selector-equal',
+        (state: CheckoutForm) => ({ count: state.items.length }),
+        { isEqual: (a, b) => a.count === b.count }
+      )
+    );
+    const selection = result.current;
+
+    act(() => {
+      form.result.current[1]((prev) => ({ ...prev, name: 'Changed' }));
+    });
+    expect(result.current).toBe(selection);
+  });
+});
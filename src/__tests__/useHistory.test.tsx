@@ -273,4 +273,42 @@ describe('useHistory', () => {
       expect(result.current.state).toEqual({ name: 'new', value: 99 });
     });
   });
+
+  describe('tree mode', () => {
+    it('should expose branches and switch between them', () => {
+      const { result } = renderHook(() => useHistory(initialState, 50, { mode: 'tree' }));
+
+      act(() => {
+        result.current.setState({ name: 'first', value: 1 });
+      });
+      act(() => {
+        result.current.undo();
+      });
+      act(() => {
+        result.current.setState({ name: 'second', value: 2 });
+      });
+
+      expect(result.current.branches).toHaveLength(2);
+      expect(result.current.canRedo).toBe(false);
+
+      act(() => {
+        result.current.switchBranch(result.current.branches[0].id);
+      });
+
+      expect(result.current.state).toEqual({ name: 'first', value: 1 });
+
+      act(() => {
+        result.current.goToNode(result.current.branches[1].tipId);
+      });
+
+      expect(result.current.state).toEqual({ name: 'second', value: 2 });
+      expect(result.current.branches[1].isActive).toBe(true);
+    });
+
+    it('should return no branches in linear mode', () => {
+      const { result } = renderHook(() => useHistory(initialState));
+
+      expect(result.current.branches).toEqual([]);
+    });
+  });
 });
@@ -0,0 +1,154 @@
+/**
+ * react-form-autosave
+ * @version 0.1.2
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/react-form-autosave
+ *
+ * Tests for history/useUndoRedoShortcuts.ts
+ */
+
+import { renderHook } from '@testing-library/react';
+import { useUndoRedoShortcuts } from '../history/useUndoRedoShortcuts';
+import type { FormPersistActions, UndoRedoShortcutsOptions } from '../core/types';
+
+type ShortcutActions = Pick<FormPersistActions<unknown>, 'undo' | 'redo' | 'canUndo' | 'canRedo'>;
+
+function createActions(overrides: Partial<ShortcutActions> = {}): ShortcutActions {
+  return { undo: jest.fn(), redo: jest.fn(), canUndo: true, canRedo: true, ...overrides };
+}
+
+function pressKey(target: EventTarget, init: KeyboardEventInit): KeyboardEvent {
+  const event = new KeyboardEvent('keydown', { bubbles: true, cancelable: true, ...init });
+  target.dispatchEvent(event);
+  return event;
+}
+
+describe('useUndoRedoShortcuts', () => {
+  const originalPlatform = navigator.platform;
+
+  afterEach(() => {
+    Object.defineProperty(navigator, 'platform', { value: originalPlatform, configurable: true });
+    document.body.innerHTML = '';
+  });
+
+  it('should undo with Ctrl+Z and redo with Ctrl+Shift+Z and Ctrl+Y', () => {
+    const actions = createActions();
+    renderHook(() => useUndoRedoShortcuts(actions));
+
+    const undoEvent = pressKey(document.body, { key: 'z', ctrlKey: true });
+    pressKey(document.body, { key: 'Z', ctrlKey: true, shiftKey: true });
+    pressKey(document.body, { key: 'y', ctrlKey: true });
+
+    expect(actions.undo).toHaveBeenCalledTimes(1);
+    expect(actions.redo).toHaveBeenCalledTimes(2);
+    expect(undoEvent.defaultPrevented).toBe(true);
+  });
+
+  it('should use Cmd on Apple platforms', () => {
+    Object.defineProperty(navigator, 'platform', { value: 'MacIntel', configurable: true });
+    const actions = createActions();
+    renderHook(() => useUndoRedoShortcuts(actions));
+
+    pressKey(document.body, { key: 'z', ctrlKey: true });
+    pressKey(document.body, { key: 'y', metaKey: true });
+    expect(actions.undo).not.toHaveBeenCalled();
+    expect(actions.redo).not.toHaveBeenCalled();
+
+    pressKey(document.body, { key: 'z', metaKey: true });
+    pressKey(document.body, { key: 'z', metaKey: true, shiftKey: true });
+    expect(actions.undo).toHaveBeenCalledTimes(1);
+    expect(actions.redo).toHaveBeenCalledTimes(1);
+  });
+
+  it('should ignore shortcuts during IME composition', () => {
+    const actions = createActions();
+    renderHook(() => useUndoRedoShortcuts(actions));
+
+    pressKey(document.body, { key: 'z', ctrlKey: true, isComposing: true });
+    pressKey(document.body, { key: 'z', ctrlKey: true, keyCode: 229 });
+
+    expect(actions.undo).not.toHaveBeenCalled();
+  });
+
+  it('should leave text inputs to the native undo unless configured', () => {
+    const input = document.createElement('input');
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    document.body.append(input, checkbox);
+    const actions = createActions();
+    const { rerender } = renderHook(
+      (options: UndoRedoShortcutsOptions) => useUndoRedoShortcuts(actions, options),
+      { initialProps: {} }
+    );
+
+    const nativeEvent = pressKey(input, { key: 'z', ctrlKey: true });
+    expect(actions.undo).not.toHaveBeenCalled();
+    expect(nativeEvent.defaultPrevented).toBe(false);
+
+    pressKey(checkbox, { key: 'z', ctrlKey: true });
+    expect(actions.undo).toHaveBeenCalledTimes(1);
+
+    rerender({ preventNativeInputUndo: true });
+    const handledEvent = pressKey(input, { key: 'z', ctrlKey: true });
+    expect(actions.undo).toHaveBeenCalledTimes(2);
+    expect(handledEvent.defaultPrevented).toBe(true);
+  });
+
+  it('should only handle keys inside the target element', () => {
+    const container = document.createElement('div');
+    const inside = document.createElement('button');
+    container.append(inside);
+    document.body.append(container);
+    const actions = createActions();
+    renderHook(() => useUndoRedoShortcuts(actions, { target: { current: container } }));
+
+    pressKey(document.body, { key: 'z', ctrlKey: true });
+    expect(actions.undo).not.toHaveBeenCalled();
+
+    pressKey(inside, { key: 'z', ctrlKey: true });
+    expect(actions.undo).toHaveBeenCalledTimes(1);
+  });
+
+  it('should handle keys inside a target that mounts after the hook', () => {
+    const target: { current: HTMLElement | null } = { current: null };
+    const actions = createActions();
+    renderHook(() => useUndoRedoShortcuts(actions, { target }));
+
+    pressKey(document.body, { key: 'z', ctrlKey: true });
+    expect(actions.undo).not.toHaveBeenCalled();
+
+    const container = document.createElement('div');
+    document.body.append(container);
+    target.current = container;
+    pressKey(container, { key: 'z', ctrlKey: true });
+    expect(actions.undo).toHaveBeenCalledTimes(1);
+  });
+
+  it('should do nothing when disabled or when there is nothing to undo', () => {
+    const actions = createActions({ canUndo: false });
+    const { rerender } = renderHook(
+      ({ enabled }: { enabled: boolean }) => useUndoRedoShortcuts(actions, { enabled }),
+      { initialProps: { enabled: true } }
+    );
+
+    const event = pressKey(document.body, { key: 'z', ctrlKey: true });
+    expect(actions.undo).not.toHaveBeenCalled();
+    expect(event.defaultPrevented).toBe(false);
+
+    rerender({ enabled: false });
+    pressKey(document.body, { key: 'y', ctrlKey: true });
+    expect(actions.redo).not.toHaveBeenCalled();
+  });
+
+  it('should ignore other key combinations', () => {
+    const actions = createActions();
+    renderHook(() => useUndoRedoShortcuts(actions));
+
+    pressKey(document.body, { key: 'z' });
+    pressKey(document.body, { key: 'z', ctrlKey: true, altKey: true });
+    pressKey(document.body, { key: 'a', ctrlKey: true });
+
+    expect(actions.undo).not.toHaveBeenCalled();
+    expect(actions.redo).not.toHaveBeenCalled();
+  });
+});
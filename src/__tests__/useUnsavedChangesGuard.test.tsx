@@ -0,0 +1,206 @@
+/**
+ * react-form-autosave
+ * @version 0.1.2
+ * @author 686f6c61
+ * @license MIT
+ * @repository https://github.com/686f6c61/react-form-autosave
+ *
+ * Tests for useUnsavedChangesGuard hook
+ */
+
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useFormPersist } from '../hooks/useFormPersist';
+import { useUnsavedChangesGuard } from '../hooks/useUnsavedChangesGuard';
+import { seedPersistedData, clearTestStorage } from '../testing';
+import type { FormPersistActions, UnsavedChangesGuardOptions } from '../core/types';
+
+interface TestFormData {
+  name: string;
+}
+
+const initialState: TestFormData = { name: '' };
+
+type GuardedActions = Pick<
+  FormPersistActions<unknown>,
+  'isDirty' | 'isSaving' | 'isPaused' | 'status'
+>;
+
+const settled: GuardedActions = {
+  isDirty: false,
+  isSaving: false,
+  isPaused: false,
+  status: 'idle',
+};
+
+function dispatchBeforeUnload(): Event {
+  const event = new Event('beforeunload', { cancelable: true });
+  window.dispatchEvent(event);
+  return event;
+}
+
+describe('useUnsavedChangesGuard', () => {
+  beforeEach(() => {
+    clearTestStorage();
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should guard while a save is pending and stay silent once flushed', () => {
+    const { result } = renderHook(() => {
+      const [, setState, actions] = useFormPersist('guard-test', initialState, {
+        debounce: 500,
+      });
+      return { setState, actions, guard: useUnsavedChangesGuard(actions) };
+    });
+
+    expect(result.current.guard.hasUnsavedChanges).toBe(false);
+    expect(dispatchBeforeUnload().defaultPrevented).toBe(false);
+
+    act(() => {
+      result.current.setState({ name: 'Jane' });
+    });
+
+    expect(result.current.guard.hasUnsavedChanges).toBe(true);
+    expect(dispatchBeforeUnload().defaultPrevented).toBe(true);
+
+    act(() => {
+      jest.advanceTimersByTime(500);
+    });
+
+    expect(result.current.actions.isDirty).toBe(true);
+    expect(result.current.guard.hasUnsavedChanges).toBe(false);
+    expect(dispatchBeforeUnload().defaultPrevented).toBe(false);
+  });
+
+  it('should guard dirty forms when persistence is disabled', () => {
+    const { result } = renderHook(() => {
+      const [, setState, actions] = useFormPersist('guard-disabled-test', initialState, {
+        enabled: false,
+      });
+      return { setState, guard: useUnsavedChangesGuard(actions) };
+    });
+
+    act(() => {
+      result.current.setState({ name: 'Not persisted' });
+    });
+    act(() => {
+      jest.advanceTimersByTime(1000);
+    });
+
+    expect(result.current.guard.hasUnsavedChanges).toBe(true);
+  });
+
+  it('should not guard a restored draft until it is edited', async () => {
+    seedPersistedData('guard-restore-test', { name: 'Stored' });
+    const { result } = renderHook(() => {
+      const [state, setState, actions] = useFormPersist('guard-restore-test', initialState);
+      return { state, setState, actions, guard: useUnsavedChangesGuard(actions) };
+    });
+
+    await waitFor(() => {
+      expect(result.current.state.name).toBe('Stored');
+    });
+
+    expect(result.current.actions.isDirty).toBe(true);
+    expect(result.current.guard.hasUnsavedChanges).toBe(false);
+    expect(dispatchBeforeUnload().defaultPrevented).toBe(false);
+
+    act(() => {
+      result.current.setState({ name: 'Edited' });
+    });
+    expect(result.current.guard.hasUnsavedChanges).toBe(true);
+  });
+
+  it('should not guard a form after its storage is cleared', async () => {
+    const { result } = renderHook(() => {
+      const [, setState, actions] = useFormPersist('guard-clear-test', initialState, {
+        debounce: 500,
+      });
+      return { setState, actions, guard: useUnsavedChangesGuard(actions) };
+    });
+
+    act(() => {
+      result.current.setState({ name: 'Submitted' });
+    });
+    act(() => {
+      result.current.actions.clear();
+    });
+
+    expect(result.current.actions.isDirty).toBe(true);
+    expect(result.current.actions.status).toBe('idle');
+    expect(result.current.guard.hasUnsavedChanges).toBe(false);
+
+    act(() => {
+      result.current.setState({ name: 'Next message' });
+    });
+    await act(async () => {
+      await result.current.actions.withClear(() => undefined)();
+    });
+
+    expect(result.current.guard.hasUnsavedChanges).toBe(false);
+    expect(dispatchBeforeUnload().defaultPrevented).toBe(false);
+  });
+
+  it('should guard dirty forms while paused or after a failed save', () => {
+    const { result, rerender } = renderHook(
+      ({ persist }: { persist: GuardedActions }) => useUnsavedChangesGuard(persist),
+      { initialProps: { persist: { ...settled, isDirty: true, status: 'saved' } } }
+    );
+
+    expect(result.current.hasUnsavedChanges).toBe(false);
+
+    rerender({ persist: { ...settled, isDirty: true, status: 'saved', isPaused: true } });
+    expect(result.current.hasUnsavedChanges).toBe(true);
+
+    rerender({ persist: { ...settled, isDirty: true, status: 'error' } });
+    expect(result.current.hasUnsavedChanges).toBe(true);
+  });
+
+  it('should not guard when the condition is off', () => {
+    const { result } = renderHook(() =>
+      useUnsavedChangesGuard({ ...settled, isSaving: true, status: 'pending' }, { when: false })
+    );
+
+    expect(result.current.hasUnsavedChanges).toBe(false);
+    expect(dispatchBeforeUnload().defaultPrevented).toBe(false);
+  });
+
+  it('should confirm navigation with the custom message', () => {
+    const confirm = jest.spyOn(window, 'confirm').mockReturnValue(false);
+    const { result, rerender } = renderHook(
+      ({ persist, options }: { persist: GuardedActions; options: UnsavedChangesGuardOptions }) =>
+        useUnsavedChangesGuard(persist, options),
+      {
+        initialProps: {
+          persist: { ...settled, isDirty: true },
+          options: { message: 'Leave without saving?' },
+        },
+      }
+    );
+
+    expect(result.current.confirmNavigation()).toBe(false);
+    expect(confirm).toHaveBeenCalledWith('Leave without saving?');
+
+    confirm.mockReturnValue(true);
+    expect(result.current.confirmNavigation()).toBe(true);
+
+    confirm.mockClear();
+    rerender({ persist: settled, options: {} });
+    expect(result.current.confirmNavigation()).toBe(true);
+    expect(confirm).not.toHaveBeenCalled();
+  });
+
+  it('should remove the beforeunload listener on unmount', () => {
+    const { unmount } = renderHook(() =>
+      useUnsavedChangesGuard({ ...settled, isSaving: true, status: 'pending' })
+    );
+
+    unmount();
+
+    expect(dispatchBeforeUnload().defaultPrevented).toBe(false);
+  });
+});
@@ -12,6 +12,7 @@ import {
   isExpired,
   needsMigration,
   migrateData,
+  runMigrations,
   createErrorInfo,
   detectErrorType,
   safeJsonParse,
@@ -159,6 +160,135 @@ describe('validate', () => {
     });
   });
 
+  describe('runMigrations', () => {
+    interface V1 { name: string }
+    interface V2 { name: string; email: string }
+    interface V3 { fullName: string; email: string }
+
+    const migrations = {
+      2: (v1: V1): V2 => ({ ...v1, email: '' }),
+      3: (v2: V2): V3 => ({ fullName: v2.name, email: v2.email }),
+    };
+
+    it('should run every step from the stored version', () => {
+      expect(runMigrations({ name: 'John' }, 1, 3, { migrations })).toEqual({
+        status: 'migrated',
+        data: { fullName: 'John', email: '' },
+      });
+      expect(runMigrations({ name: 'John', email: 'j@x.com' }, 2, 3, { migrations })).toEqual({
+        status: 'migrated',
+        data: { fullName: 'John', email: 'j@x.com' },
+      });
+    });
+
+    it('should return data as-is when versions match', () => {
+      const data = { fullName: 'John', email: '' };
+      expect(runMigrations(data, 3, 3, { migrations })).toEqual({ status: 'migrated', data });
+    });
+
+    it('should name the step that throws', () => {
+      const result = runMigrations({ name: 'John' }, 1, 3, {
+        migrations: {
+          ...migrations,
+          3: () => {
+            throw new Error('boom');
+          },
+        },
+      });
+
+      expect(result).toEqual({
+        status: 'failed',
+        from: 2,
+        to: 3,
+        message: 'Migration from version 2 to 3 failed: boom',
+        error: expect.any(Error),
+      });
+    });
+
+    it('should fail on a missing step', () => {
+      expect(runMigrations({ name: 'John' }, 1, 3, { migrations: { 3: migrations[3] } })).toEqual(
+        expect.objectContaining({ status: 'failed', from: 1, to: 2 })
+      );
+    });
+
+    it('should fall back to migrate for missing steps', () => {
+      const migrate = jest.fn((data: unknown) => ({ ...(data as V2), fullName: 'Fallback' }));
+      const result = runMigrations({ name: 'John' }, 1, 3, {
+        migrations: { 2: migrations[2] },
+        migrate,
+      });
+
+      expect(migrate).toHaveBeenCalledWith({ name: 'John', email: '' }, 2);
+      expect(result).toEqual({
+        status: 'migrated',
+        data: { name: 'John', email: '', fullName: 'Fallback' },
+      });
+
+      const failing = runMigrations({ name: 'John' }, 1, 3, {
+        migrations: { 2: migrations[2] },
+        migrate: () => {
+          throw new Error('boom');
+        },
+      });
+      expect(failing).toEqual(expect.objectContaining({ status: 'failed', from: 2, to: 3 }));
+    });
+
+    it('should use migrate without a migrations map', () => {
+      expect(runMigrations({ a: 1 }, 1, 2, { migrate: () => ({ b: 2 }) })).toEqual({
+        status: 'migrated',
+        data: { b: 2 },
+      });
+      expect(
+        runMigrations({ a: 1 }, 1, 2, {
+          migrate: () => {
+            throw new Error('boom');
+          },
+        })
+      ).toEqual(expect.objectContaining({ status: 'failed', from: 1, to: 2 }));
+    });
+
+    it('should apply the downgrade policy for newer stored data', () => {
+      const data = { future: true };
+
+      expect(runMigrations(data, 4, 3)).toEqual({ status: 'migrated', data });
+      expect(runMigrations(data, 4, 3, { downgrade: 'keep-raw' })).toEqual({
+        status: 'migrated',
+        data,
+      });
+      expect(runMigrations(data, 4, 3, { downgrade: 'discard' })).toEqual({
+        status: 'discarded',
+        from: 4,
+        to: 3,
+      });
+      expect(runMigrations(data, 4, 3, { downgrade: 'error' })).toEqual({
+        status: 'failed',
+        from: 4,
+        to: 3,
+        message: 'Stored data version 4 is newer than current version 3',
+      });
+    });
+
+    it('should apply the downgrade policy for older stored data without migrations', () => {
+      const data = { stale: true };
+
+      expect(runMigrations(data, 1, 2)).toEqual({ status: 'migrated', data });
+      expect(runMigrations(data, 1, 2, { downgrade: 'discard' })).toEqual({
+        status: 'discarded',
+        from: 1,
+        to: 2,
+      });
+      expect(runMigrations(data, 1, 2, { downgrade: 'error' })).toEqual({
+        status: 'failed',
+        from: 1,
+        to: 2,
+        message: 'No migration from version 1 to 2',
+      });
+      expect(
+        runMigrations(data, 1, 2, { downgrade: 'error', migrate: () => ({ fresh: true }) })
+      ).toEqual({ status: 'migrated', data: { fresh: true } });
+    });
+  });
+
   describe('createErrorInfo', () => {
     it('should create error info object', () => {
       const errorInfo = createErrorInfo('QUOTA_EXCEEDED', 'test-key', 'Storage full');
@@ -182,6 +312,15 @@ describe('validate', () => {
 
       expect(errorInfo.error).toBe(originalError);
     });
+
+    it('should include the failed migration step when provided', () => {
+      const errorInfo = createErrorInfo('MIGRATION_FAILED', 'test-key', 'Failed', undefined, {
+        from: 1,
+        to: 2,
+      });
+
+      expect(errorInfo.migration).toEqual({ from: 1, to: 2 });
+    });
   });
 
   describe('detectErrorType', () => {
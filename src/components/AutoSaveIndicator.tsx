@@ -10,43 +10,12 @@
  */
 
 import React, { useMemo } from 'react';
-import type { AutoSaveIndicatorProps } from '../core/types';
-
-/**
- * Format relative time (e.g., "2 minutes ago")
- *
- * @param timestamp - Timestamp to format
- * @returns Formatted relative time string
- */
-function formatRelativeTime(timestamp: number): string {
-  const now = Date.now();
-  const diff = now - timestamp;
-
-  const seconds = Math.floor(diff / 1000);
-  const minutes = Math.floor(seconds / 60);
-  const hours = Math.floor(minutes / 60);
-
-  if (seconds < 5) {
-    return 'just now';
-  }
-  if (seconds < 60) {
-    return `${seconds} seconds ago`;
-  }
-  if (minutes === 1) {
-    return '1 minute ago';
-  }
-  if (minutes < 60) {
-    return `${minutes} minutes ago`;
-  }
-  if (hours === 1) {
-    return '1 hour ago';
-  }
-  if (hours < 24) {
-    return `${hours} hours ago`;
-  }
-
-  return new Date(timestamp).toLocaleString();
-}
+import type {
+  AutoSaveIndicatorProps,
+  AutoSaveIndicatorPersistProps,
+  SaveStatus,
+} from '../core/types';
+import { formatRelativeTime } from '../utils/formatRelativeTime';
 
 /**
  * Default styles for the indicator (minimal, can be overridden)
@@ -73,6 +42,9 @@ const defaultStyles: Record<string, React.CSSProperties> = {
   dotSaved: {
     backgroundColor: '#10b981',
   },
+  dotError: {
+    backgroundColor: '#ef4444',
+  },
 };
 
 /**
@@ -105,21 +77,53 @@ const defaultStyles: Record<string, React.CSSProperties> = {
  *   style={{ color: 'blue' }}
  * />
  * ```
+ *
+ * @example
+ * ```tsx
+ * // Driven by the live status from useFormPersist
+ * const [formData, setFormData, actions] = useFormPersist('myForm', {});
+ *
+ * <AutoSaveIndicator persist={actions} errorText="Could not save" />
+ * ```
  */
-export function AutoSaveIndicator({
-  lastSaved,
-  isSaving = false,
-  savingText = 'Saving...',
-  savedText = 'Saved',
-  notSavedText = 'Not saved',
-  showTimestamp = true,
-  className,
-  style,
-}: AutoSaveIndicatorProps): JSX.Element {
+export function AutoSaveIndicator(props: AutoSaveIndicatorPersistProps): JSX.Element;
+export function AutoSaveIndicator(props: AutoSaveIndicatorProps): JSX.Element;
+export function AutoSaveIndicator(
+  props: AutoSaveIndicatorProps | AutoSaveIndicatorPersistProps
+): JSX.Element {
+  const {
+    savingText = 'Saving...',
+    savedText = 'Saved',
+    notSavedText = 'Not saved',
+    errorText = 'Save failed',
+    showTimestamp = true,
+    className,
+    style,
+  } = props;
+
+  let status: SaveStatus;
+  let lastSaved: number | null;
+  let errorMessage: string | undefined;
+
+  if ('persist' in props) {
+    status = props.persist.status;
+    lastSaved = props.persist.lastSaved;
+    errorMessage = props.persist.lastError?.message;
+  } else {
+    status = props.isSaving ? 'saving' : props.lastSaved ? 'saved' : 'idle';
+    lastSaved = props.lastSaved;
+  }
+
+  const isSaving = status === 'pending' || status === 'saving';
+  const isError = status === 'error';
+
   const statusText = useMemo(() => {
     if (isSaving) {
       return savingText;
     }
+    if (isError) {
+      return errorText;
+    }
     if (lastSaved) {
       if (showTimestamp) {
         return `${savedText} ${formatRelativeTime(lastSaved)}`;
@@ -127,17 +131,29 @@ export function AutoSaveIndicator({
       return savedText;
     }
     return notSavedText;
-  }, [isSaving, lastSaved, savingText, savedText, notSavedText, showTimestamp]);
+  }, [
+    isSaving,
+    isError,
+    lastSaved,
+    savingText,
+    savedText,
+    notSavedText,
+    errorText,
+    showTimestamp,
+  ]);
 
   const dotStyle = useMemo((): React.CSSProperties => {
     if (isSaving) {
       return { ...defaultStyles.dot, ...defaultStyles.dotSaving };
     }
+    if (isError) {
+      return { ...defaultStyles.dot, ...defaultStyles.dotError };
+    }
     if (lastSaved) {
       return { ...defaultStyles.dot, ...defaultStyles.dotSaved };
     }
     return defaultStyles.dot;
-  }, [isSaving, lastSaved]);
+  }, [isSaving, isError, lastSaved]);
 
   return (
     <div
@@ -145,6 +161,8 @@ export function AutoSaveIndicator({
       style={{ ...defaultStyles.container, ...style }}
       role="status"
       aria-live="polite"
+      title={errorMessage}
+      data-status={status}
     >
       <span style={dotStyle} aria-hidden="true" />
       <span>{statusText}</span>
@@ -9,7 +9,15 @@
  * Allows setting default options that all useFormPersist hooks inherit
  */
 
-import React, { createContext, useContext, useMemo, useCallback, useRef } from 'react';
+import React, {
+  createContext,
+  useContext,
+  useMemo,
+  useCallback,
+  useRef,
+  useState,
+  useEffect,
+} from 'react';
 import type {
   FormPersistOptions,
   FormPersistRegistryEntry,
@@ -21,17 +29,33 @@ import type {
 const FormPersistContext = createContext<Partial<FormPersistOptions<unknown>>>({});
 
 /**
- * Context for form registry (used by DevTools)
+ * Registry methods shared through context
  */
-/* istanbul ignore next -- @preserve Default context value */
-const FormRegistryContext = createContext<{
+export interface FormRegistryValue {
+  /** Add or replace the entry for a storage key */
   register: (key: string, entry: FormPersistRegistryEntry) => void;
+  /** Remove the entry for a storage key */
   unregister: (key: string) => void;
+  /** Get a copy of all registered entries */
   getAll: () => Map<string, FormPersistRegistryEntry>;
-}>({
+  /** Get the registered entries (same array until the registry changes) */
+  getEntries: () => FormPersistRegistryEntry[];
+  /** Listen for registry changes, returns an unsubscribe function */
+  subscribe: (listener: () => void) => () => void;
+}
+
+const EMPTY_ENTRIES: FormPersistRegistryEntry[] = [];
+
+/**
+ * Context for form registry (used by DevTools)
+ */
+/* istanbul ignore next -- @preserve Default context value */
+const FormRegistryContext = createContext<FormRegistryValue>({
   register: () => {},
   unregister: () => {},
   getAll: () => new Map(),
+  getEntries: () => EMPTY_ENTRIES,
+  subscribe: () => () => {},
 });
 
 /**
@@ -72,25 +96,49 @@ export function FormPersistProvider({
 }: FormPersistProviderProps): JSX.Element {
   // Registry for tracking all form instances
   const registryRef = useRef<Map<string, FormPersistRegistryEntry>>(new Map());
+  const entriesRef = useRef<FormPersistRegistryEntry[] | null>(null);
+  const listenersRef = useRef<Set<() => void>>(new Set());
+
+  const notify = useCallback(() => {
+    entriesRef.current = null;
+    listenersRef.current.forEach((listener) => listener());
+  }, []);
 
   /* istanbul ignore next -- @preserve Registry functions used by consuming apps */
   const register = useCallback((key: string, entry: FormPersistRegistryEntry) => {
     registryRef.current.set(key, entry);
-  }, []);
+    notify();
+  }, [notify]);
 
   /* istanbul ignore next -- @preserve Registry functions used by consuming apps */
   const unregister = useCallback((key: string) => {
-    registryRef.current.delete(key);
-  }, []);
+    if (registryRef.current.delete(key)) {
+      notify();
+    }
+  }, [notify]);
 
   /* istanbul ignore next -- @preserve Registry function used by DevTools */
   const getAll = useCallback(() => {
     return new Map(registryRef.current);
   }, []);
 
+  const getEntries = useCallback(() => {
+    if (!entriesRef.current) {
+      entriesRef.current = Array.from(registryRef.current.values());
+    }
+    return entriesRef.current;
+  }, []);
+
+  const subscribe = useCallback((listener: () => void) => {
+    listenersRef.current.add(listener);
+    return () => {
+      listenersRef.current.delete(listener);
+    };
+  }, []);
+
   const registryValue = useMemo(
-    () => ({ register, unregister, getAll }),
-    [register, unregister, getAll]
+    () => ({ register, unregister, getAll, getEntries, subscribe }),
+    [register, unregister, getAll, getEntries, subscribe]
   );
 
   return (
@@ -113,11 +161,62 @@ export function useFormPersistContext(): Partial<FormPersistOptions<unknown>> {
 }
 
 /**
- * Hook to access the form registry
- * Used by DevTools to list all registered forms
+ * Hook to access the registry methods without subscribing to changes
+ * Used internally by useFormPersist to register itself
  *
  * @returns Registry methods
  */
-export function useFormRegistry() {
+export function useFormRegistryContext(): FormRegistryValue {
   return useContext(FormRegistryContext);
 }
+
+/**
+ * Hook to access the form registry
+ * Re-renders whenever a form registers, changes or unregisters. Entries keep
+ * their identity, but `entries` is a new array after every change.
+ * Used by DevTools to list all live forms.
+ *
+ * @returns Registry methods and the current entries
+ *
+ * @example
+ * ```tsx
+ * function FormsDashboard() {
+ *   const { entries } = useFormRegistry();
+ *   return (
+ *     <ul>
+ *       {entries.map((entry) => (
+ *         <li key={entry.key}>{entry.key}: {entry.status}</li>
+ *       ))}
+ *     </ul>
+ *   );
+ * }
+ * ```
+ */
+export function useFormRegistry(): FormRegistryValue & {
+  entries: FormPersistRegistryEntry[];
+} {
+  const registry = useContext(FormRegistryContext);
+  const [entries, setEntries] = useState(registry.getEntries);
+
+  useEffect(() => {
+    let unsubscribeEntries: Array<() => void> = [];
+    // Forms report their changes through the entry, not through the registry
+    const refresh = () => setEntries([...registry.getEntries()]);
+    const update = () => {
+      unsubscribeEntries.forEach((unsubscribe) => unsubscribe());
+      unsubscribeEntries = registry
+        .getEntries()
+        .flatMap((entry) => (entry.subscribe ? [entry.subscribe(refresh)] : []));
+      setEntries(registry.getEntries());
+    };
+    // Catch up with changes made between render and subscription
+    update();
+    const unsubscribe = registry.subscribe(update);
+    return () => {
+      unsubscribe();
+      unsubscribeEntries.forEach((unsubscribeEntry) => unsubscribeEntry());
+    };
+  }, [registry]);
+
+  return { ...registry, entries };
+}
@@ -0,0 +1,222 @@
+/**
+ * react-form-autosave
+ * @version 0.1.2
+ * @author 686f6c61
+ * @license MIT
+ * @repository https://github.com/686f6c61/react-form-autosave
+ *
+ * Uncontrolled form that autosaves its native elements
+ * Reads values through FormData on input/change and writes stored values back into the DOM
+ */
+
+import React, { useEffect, useRef } from 'react';
+import type {
+  FormPersistOptions,
+  FormPersistStore,
+  PersistedFormProps,
+  PersistedFormValues,
+} from '../core/types';
+import { getFormPersistStore } from '../core/sharedStores';
+import { useFormPersistContext } from './FormPersistProvider';
+
+/**
+ * Input types that are not persisted unless skipTypes says otherwise
+ */
+const DEFAULT_SKIPPED_TYPES = ['password', 'file'];
+
+/**
+ * Element types that never hold a value
+ */
+const VALUELESS_TYPES = ['submit', 'reset', 'button', 'image', 'fieldset', 'output'];
+
+type FormControl = HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
+
+interface ControlFilter {
+  exclude: string[];
+  skipTypes: string[];
+}
+
+/**
+ * Group the persisted controls of a form by name
+ */
+function getControls(form: HTMLFormElement, filter: ControlFilter): Map<string, FormControl[]> {
+  const controls = new Map<string, FormControl[]>();
+  for (const element of Array.from(form.elements)) {
+    const control = element as FormControl;
+    if (
+      !control.name ||
+      VALUELESS_TYPES.includes(control.type) ||
+      filter.skipTypes.includes(control.type) ||
+      filter.exclude.includes(control.name)
+    ) {
+      continue;
+    }
+    controls.set(control.name, [...(controls.get(control.name) ?? []), control]);
+  }
+  return controls;
+}
+
+/**
+ * Snapshot the values of a form
+ * Checkboxes hold a boolean, or the checked values when several share a name;
+ * radio groups hold the checked value (or null), multiple selects an array.
+ */
+function readForm(form: HTMLFormElement, filter: ControlFilter): PersistedFormValues {
+  const data = new FormData(form);
+  const values: PersistedFormValues = {};
+  getControls(form, filter).forEach((group, name) => {
+    const entries = data.getAll(name).map(String);
+    const [first] = group;
+    if (first.type === 'checkbox') {
+      values[name] = group.length > 1 ? entries : (first as HTMLInputElement).checked;
+    } else if (first.type === 'radio') {
+      values[name] = entries[0] ?? null;
+    } else if (first.type === 'select-multiple') {
+      values[name] = entries;
+    } else {
+      values[name] = entries[0] ?? '';
+    }
+  });
+  return values;
+}
+
+/**
+ * Write values into the controls of a form
+ */
+function writeForm(
+  form: HTMLFormElement,
+  values: PersistedFormValues,
+  filter: ControlFilter
+): void {
+  getControls(form, filter).forEach((group, name) => {
+    if (!(name in values)) return;
+    const value = values[name];
+    for (const control of group) {
+      if (control.type === 'checkbox') {
+        const input = control as HTMLInputElement;
+        input.checked = Array.isArray(value) ? value.includes(input.value) : value === true;
+      } else if (control.type === 'radio') {
+        const input = control as HTMLInputElement;
+        input.checked = input.value === value;
+      } else if (control.type === 'select-multiple') {
+        for (const option of Array.from((control as HTMLSelectElement).options)) {
+          option.selected = Array.isArray(value) && value.includes(option.value);
+        }
+      } else {
+        control.value = value === null || value === undefined ? '' : String(value);
+      }
+    }
+  });
+}
+
+/**
+ * PersistedForm component
+ *
+ * A `<form>` whose native elements are saved as they change and restored on
+ * mount, for forms that are not driven by React state. Values are stored in the
+ * same envelope as useFormPersist, under the same key, so useFormPersistSelector
+ * and the storage utilities work with them. Password and file inputs are skipped,
+ * and the stored form is cleared on submit unless onSubmit returns false or a
+ * promise that rejects or resolves to false.
+ *
+ * @example
+ * ```tsx
+ * <PersistedForm storageKey="contact" exclude={['captcha']} action="/contact" method="post">
+ *   <input name="name" />
+ *   <textarea name="message" />
+ *   <button type="submit">Send</button>
+ * </PersistedForm>
+ * ```
+ */
+export function PersistedForm({
+  storageKey,
+  exclude = [],
+  skipTypes = DEFAULT_SKIPPED_TYPES,
+  clearOnSubmit = true,
+  options,
+  onSubmit,
+  children,
+  ...formProps
+}: PersistedFormProps): JSX.Element {
+  const contextDefaults = useFormPersistContext() as Partial<
+    FormPersistOptions<PersistedFormValues>
+  >;
+  const mergedOptions: FormPersistOptions<PersistedFormValues> = {
+    ...contextDefaults,
+    ...options,
+  };
+  const formRef = useRef<HTMLFormElement>(null);
+  const storeRef = useRef<FormPersistStore<PersistedFormValues> | null>(null);
+
+  // Latest props, read by the listeners below
+  const latest = useRef({ filter: { exclude, skipTypes }, options: mergedOptions });
+  latest.current = { filter: { exclude, skipTypes }, options: mergedOptions };
+
+  useEffect(() => {
+    storeRef.current?.setOptions(latest.current.options);
+  });
+
+  useEffect(() => {
+    const form = formRef.current;
+    /* istanbul ignore next -- @preserve The form is always mounted when effects run */
+    if (!form) return undefined;
+
+    const store = getFormPersistStore(
+      storageKey,
+      readForm(form, latest.current.filter),
+      latest.current.options
+    );
+    storeRef.current = store;
+
+    // Write states that did not come from the DOM (restore, tab sync, undo)
+    let domState = store.getState();
+    const syncDom = () => {
+      const state = store.getState();
+      if (state !== domState) {
+        domState = state;
+        writeForm(form, state, latest.current.filter);
+      }
+    };
+    const handleEdit = () => {
+      domState = readForm(form, latest.current.filter);
+      store.setState(domState);
+    };
+
+    const unsubscribe = store.subscribe(syncDom);
+    syncDom();
+    form.addEventListener('input', handleEdit);
+    form.addEventListener('change', handleEdit);
+
+    return () => {
+      form.removeEventListener('input', handleEdit);
+      form.removeEventListener('change', handleEdit);
+      unsubscribe();
+      storeRef.current = null;
+    };
+  }, [storageKey]);
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    const result = onSubmit?.(event);
+    const store = storeRef.current;
+    if (!clearOnSubmit || !store) return;
+
+    // Keep the stored form when the submit handler fails or returns false
+    // (preventDefault() alone is the usual SPA submit and still clears)
+    if (result instanceof Promise) {
+      result.then(
+        (value) => {
+          if (value !== false) store.clear();
+        },
+        () => undefined
+      );
+    } else if (result !== false) {
+      store.clear();
+    }
+  };
+
+  return (
+    <form {...formProps} ref={formRef} onSubmit={handleSubmit}>
+      {children}
+    </form>
+  );
+}
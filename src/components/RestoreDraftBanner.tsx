@@ -0,0 +1,100 @@
+/**
+ * react-form-autosave
+ * @version 0.1.2
+ * @author 686f6c61
+ * @license MIT
+ * @repository https://github.com/686f6c61/react-form-autosave
+ *
+ * Banner offering to restore a stored draft (`restore: 'prompt'`)
+ * Shows how long ago the draft was saved with restore and discard buttons
+ */
+
+import React from 'react';
+import type { RestoreDraftBannerProps } from '../core/types';
+import { formatRelativeTime } from '../utils/formatRelativeTime';
+
+/**
+ * Default styles for the banner (minimal, can be overridden)
+ */
+const defaultStyles: Record<string, React.CSSProperties> = {
+  container: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '12px',
+    padding: '8px 12px',
+    border: '1px solid #e5e7eb',
+    borderRadius: '6px',
+    backgroundColor: '#f9fafb',
+    fontSize: '14px',
+    color: '#111',
+    fontFamily: 'system-ui, -apple-system, sans-serif',
+  },
+  message: {
+    flex: 1,
+    margin: 0,
+  },
+  actions: {
+    display: 'flex',
+    gap: '8px',
+  },
+};
+
+const defaultMessage = (relativeTime: string): React.ReactNode =>
+  `You have an unsaved draft from ${relativeTime}`;
+
+/**
+ * RestoreDraftBanner component
+ *
+ * Renders nothing while there is no pending draft. The banner is announced to
+ * screen readers when it appears.
+ *
+ * @example
+ * ```tsx
+ * const [formData, setFormData, actions] = useFormPersist('myForm', initialState, {
+ *   restore: 'prompt',
+ * });
+ *
+ * return (
+ *   <form>
+ *     <RestoreDraftBanner persist={actions} />
+ *     {/* form fields *\/}
+ *   </form>
+ * );
+ * ```
+ */
+export function RestoreDraftBanner({
+  persist,
+  message = defaultMessage,
+  restoreText = 'Restore',
+  discardText = 'Discard',
+  className,
+  style,
+}: RestoreDraftBannerProps): JSX.Element | null {
+  const { pendingDraft, acceptDraft, discardDraft } = persist;
+
+  if (!pendingDraft) {
+    return null;
+  }
+
+  return (
+    <div
+      className={className}
+      style={{ ...defaultStyles.container, ...style }}
+      role="region"
+      aria-label="Unsaved draft"
+      aria-live="polite"
+    >
+      <p style={defaultStyles.message} title={new Date(pendingDraft.savedAt).toLocaleString()}>
+        {message(formatRelativeTime(pendingDraft.savedAt))}
+      </p>
+      <div style={defaultStyles.actions}>
+        <button type="button" onClick={acceptDraft}>
+          {restoreText}
+        </button>
+        <button type="button" onClick={discardDraft}>
+          {discardText}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+/**
+ * react-form-autosave
+ * @version 0.1.2
+ * @author 686f6c61
+ * @license MIT
+ * @repository https://github.com/686f6c61/react-form-autosave
+ *
+ * Dialog for resolving sync conflicts between tabs (`ask-user` strategy)
+ * Shows the changed fields side by side and lets the user keep either version
+ * or pick field by field
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import type { SyncConflictDialogProps } from '../core/types';
+import { diffPaths, getPathValue, setPathValue } from '../middleware/paths';
+
+type FieldChoice = 'local' | 'remote';
+
+/**
+ * Default value formatting: strings as-is, everything else as JSON
+ */
+function defaultFormatValue(value: unknown): React.ReactNode {
+  if (value === undefined || value === null || value === '') {
+    return '—';
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Default styles for the dialog (minimal, can be overridden)
+ */
+const defaultStyles: Record<string, React.CSSProperties> = {
+  container: {
+    padding: '16px',
+    border: '1px solid #e5e7eb',
+    borderRadius: '8px',
+    backgroundColor: '#fff',
+    fontSize: '14px',
+    color: '#111',
+    fontFamily: 'system-ui, -apple-system, sans-serif',
+  },
+  title: {
+    margin: '0 0 8px',
+    fontSize: '16px',
+  },
+  description: {
+    margin: '0 0 12px',
+    color: '#666',
+  },
+  table: {
+    width: '100%',
+    borderCollapse: 'collapse',
+    marginBottom: '12px',
+  },
+  cell: {
+    padding: '6px 8px',
+    borderBottom: '1px solid #e5e7eb',
+    textAlign: 'left',
+    verticalAlign: 'top',
+  },
+  field: {
+    fontFamily: 'monospace',
+  },
+  actions: {
+    display: 'flex',
+    gap: '8px',
+    justifyContent: 'flex-end',
+  },
+};
+
+/**
+ * SyncConflictDialog component
+ *
+ * Renders nothing while there is no conflict. Values of each changed field are
+ * shown for this tab and the other tab; the user can keep one version entirely
+ * or choose per field and merge.
+ *
+ * @example
+ * ```tsx
+ * const [formData, setFormData, actions] = useFormPersist('myForm', initialState, {
+ *   sync: { strategy: 'ask-user' },
+ * });
+ *
+ * return (
+ *   <>
+ *     <SyncConflictDialog conflict={actions.conflict} onResolve={actions.resolveConflict} />
+ *     {/* form fields *\/}
+ *   </>
+ * );
+ * ```
+ */
+export function SyncConflictDialog<T>({
+  conflict,
+  onResolve,
+  title = 'This form was changed in another tab',
+  description = 'Choose which version to keep for each changed field.',
+  localLabel = 'This tab',
+  remoteLabel = 'Other tab',
+  keepLocalText = 'Keep mine',
+  useRemoteText = 'Use theirs',
+  mergeText = 'Merge selected',
+  formatValue,
+  className,
+  style,
+}: SyncConflictDialogProps<T>): JSX.Element | null {
+  const [choices, setChoices] = useState<Record<string, FieldChoice>>({});
+
+  // Start over when a newer remote update is held
+  useEffect(() => {
+    setChoices({});
+  }, [conflict]);
+
+  const changedPaths = useMemo(
+    () => (conflict ? diffPaths(conflict.local, conflict.remote) : []),
+    [conflict]
+  );
+
+  if (!conflict) {
+    return null;
+  }
+
+  const format = (value: unknown, path: string): React.ReactNode =>
+    formatValue ? formatValue(value, path) : defaultFormatValue(value);
+
+  const handleMerge = () => {
+    let merged = conflict.local;
+    for (const path of changedPaths) {
+      if (choices[path] === 'remote') {
+        merged = setPathValue(merged, path, getPathValue(conflict.remote, path));
+      }
+    }
+    onResolve(merged);
+  };
+
+  const renderChoice = (path: string, choice: FieldChoice, value: unknown) => (
+    <label>
+      <input
+        type="radio"
+        name={`rfp-conflict-${path}`}
+        checked={(choices[path] ?? 'local') === choice}
+        onChange={() => setChoices((prev) => ({ ...prev, [path]: choice }))}
+      />{' '}
+      {format(value, path)}
+    </label>
+  );
+
+  return (
+    <div
+      className={className}
+      style={{ ...defaultStyles.container, ...style }}
+      role="alertdialog"
+      aria-label={title}
+    >
+      <h2 style={defaultStyles.title}>{title}</h2>
+      <p style={defaultStyles.description}>{description}</p>
+      <table style={defaultStyles.table}>
+        <thead>
+          <tr>
+            <th style={defaultStyles.cell}>Field</th>
+            <th style={defaultStyles.cell}>{localLabel}</th>
+            <th style={defaultStyles.cell}>{remoteLabel}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {changedPaths.map((path) => (
+            <tr key={path} data-path={path}>
+              <td style={{ ...defaultStyles.cell, ...defaultStyles.field }}>{path}</td>
+              <td style={defaultStyles.cell}>
+                {renderChoice(path, 'local', getPathValue(conflict.local, path))}
+              </td>
+              <td style={defaultStyles.cell}>
+                {renderChoice(path, 'remote', getPathValue(conflict.remote, path))}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div style={defaultStyles.actions}>
+        <button type="button" onClick={() => onResolve('local')}>
+          {keepLocalText}
+        </button>
+        <button type="button" onClick={() => onResolve('remote')}>
+          {useRemoteText}
+        </button>
+        <button type="button" onClick={handleMerge}>
+          {mergeText}
+        </button>
+      </div>
+    </div>
+  );
+}
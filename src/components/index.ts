@@ -14,6 +14,12 @@ export {
   useFormRegistry,
 } from './FormPersistProvider';
 
-export type { FormPersistProviderProps } from './FormPersistProvider';
+export type { FormPersistProviderProps, FormRegistryValue } from './FormPersistProvider';
 
 export { AutoSaveIndicator } from './AutoSaveIndicator';
+
+export { SyncConflictDialog } from './SyncConflictDialog';
+
+export { RestoreDraftBanner } from './RestoreDraftBanner';
+
+export { PersistedForm } from './PersistedForm';
@@ -8,7 +8,7 @@
  * Library constants and default values
  */
 
-import type { FormPersistOptions } from './types';
+import type { FormPersistOptions, FlushEvent } from './types';
 
 /**
  * Library name for logging and identification
@@ -25,6 +25,16 @@ export const VERSION = '0.2.0';
  */
 export const DEFAULT_KEY_PREFIX = 'rfp:';
 
+/**
+ * Default IndexedDB database name
+ */
+export const DEFAULT_IDB_NAME = 'react-form-autosave';
+
+/**
+ * Default IndexedDB object store name
+ */
+export const DEFAULT_IDB_STORE = 'forms';
+
 /**
  * Default BroadcastChannel name
  */
@@ -35,6 +45,11 @@ export const DEFAULT_SYNC_CHANNEL = 'react-form-autosave-sync';
  */
 export const DEFAULT_DEBOUNCE = 500;
 
+/**
+ * Default page lifecycle events that flush pending saves
+ */
+export const DEFAULT_FLUSH_ON: FlushEvent[] = ['pagehide', 'visibilitychange'];
+
 /**
  * Default schema version
  */
@@ -45,6 +60,21 @@ export const DEFAULT_VERSION = 1;
  */
 export const DEFAULT_MAX_HISTORY = 50;
 
+/**
+ * Default maximum history size in bytes (256KB)
+ */
+export const DEFAULT_HISTORY_MAX_BYTES = 256 * 1024;
+
+/**
+ * Default number of history entries between full state checkpoints
+ */
+export const DEFAULT_HISTORY_CHECKPOINT_INTERVAL = 10;
+
+/**
+ * Default maximum number of branches kept by an undo tree
+ */
+export const DEFAULT_HISTORY_MAX_BRANCHES = 10;
+
 /**
  * Default compression threshold in bytes
  */
@@ -73,9 +103,11 @@ export const DEFAULT_OPTIONS: Required<
     FormPersistOptions<unknown>,
     | 'storage'
     | 'debounce'
+    | 'flushOn'
     | 'enabled'
     | 'version'
     | 'merge'
+    | 'restore'
     | 'debug'
     | 'persistMode'
     | 'exclude'
@@ -83,9 +115,11 @@ export const DEFAULT_OPTIONS: Required<
 > = {
   storage: 'localStorage',
   debounce: DEFAULT_DEBOUNCE,
+  flushOn: DEFAULT_FLUSH_ON,
   enabled: true,
   version: DEFAULT_VERSION,
   merge: 'shallow',
+  restore: 'auto',
   debug: false,
   persistMode: 'full',
   exclude: [],
@@ -10,3 +10,5 @@
 
 export * from './types';
 export * from './constants';
+export { createFormPersistStore } from './store';
+export { getFormPersistStore } from './sharedStores';
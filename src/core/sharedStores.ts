@@ -0,0 +1,119 @@
+/**
+ * react-form-autosave
+ * @version 0.1.2
+ * @author 686f6c61
+ * @license MIT
+ * @repository https://github.com/686f6c61/react-form-autosave
+ *
+ * Stores shared by every consumer of a storage key within a tab
+ * A store is shared from its first listener, and is dropped with the last one.
+ */
+
+import type { FormPersistOptions, FormPersistStore } from './types';
+import { DEFAULT_KEY_PREFIX } from './constants';
+import { isSSR } from '../storage/adapters';
+import { createFormPersistStore } from './store';
+
+const stores = new Map<string, unknown>();
+const cacheListeners = new Set<() => void>();
+
+function notifyCacheListeners(): void {
+  cacheListeners.forEach((listener) => listener());
+}
+
+/**
+ * Get the store shared by every consumer of a key, or a new store for it
+ *
+ * Consumers share the state, the debounced writer and the tab sync of the
+ * store. A new store becomes the shared one when it gets its first listener,
+ * so a store that is never subscribed (e.g., from an abandoned render) is
+ * never cached. A new store that is subscribed after another one claimed the
+ * key does not start, and its listeners follow the shared store instead.
+ *
+ * The initial state comes from the consumer that creates the shared store,
+ * and each consumer applies its options with setOptions, so consumers of a key
+ * should pass the same options. On the server every call creates a new store,
+ * so requests never share form data.
+ *
+ * @param key - Unique key for storing data
+ * @param initialState - Initial state value (used when the store is created)
+ * @param options - Configuration options (used when the store is created)
+ * @returns Shared form persist store
+ *
+ * @example
+ * ```typescript
+ * const a = getFormPersistStore('checkout', { items: [] });
+ * const unsubscribe = a.subscribe(render);
+ * const b = getFormPersistStore('checkout', { items: [] });
+ * a === b; // true while a has listeners
+ * ```
+ */
+export function getFormPersistStore<T extends Record<string, unknown>>(
+  key: string,
+  initialState: T,
+  options: FormPersistOptions<T> = {}
+): FormPersistStore<T> {
+  if (isSSR()) {
+    return createFormPersistStore(key, initialState, options);
+  }
+
+  const fullKey = `${options.keyPrefix ?? DEFAULT_KEY_PREFIX}${key}`;
+  const cached = findFormPersistStore<T>(fullKey);
+  if (cached) {
+    return cached;
+  }
+
+  const store = createFormPersistStore(key, initialState, options);
+  let subscriptions = 0;
+
+  const shared: FormPersistStore<T> = {
+    ...store,
+    subscribe: (listener) => {
+      // Another store claimed the key first
+      const claimed = findFormPersistStore<T>(fullKey);
+      if (subscriptions === 0 && claimed && claimed !== shared) {
+        return claimed.subscribe(listener);
+      }
+
+      const unsubscribe = store.subscribe(listener);
+      subscriptions += 1;
+      // The store goes live (again, e.g., after a StrictMode remount)
+      if (subscriptions === 1) {
+        stores.set(fullKey, shared);
+        notifyCacheListeners();
+      }
+
+      let active = true;
+      return () => {
+        if (!active) return;
+        active = false;
+        subscriptions -= 1;
+        unsubscribe();
+        if (subscriptions === 0 && stores.get(fullKey) === shared) {
+          stores.delete(fullKey);
+          notifyCacheListeners();
+        }
+      };
+    },
+  };
+
+  return shared;
+}
+
+/**
+ * Find the shared store of a full storage key (prefix included)
+ */
+export function findFormPersistStore<T>(fullKey: string): FormPersistStore<T> | undefined {
+  return stores.get(fullKey) as FormPersistStore<T> | undefined;
+}
+
+/**
+ * Listen for shared stores being added or dropped
+ * @returns Function that removes the listener
+ */
+export function subscribeToFormPersistStores(listener: () => void): () => void {
+  cacheListeners.add(listener);
+  return () => {
+    cacheListeners.delete(listener);
+  };
+}
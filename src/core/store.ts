@@ -0,0 +1,1591 @@
+/**
+ * react-form-autosave
+ * @version 0.1.2
+ * @author 686f6c61
+ * @license MIT
+ * @repository https://github.com/686f6c61/react-form-autosave
+ *
+ * Framework-agnostic form persist store
+ * Holds the form state, saves it to storage and restores it, without React.
+ * useFormPersist is a thin wrapper around it.
+ */
+
+import type {
+  FormPersistOptions,
+  FormPersistStore,
+  FormPersistStoreSnapshot,
+  StorageAdapter,
+  MergeFn,
+  MergeStrategy,
+  PartitionOptions,
+  SyncOptions,
+  TransformOptions,
+  PersistedData,
+  PersistErrorInfo,
+  SyncConflict,
+  ConflictResolution,
+  PendingDraft,
+  FormPersistSetState,
+  SetStateOptions,
+  HistoryEntry,
+  HistorySnapshot,
+  FormHistoryManager,
+  HistoryOptions,
+} from './types';
+
+import {
+  DEFAULT_OPTIONS,
+  DEFAULT_KEY_PREFIX,
+  DEFAULT_MAX_HISTORY,
+  DEFAULT_HISTORY_MAX_BYTES,
+  DEFAULT_HISTORY_CHECKPOINT_INTERVAL,
+  DEFAULT_PARTITION_SIZE,
+} from './constants';
+
+import {
+  getStorageAdapter,
+  isSSR,
+  getStringByteSize,
+  isStorageAvailable,
+  PARTITION_MARKER,
+  getPartitionKey as getPartitionChunkKey,
+  parsePartitionManifest,
+  splitIntoPartitions,
+} from '../storage';
+
+import {
+  createSaveController,
+  createTransformPipeline,
+  createAsyncTransformPipeline,
+  needsAsyncTransform,
+  isDecryptionError,
+  wrapWithMetadata,
+  applyFieldFilters,
+  restoreFilteredFields,
+  getMergeFunction,
+  isValidPersistedData,
+  isExpired,
+  runMigrations,
+  createErrorInfo,
+  detectErrorType,
+  validateData,
+  isEqual,
+  diffPaths,
+  getPathValue,
+  setPathValue,
+  parsePath,
+} from '../middleware';
+
+import { SyncManager } from '../sync/syncManager';
+import { HistoryManager } from '../history/historyManager';
+import {
+  createHistoryStackFromStates,
+  getHistoryStackEntries,
+  getHistoryStackStates,
+  isHistoryStack,
+} from '../history/historyStack';
+import type { HistoryStack } from '../history/historyStack';
+
+/**
+ * Debug logger utility
+ */
+function debugLog(enabled: boolean, ...args: unknown[]): void {
+  if (enabled && typeof console !== 'undefined') {
+    // eslint-disable-next-line no-console
+    console.log('[react-form-autosave]', ...args);
+  }
+}
+
+function isPromiseLike<T>(value: unknown): value is Promise<T> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'then' in value &&
+    typeof (value as { then?: unknown }).then === 'function'
+  );
+}
+
+function getDirtyData<T extends Record<string, unknown>>(current: T, initial: T): Partial<T> {
+  const dirty: Partial<T> = {};
+  for (const key of Object.keys(current) as (keyof T)[]) {
+    if (!isEqual(current[key], initial[key])) {
+      dirty[key] = current[key];
+    }
+  }
+  return dirty;
+}
+
+/**
+ * Whether an index points to an item of a list
+ */
+function isListIndex(list: unknown[], index: number): boolean {
+  return Number.isInteger(index) && index >= 0 && index < list.length;
+}
+
+/**
+ * Array field changes; each returns the list itself when nothing changes
+ */
+const listChanges = {
+  insert: (list: unknown, index: number, item: unknown): unknown[] => {
+    const next = Array.isArray(list) ? [...list] : [];
+    next.splice(Math.min(Math.max(Math.trunc(index), 0), next.length), 0, item);
+    return next;
+  },
+  remove: (list: unknown, index: number): unknown => {
+    if (!Array.isArray(list) || !isListIndex(list, index)) return list;
+    return list.filter((_item, i) => i !== index);
+  },
+  move: (list: unknown, from: number, to: number): unknown => {
+    if (!Array.isArray(list) || !isListIndex(list, from) || !isListIndex(list, to) || from === to) {
+      return list;
+    }
+    const next = [...list];
+    next.splice(to, 0, ...next.splice(from, 1));
+    return next;
+  },
+  replace: (list: unknown, index: number, item: unknown): unknown => {
+    if (!Array.isArray(list) || !isListIndex(list, index) || Object.is(list[index], item)) {
+      return list;
+    }
+    const next = [...list];
+    next[index] = item;
+    return next;
+  },
+};
+
+/**
+ * Cache the last result of a function, recomputed when an argument changes
+ */
+function memoizeLast<A extends unknown[], R>(compute: (...args: A) => R): (...args: A) => R {
+  let last: { args: A; result: R } | null = null;
+  return (...args: A): R => {
+    if (!last || args.some((arg, i) => !Object.is(arg, last?.args[i]))) {
+      last = { args, result: compute(...args) };
+    }
+    return last.result;
+  };
+}
+
+/**
+ * Whether a path, one of its parents or one of its children was touched
+ */
+function isPathTouched(touched: Record<string, boolean>, path: string): boolean {
+  const segments = parsePath(path);
+  return Object.keys(touched).some((touchedPath) => {
+    const touchedSegments = parsePath(touchedPath);
+    const shared = Math.min(segments.length, touchedSegments.length);
+    return segments.slice(0, shared).every((segment, i) => segment === touchedSegments[i]);
+  });
+}
+
+/**
+ * History values exposed in snapshots (the history manager itself is mutable)
+ */
+interface HistoryView {
+  index: number;
+  length: number;
+  entries: HistoryEntry[];
+}
+
+function getHistoryView<T>(manager: FormHistoryManager<T>): HistoryView {
+  return { index: manager.index, length: manager.length, entries: manager.getEntries() };
+}
+
+/**
+ * History stack as persisted under `<key>:history`
+ */
+interface PersistedHistory {
+  entries: HistoryStack<unknown>;
+  index: number;
+}
+
+function isPersistedHistory(value: unknown): value is PersistedHistory {
+  if (!value || typeof value !== 'object') return false;
+  const candidate = value as Record<string, unknown>;
+  return (
+    isHistoryStack(candidate.entries) &&
+    typeof candidate.index === 'number' &&
+    Number.isInteger(candidate.index) &&
+    candidate.index >= 0 &&
+    candidate.index < candidate.entries.length
+  );
+}
+
+/**
+ * History option with the defaults applied
+ */
+function resolveHistoryOptions<T>(history: FormPersistOptions<T>['history']) {
+  const config = history && typeof history === 'object' ? history : undefined;
+  const enabled = history === true || (config !== undefined && config.enabled !== false);
+  return {
+    enabled,
+    maxHistory: config?.maxHistory ?? DEFAULT_MAX_HISTORY,
+    maxBytes: config?.maxBytes ?? DEFAULT_HISTORY_MAX_BYTES,
+    checkpointInterval: config?.checkpointInterval ?? DEFAULT_HISTORY_CHECKPOINT_INTERVAL,
+    coalesceMs: config?.coalesceMs ?? 0,
+    coalesceBy: config?.coalesceBy ?? 'field',
+    shouldCoalesce: config?.shouldCoalesce,
+    persist: enabled && config?.persist === true,
+    storage: config?.storage,
+    historyManager: config?.historyManager,
+  };
+}
+
+function resolveSyncOptions<T>(sync: FormPersistOptions<T>['sync']): SyncOptions<T> {
+  if (!sync) {
+    return { enabled: false };
+  }
+  if (sync === true) {
+    return { enabled: true };
+  }
+  return {
+    ...sync,
+    enabled: sync.enabled ?? true,
+  };
+}
+
+function resolvePartitionOptions(
+  partition: FormPersistOptions<unknown>['partition']
+): Required<PartitionOptions> {
+  if (!partition) {
+    return { enabled: false, maxSize: DEFAULT_PARTITION_SIZE };
+  }
+  if (partition === true) {
+    return { enabled: true, maxSize: DEFAULT_PARTITION_SIZE };
+  }
+  return {
+    enabled: partition.enabled ?? true,
+    maxSize: Math.max(1, partition.maxSize ?? DEFAULT_PARTITION_SIZE),
+  };
+}
+
+/**
+ * Values held by the store (the snapshot derives the save status and history flags)
+ */
+interface StoreValues<T> {
+  state: T;
+  isPersisted: boolean;
+  isRestored: boolean;
+  lastSaved: number | null;
+  isPaused: boolean;
+  size: number;
+  compressionRatio: number | null;
+  // Save status: settled outcome, open debounce window and async writes in flight
+  settledStatus: 'idle' | 'saved' | 'error';
+  lastError: PersistErrorInfo | null;
+  pendingSince: number | null;
+  savesInFlight: number;
+  // Conflicting update from another tab (ask-user sync strategy)
+  conflict: SyncConflict<T> | null;
+  // Stored draft waiting to be accepted or discarded (prompt and manual restore)
+  pendingDraft: PendingDraft<T> | null;
+  history: HistoryView;
+  // Fields the user changed or left (field helper and field setters)
+  touched: Record<string, boolean>;
+  // State that needs no saving: last saved, restored, synced or cleared
+  settledState: T;
+}
+
+/**
+ * Create a store that persists form state, with no React dependency
+ *
+ * Stored data is restored, and tab sync and the flushOn listeners start, when
+ * the first listener subscribes. Removing the last listener flushes the
+ * pending save and stops them.
+ *
+ * @param key - Unique key for storing data
+ * @param initialState - Initial state value
+ * @param options - Configuration options (same as useFormPersist)
+ * @returns Form persist store
+ *
+ * @example
+ * ```typescript
+ * import { createFormPersistStore } from 'react-form-autosave/core';
+ *
+ * const store = createFormPersistStore('contact', { name: '', email: '' });
+ * const unsubscribe = store.subscribe(() => {
+ *   nameInput.value = store.getState().name;
+ * });
+ *
+ * nameInput.addEventListener('input', () => {
+ *   store.setState((prev) => ({ ...prev, name: nameInput.value }));
+ * });
+ * ```
+ */
+export function createFormPersistStore<T extends Record<string, unknown>>(
+  key: string,
+  initialState: T,
+  options: FormPersistOptions<T> = {}
+): FormPersistStore<T> {
+  let currentOptions = { ...DEFAULT_OPTIONS, ...options } as FormPersistOptions<T>;
+
+  const fullKey = `${currentOptions.keyPrefix ?? DEFAULT_KEY_PREFIX}${key}`;
+  const emergencyKey = `${fullKey}:emergency`;
+  // Persisted undo/redo history lives next to the draft
+  const historyKey = `${fullKey}:history`;
+
+  const getPartitionKey = (index: number): string => getPartitionChunkKey(fullKey, index);
+
+  // Options are read when used; values built from them are cached
+  const getHistoryOptions = memoizeLast((history: FormPersistOptions<T>['history']) =>
+    resolveHistoryOptions(history)
+  );
+  const getSyncOptions = memoizeLast((sync: FormPersistOptions<T>['sync']) =>
+    resolveSyncOptions(sync)
+  );
+  const getPartitionOptions = memoizeLast(resolvePartitionOptions);
+  const getFieldFilters = memoizeLast(
+    (include: FormPersistOptions<T>['include'], exclude: FormPersistOptions<T>['exclude']) => ({
+      include,
+      exclude,
+    })
+  );
+  const getStorage = memoizeLast(getStorageAdapter);
+  const getHistoryStorage = memoizeLast(
+    (
+      persist: boolean,
+      historyStorageType: HistoryOptions['storage'],
+      storage: StorageAdapter
+    ): StorageAdapter | null => {
+      if (!persist) return null;
+      return historyStorageType ? getStorageAdapter(historyStorageType) : storage;
+    }
+  );
+  const getMergeFn = memoizeLast((strategy: FormPersistOptions<T>['merge']) =>
+    getMergeFunction<T>(strategy as MergeStrategy | MergeFn<T> | undefined)
+  );
+
+  // Ratio reported by the transform pipeline for the payload being serialized
+  let lastCompressionRatio: number | null = null;
+
+  // Transform pipeline (asynchronous with encryption or the deflate codec)
+  const getTransformer = memoizeLast(
+    (
+      transform: FormPersistOptions<T>['transform'],
+      compress: FormPersistOptions<T>['compress'],
+      encryption: FormPersistOptions<T>['encryption']
+    ): {
+      serialize: (data: PersistedData<unknown>) => string | Promise<string>;
+      deserialize: (
+        data: string
+      ) => PersistedData<unknown> | null | Promise<PersistedData<unknown> | null>;
+    } => {
+      const transformOptions = transform as TransformOptions<PersistedData<unknown>> | undefined;
+      const onCompress = (originalLength: number, compressedLength: number): void => {
+        lastCompressionRatio = originalLength / compressedLength;
+      };
+      if (needsAsyncTransform(compress, encryption)) {
+        return createAsyncTransformPipeline<PersistedData<unknown>>(
+          transformOptions,
+          compress,
+          encryption,
+          onCompress
+        );
+      }
+      return createTransformPipeline<PersistedData<unknown>>(
+        transformOptions,
+        compress,
+        false,
+        onCompress
+      );
+    }
+  );
+
+  // Synchronous pipeline for emergency copies written while the page is hidden.
+  // Encrypted forms never get one: it would store the data in plain text.
+  const getEmergencyTransformer = memoizeLast(
+    (
+      transform: FormPersistOptions<T>['transform'],
+      compress: FormPersistOptions<T>['compress'],
+      encryption: FormPersistOptions<T>['encryption']
+    ) =>
+      encryption
+        ? null
+        : createTransformPipeline<PersistedData<unknown>>(
+            transform as TransformOptions<PersistedData<unknown>> | undefined,
+            compress,
+            false
+          )
+  );
+
+  const historyOptions = () => getHistoryOptions(currentOptions.history);
+  const fieldFilters = () => getFieldFilters(currentOptions.include, currentOptions.exclude);
+  const storage = () => getStorage(currentOptions.storage);
+  const historyStorage = () =>
+    getHistoryStorage(historyOptions().persist, historyOptions().storage, storage());
+  const mergeFn = () => getMergeFn(currentOptions.merge);
+  const transformer = () =>
+    getTransformer(currentOptions.transform, currentOptions.compress, currentOptions.encryption);
+  const emergencyTransformer = () =>
+    getEmergencyTransformer(
+      currentOptions.transform,
+      currentOptions.compress,
+      currentOptions.encryption
+    );
+  const debug = () => currentOptions.debug ?? false;
+
+  // Undo/redo history (see history/historyManager)
+  const historyFactory = historyOptions().historyManager;
+  const historyManager: FormHistoryManager<T> = historyFactory
+    ? historyFactory(initialState)
+    : new HistoryManager(initialState, historyOptions().maxHistory, {
+        maxBytes: historyOptions().maxBytes,
+        checkpointInterval: historyOptions().checkpointInterval,
+      });
+
+  let values: StoreValues<T> = {
+    state: initialState,
+    isPersisted: false,
+    isRestored: false,
+    lastSaved: null,
+    isPaused: false,
+    size: 0,
+    compressionRatio: null,
+    settledStatus: 'idle',
+    lastError: null,
+    pendingSince: null,
+    savesInFlight: 0,
+    conflict: null,
+    pendingDraft: null,
+    history: getHistoryView(historyManager),
+    touched: {},
+    settledState: initialState,
+  };
+  let dirtyState = initialState;
+  let isDirty = false;
+  const differsFromSettled = memoizeLast((state: T, settled: T) => !isEqual(state, settled));
+
+  const createSnapshot = (): FormPersistStoreSnapshot<T> => {
+    const { settledStatus, savesInFlight, history: view, settledState, ...rest } = values;
+    if (values.state !== dirtyState) {
+      dirtyState = values.state;
+      isDirty = !isEqual(values.state, initialState);
+    }
+    const status =
+      savesInFlight > 0 ? 'saving' : values.pendingSince !== null ? 'pending' : settledStatus;
+    const historyEnabled = historyOptions().enabled;
+
+    return {
+      ...rest,
+      status,
+      isSaving: status === 'pending' || status === 'saving',
+      isDirty,
+      hasUnsavedChanges:
+        status === 'pending' || status === 'saving' || differsFromSettled(values.state, settledState),
+      historyIndex: view.index,
+      historyLength: view.length,
+      historyEntries: view.entries,
+      canUndo: historyEnabled && view.index > 0,
+      canRedo: historyEnabled && view.index < view.length - 1,
+    };
+  };
+
+  let snapshot = createSnapshot();
+  const listeners = new Set<() => void>();
+
+  // Replace values and notify listeners
+  const update = (changes: Partial<StoreValues<T>>): void => {
+    values = { ...values, ...changes };
+    snapshot = createSnapshot();
+    listeners.forEach((listener) => listener());
+  };
+
+  let syncManager: SyncManager<T> | null = null;
+  // Stored value as last saved, restored or synced, for getPersistedValue when
+  // storage cannot be read synchronously (encryption, deflate, async adapters)
+  let lastPersisted: PersistedData<unknown> | null = null;
+  let writesInFlight = 0;
+  let holdSaves = false;
+  let loaded = false;
+  let started = false;
+  // Last change pushed to history (coalesceMs) and open transactions
+  let lastHistoryChange: { at: number; paths: string[]; index: number } | null = null;
+  let transactionDepth = 0;
+
+  // Change the history (changes after this one start a new entry)
+  const updateHistory = <R>(change: (manager: FormHistoryManager<T>) => R): R => {
+    const result = change(historyManager);
+    lastHistoryChange = null;
+    update({ history: getHistoryView(historyManager) });
+    return result;
+  };
+
+  // Error handler
+  const handleError = (
+    type: Parameters<typeof createErrorInfo>[0],
+    message: string,
+    error?: Error,
+    migration?: { from: number; to: number }
+  ): void => {
+    const errorInfo = createErrorInfo(type, fullKey, message, error, migration);
+    debugLog(debug(), 'Error:', errorInfo);
+    update({ lastError: errorInfo, settledStatus: 'error' });
+
+    if (type === 'QUOTA_EXCEEDED' || type === 'STORAGE_FULL') {
+      currentOptions.onStorageFull?.(errorInfo);
+    }
+    currentOptions.onError?.(errorInfo);
+  };
+
+  // Write the undo/redo history next to the draft (history.persist)
+  const persistHistory = (): void => {
+    const target = historyStorage();
+    if (!target) return;
+
+    const write = async () => {
+      const filters = fieldFilters();
+      const filteredStates = historyManager
+        .getAll()
+        .map((entry) => applyFieldFilters(entry, filters));
+      const wrapped = wrapWithMetadata<PersistedHistory>(
+        {
+          entries: createHistoryStackFromStates(
+            filteredStates,
+            historyOptions().checkpointInterval,
+            historyManager.getEntries()
+          ),
+          index: historyManager.index,
+        },
+        currentOptions.version ?? 1,
+        currentOptions.expiration
+      );
+      await target.setItem(historyKey, await transformer().serialize(wrapped));
+    };
+
+    void write().catch((e: unknown) => {
+      const error = e instanceof Error ? e : new Error(String(e));
+      handleError(detectErrorType(error), error.message, error);
+    });
+  };
+
+  // Restore the persisted history around the restored state. Entries missing
+  // from the history (newer saves) are appended; excluded fields come from the
+  // restored state.
+  const restoreHistory = async (restored: T): Promise<void> => {
+    const source = historyStorage();
+    if (!source) return;
+
+    try {
+      const raw = await source.getItem(historyKey);
+      if (typeof raw !== 'string') return;
+
+      const deserialized = transformer().deserialize(raw);
+      const persisted = isPromiseLike<PersistedData<unknown> | null>(deserialized)
+        ? await deserialized
+        : deserialized;
+      if (
+        !isValidPersistedData<unknown>(persisted) ||
+        isExpired(persisted) ||
+        persisted.version !== (currentOptions.version ?? 1) ||
+        !isPersistedHistory(persisted.data)
+      ) {
+        return;
+      }
+
+      const { entries: storedEntries, index: storedIndex } = persisted.data;
+      const entries = getHistoryStackStates(storedEntries).map((entry) =>
+        mergeFn()(restoreFilteredFields(entry as T, restored, fieldFilters()), initialState)
+      );
+      const metas: Array<HistoryEntry | undefined> = getHistoryStackEntries(storedEntries);
+
+      let index = Math.min(Math.max(storedIndex, 0), entries.length - 1);
+      if (index >= 0 && isEqual(entries[index], restored)) {
+        entries[index] = restored;
+      } else {
+        entries.splice(index + 1, entries.length, restored);
+        // The appended entry gets fresh metadata
+        metas.splice(index + 1, metas.length);
+        index = entries.length - 1;
+      }
+
+      // Only replace the history if nothing changed while reading it
+      if (historyManager.length !== 1 || !isEqual(historyManager.current, restored)) return;
+      updateHistory((manager) => manager.load(entries, metas, index));
+      debugLog(debug(), 'Restored history:', historyKey);
+    } catch (e) {
+      debugLog(debug(), 'Failed to restore history:', e);
+    }
+  };
+
+  // Apply beforePersist, validation, field filters and dirty mode, then wrap
+  // with metadata. Returns null when validation rejects the data.
+  const prepareForStorage = (
+    dataToSave: T
+  ): { processedData: T; wrapped: PersistedData<T | Partial<T>> } | null => {
+    const { beforePersist, validate, persistMode, version, expiration } = currentOptions;
+
+    // Apply beforePersist transform
+    const processedData: T = beforePersist ? beforePersist(dataToSave) : dataToSave;
+
+    // Validate data
+    if (!validateData(processedData, validate)) {
+      debugLog(debug(), 'Validation failed, skipping save');
+      return null;
+    }
+
+    // Filter fields after validation (validation expects full T), and before
+    // the dirty diff so changes to excluded paths don't mark a field as dirty
+    const filters = fieldFilters();
+    const filteredData = applyFieldFilters(processedData, filters) as T;
+    const dataForStorage: T | Partial<T> =
+      persistMode === 'dirty'
+        ? getDirtyData(filteredData, applyFieldFilters(initialState, filters) as T)
+        : filteredData;
+
+    // Wrap with metadata
+    // Field clocks let other tabs merge concurrent edits field by field
+    const wrapped = wrapWithMetadata(
+      dataForStorage,
+      version ?? 1,
+      expiration,
+      syncManager?.getClock()
+    );
+
+    return { processedData, wrapped };
+  };
+
+  // Save to storage function
+  const saveToStorage = (dataToSave: T): void => {
+    // Saves are held while a draft waits for the user (restore: 'prompt')
+    if (!currentOptions.enabled || values.isPaused || isSSR() || holdSaves) {
+      return;
+    }
+
+    try {
+      const prepared = prepareForStorage(dataToSave);
+      if (!prepared) {
+        return;
+      }
+      const { processedData, wrapped } = prepared;
+      const target = storage();
+      const partitionOptions = getPartitionOptions(currentOptions.partition);
+      const { warnSize } = currentOptions;
+
+      const persistSerialized = (serialized: string, ratio: number | null): void | Promise<void> => {
+        // Check size warning
+        const dataSize = getStringByteSize(serialized);
+        if (warnSize && dataSize > warnSize) {
+          console.warn(
+            `[react-form-autosave] Data size (${dataSize} bytes) exceeds warning threshold (${warnSize} bytes)`
+          );
+        }
+
+        const executeWrite = (existingRaw: string | null): void | Promise<void> => {
+          const existingManifest = existingRaw ? parsePartitionManifest(existingRaw) : null;
+          const cleanupOps: Array<void | Promise<void>> = [];
+
+          if (existingManifest) {
+            for (let i = 0; i < existingManifest.count; i++) {
+              cleanupOps.push(target.removeItem(getPartitionKey(i)));
+            }
+          }
+
+          const shouldWritePartitions =
+            partitionOptions.enabled && dataSize > partitionOptions.maxSize;
+
+          if (shouldWritePartitions) {
+            const chunks = splitIntoPartitions(serialized, partitionOptions.maxSize);
+            const writeOps: Array<void | Promise<void>> = chunks.map((chunk, index) =>
+              target.setItem(getPartitionKey(index), chunk)
+            );
+
+            const manifest = JSON.stringify({
+              [PARTITION_MARKER]: true,
+              count: chunks.length,
+            });
+
+            const ops = [...cleanupOps, ...writeOps, target.setItem(fullKey, manifest)];
+
+            if (ops.some((op) => isPromiseLike<void>(op))) {
+              return Promise.all(ops.map((op) => Promise.resolve(op))).then(() => undefined);
+            }
+            return;
+          }
+
+          const mainWrite = target.setItem(fullKey, serialized);
+          const ops = [...cleanupOps, mainWrite];
+          if (ops.some((op) => isPromiseLike<void>(op))) {
+            return Promise.all(ops.map((op) => Promise.resolve(op))).then(() => undefined);
+          }
+        };
+
+        const commitSuccess = () => {
+          lastPersisted = wrapped;
+          syncManager?.setLocalData(processedData);
+          syncManager?.broadcast(processedData);
+
+          update({
+            isPersisted: true,
+            lastSaved: Date.now(),
+            size: dataSize,
+            compressionRatio: ratio,
+            lastError: null,
+            settledStatus: 'saved',
+            settledState: dataToSave,
+          });
+          persistHistory();
+          debugLog(debug(), 'Saved to storage:', fullKey);
+        };
+
+        const existingRaw = target.getItem(fullKey);
+        const writeResult = isPromiseLike<string | null>(existingRaw)
+          ? existingRaw.then((raw) => executeWrite(typeof raw === 'string' ? raw : null))
+          : executeWrite(typeof existingRaw === 'string' ? existingRaw : null);
+
+        if (isPromiseLike<void>(writeResult)) {
+          return writeResult.then(() => {
+            commitSuccess();
+          });
+        }
+
+        commitSuccess();
+      };
+
+      // Serialize (encryption and deflate make this step asynchronous)
+      lastCompressionRatio = null;
+      const serialized = transformer().serialize(wrapped);
+      const persistResult = isPromiseLike<string>(serialized)
+        ? serialized.then((value) => persistSerialized(value, lastCompressionRatio))
+        : persistSerialized(serialized, lastCompressionRatio);
+
+      if (isPromiseLike<void>(persistResult)) {
+        writesInFlight += 1;
+        update({ savesInFlight: values.savesInFlight + 1 });
+        void persistResult
+          .catch((e: unknown) => {
+            const error = e instanceof Error ? e : new Error(String(e));
+            const errorType = detectErrorType(error);
+            handleError(errorType, error.message, error);
+          })
+          .then(() => {
+            writesInFlight -= 1;
+            update({ savesInFlight: values.savesInFlight - 1 });
+          });
+      }
+    } catch (e) {
+      const error = e instanceof Error ? e : new Error(String(e));
+      const errorType = detectErrorType(error);
+      handleError(errorType, error.message, error);
+    }
+  };
+
+  // Debounced save controller (the debounce window feeds the save status)
+  const createController = () =>
+    createSaveController(
+      saveToStorage,
+      currentOptions.debounce ?? 500,
+      currentOptions.throttle,
+      (pending) => {
+        update({ pendingSince: pending ? Date.now() : null });
+      }
+    );
+  let saveController = createController();
+
+  // Write the current state synchronously to localStorage when an asynchronous
+  // write may not finish before the page goes away
+  const writeEmergencyCopy = (): void => {
+    const pipeline = emergencyTransformer();
+    if (
+      !pipeline ||
+      !currentOptions.enabled ||
+      values.isPaused ||
+      holdSaves ||
+      !isStorageAvailable('localStorage')
+    ) {
+      return;
+    }
+
+    try {
+      const prepared = prepareForStorage(values.state);
+      if (!prepared) {
+        return;
+      }
+      localStorage.setItem(emergencyKey, pipeline.serialize(prepared.wrapped));
+      debugLog(debug(), 'Wrote emergency copy:', emergencyKey);
+    } catch {
+      // Best effort: the page is going away and there is nobody to report to
+    }
+  };
+
+  // Read the emergency copy (if any)
+  const readEmergencyCopy = (): PersistedData<unknown> | null => {
+    const pipeline = emergencyTransformer();
+    if (!pipeline || !isStorageAvailable('localStorage')) {
+      return null;
+    }
+
+    try {
+      const raw = localStorage.getItem(emergencyKey);
+      if (raw === null) {
+        return null;
+      }
+
+      const parsed = pipeline.deserialize(raw);
+      if (!isValidPersistedData<unknown>(parsed) || isExpired(parsed)) {
+        return null;
+      }
+      return parsed;
+    } catch /* istanbul ignore next -- @preserve Defensive error handling */ {
+      return null;
+    }
+  };
+
+  const removeEmergencyCopy = (): void => {
+    if (emergencyTransformer() && isStorageAvailable('localStorage')) {
+      localStorage.removeItem(emergencyKey);
+    }
+  };
+
+  // Load from storage (once, when the first listener subscribes or the store is enabled)
+  const load = (): void => {
+    if (isSSR() || !currentOptions.enabled || loaded) {
+      return;
+    }
+    loaded = true;
+
+    const { version, migrate, migrations, downgrade, restore: restoreMode } = currentOptions;
+    const source = storage();
+    const pipeline = transformer();
+
+    const loadFromStorage = async () => {
+      try {
+        // Emergency copy written while the page was hidden with a write still in flight
+        const emergency = readEmergencyCopy();
+        const primaryRaw = await source.getItem(fullKey);
+        const hasPrimary = typeof primaryRaw === 'string' && primaryRaw !== '';
+        if (!hasPrimary && !emergency) {
+          debugLog(debug(), 'No stored data found for:', fullKey);
+          return;
+        }
+
+        let persisted = emergency;
+        if (typeof primaryRaw === 'string' && primaryRaw !== '') {
+          const partitionManifest = parsePartitionManifest(primaryRaw);
+          let raw = primaryRaw;
+
+          if (partitionManifest) {
+            let reconstructed = '';
+            for (let i = 0; i < partitionManifest.count; i++) {
+              const chunk = await source.getItem(getPartitionKey(i));
+              if (!chunk || typeof chunk !== 'string') {
+                handleError('CORRUPTED_DATA', 'Missing partition chunk');
+                return;
+              }
+              reconstructed += chunk;
+            }
+            raw = reconstructed;
+          }
+
+          // Deserialize (and decrypt when encryption is enabled)
+          const deserialized = pipeline.deserialize(raw);
+          const parsed = isPromiseLike<PersistedData<unknown> | null>(deserialized)
+            ? await deserialized
+            : deserialized;
+
+          if (!parsed) {
+            handleError('CORRUPTED_DATA', 'Failed to parse stored data');
+            return;
+          }
+
+          // Validate structure
+          if (!isValidPersistedData<unknown>(parsed)) {
+            handleError('CORRUPTED_DATA', 'Invalid data structure');
+            return;
+          }
+
+          const stored = parsed as PersistedData<unknown>;
+
+          // Check expiration
+          if (isExpired(stored)) {
+            debugLog(debug(), 'Stored data expired, clearing');
+            const removeOps: Array<void | Promise<void>> = [source.removeItem(fullKey)];
+            if (partitionManifest) {
+              for (let i = 0; i < partitionManifest.count; i++) {
+                removeOps.push(source.removeItem(getPartitionKey(i)));
+              }
+            }
+            if (removeOps.some((op) => isPromiseLike<void>(op))) {
+              await Promise.all(removeOps.map((op) => Promise.resolve(op)));
+            }
+          } else if (!emergency || stored.timestamp >= emergency.timestamp) {
+            persisted = stored;
+          }
+        }
+
+        if (!persisted) {
+          return;
+        }
+
+        // Migrate if needed (step by step, or downgrade policy for newer data)
+        const migration = runMigrations<T>(persisted.data, persisted.version, version ?? 1, {
+          migrations,
+          migrate,
+          downgrade,
+        });
+
+        if (migration.status === 'discarded') {
+          debugLog(debug(), `Discarding stored data with version ${migration.from}:`, fullKey);
+          return;
+        }
+
+        if (migration.status === 'failed') {
+          handleError('MIGRATION_FAILED', migration.message, migration.error, {
+            from: migration.from,
+            to: migration.to,
+          });
+          return;
+        }
+
+        lastPersisted = { ...persisted, data: migration.data };
+
+        // Merge with initial state, ignoring stored values for filtered-out fields
+        const mergedData = mergeFn()(
+          restoreFilteredFields(migration.data as T, initialState, fieldFilters()),
+          initialState
+        );
+        // Drafts restored later keep the emergency copy until they are accepted or discarded
+        if (emergency && (persisted !== emergency || (restoreMode ?? 'auto') === 'auto')) {
+          removeEmergencyCopy();
+        }
+
+        // Offer the draft instead of restoring it
+        if ((restoreMode ?? 'auto') !== 'auto') {
+          const draft = {
+            data: mergedData,
+            savedAt: persisted.timestamp,
+            version: persisted.version,
+          };
+          holdSaves = restoreMode === 'prompt';
+          update({ pendingDraft: draft, isPersisted: true, lastSaved: persisted.timestamp });
+          debugLog(debug(), 'Found draft in storage:', fullKey);
+          return;
+        }
+
+        syncManager?.setSyncedData(mergedData, persisted.clock);
+
+        // Update state
+        update({
+          state: mergedData,
+          isPersisted: true,
+          isRestored: true,
+          lastSaved: persisted.timestamp,
+          settledState: mergedData,
+        });
+
+        if (historyOptions().enabled) {
+          updateHistory((manager) => manager.reset(mergedData));
+          void restoreHistory(mergedData);
+        }
+
+        // Write recovered changes through to the configured storage
+        if (persisted === emergency) {
+          saveController.save(mergedData);
+          debugLog(debug(), 'Recovered emergency copy:', emergencyKey);
+        }
+
+        // Call onRestore callback
+        currentOptions.onRestore?.(mergedData);
+        debugLog(debug(), 'Restored from storage:', fullKey);
+      } catch (e) /* istanbul ignore next -- @preserve Defensive error handling */ {
+        const error = e instanceof Error ? e : new Error(String(e));
+        handleError(
+          isDecryptionError(error) ? 'DECRYPTION_FAILED' : 'UNKNOWN',
+          error.message,
+          error
+        );
+      }
+    };
+
+    void loadFromStorage();
+  };
+
+  // Sync state across tabs when enabled
+  const startSync = (): void => {
+    const syncOptions = getSyncOptions(currentOptions.sync);
+    if (isSSR() || !syncOptions.enabled) {
+      return;
+    }
+
+    // Callbacks are read when called, so changing them does not restart sync
+    const manager = new SyncManager<T>(fullKey, {
+      enabled: true,
+      channel: syncOptions.channel,
+      strategy: syncOptions.strategy,
+      conflictResolver: syncOptions.conflictResolver,
+      onSync: (data, source) => getSyncOptions(currentOptions.sync).onSync?.(data, source),
+      onConflict: (next) => getSyncOptions(currentOptions.sync).onConflict?.(next),
+      // Never broadcast fields that are not persisted
+      beforeBroadcast: (data) => {
+        const filtered = applyFieldFilters(data, fieldFilters()) as T;
+        const { beforeBroadcast } = getSyncOptions(currentOptions.sync);
+        return beforeBroadcast ? beforeBroadcast(filtered) : filtered;
+      },
+    });
+    syncManager = manager;
+    manager.setSyncedData(values.state);
+
+    // Show held updates the way they would be applied
+    manager.onConflict((next) => {
+      update({
+        conflict: next && {
+          ...next,
+          remote: mergeFn()(
+            restoreFilteredFields(next.remote as Partial<T>, next.local, fieldFilters()),
+            initialState
+          ),
+        },
+      });
+    });
+
+    manager.onSync((incomingData, source) => {
+      if (incomingData === undefined) {
+        lastPersisted = null;
+        update({
+          state: initialState,
+          isPersisted: false,
+          lastSaved: null,
+          size: 0,
+          settledState: initialState,
+        });
+        if (historyOptions().enabled) {
+          updateHistory((manager) => manager.reset(initialState));
+        }
+        debugLog(debug(), `Cleared from ${source}:`, fullKey);
+        return;
+      }
+
+      // Keep local values for fields that are never broadcast
+      const nextState = mergeFn()(
+        restoreFilteredFields(incomingData as Partial<T>, values.state, fieldFilters()),
+        initialState
+      );
+
+      if (isEqual(nextState, values.state)) {
+        return;
+      }
+
+      manager.setLocalData(nextState);
+      lastPersisted = wrapWithMetadata(
+        applyFieldFilters(nextState, fieldFilters()),
+        currentOptions.version ?? 1,
+        currentOptions.expiration
+      );
+      update({
+        state: nextState,
+        isPersisted: true,
+        lastSaved: Date.now(),
+        settledState: nextState,
+      });
+
+      // A field-level merge may keep local fields the sender did not store
+      if (syncOptions.strategy === 'merge' && !syncOptions.conflictResolver) {
+        saveController.save(nextState);
+      }
+
+      if (historyOptions().enabled) {
+        updateHistory((manager) => manager.push(nextState));
+      }
+
+      debugLog(debug(), `Synced from ${source}:`, fullKey);
+    });
+
+    manager.requestSync();
+  };
+
+  const stopSync = (): void => {
+    if (!syncManager) return;
+    syncManager.destroy();
+    syncManager = null;
+    if (values.conflict) {
+      update({ conflict: null });
+    }
+  };
+
+  // Flush on page lifecycle events
+  const handleFlush = (event: Event): void => {
+    if (event.type === 'visibilitychange' && document.visibilityState !== 'hidden') {
+      return;
+    }
+    saveController.flush();
+    if (writesInFlight > 0) {
+      writeEmergencyCopy();
+    }
+  };
+  let flushEvents: string[] = [];
+
+  const listenFlushEvents = (): void => {
+    if (isSSR()) return;
+    flushEvents = [...(currentOptions.flushOn ?? [])];
+    for (const type of flushEvents) {
+      const target = type === 'visibilitychange' ? document : window;
+      target.addEventListener(type, handleFlush);
+    }
+  };
+
+  const unlistenFlushEvents = (): void => {
+    for (const type of flushEvents) {
+      const target = type === 'visibilitychange' ? document : window;
+      target.removeEventListener(type, handleFlush);
+    }
+    flushEvents = [];
+  };
+
+  const start = (): void => {
+    started = true;
+    load();
+    startSync();
+    listenFlushEvents();
+  };
+
+  const stop = (): void => {
+    started = false;
+    saveController.flush();
+    stopSync();
+    unlistenFlushEvents();
+  };
+
+  // Push a change to history, merging it into the newest entry when it comes
+  // inside the coalesce window
+  const pushHistory = (previous: T, next: T, label?: string): void => {
+    const { coalesceMs, coalesceBy, shouldCoalesce } = historyOptions();
+    const now = Date.now();
+    const paths = diffPaths(previous, next);
+    const last = lastHistoryChange;
+
+    const coalesce =
+      last !== null &&
+      coalesceMs > 0 &&
+      now - last.at <= coalesceMs &&
+      (shouldCoalesce
+        ? shouldCoalesce(previous, next)
+        : coalesceBy === 'all' ||
+          (paths.length === last.paths.length &&
+            paths.every((path) => last.paths.includes(path))));
+
+    updateHistory((manager) => {
+      // Only the entry created by the previous change can absorb this one
+      const index = manager.index;
+      if (coalesce && last?.index === index && index > 0 && !manager.canRedo) {
+        const merged = manager.getEntries()[index];
+        manager.amend(next, {
+          timestamp: now,
+          ...((label ?? merged.label) !== undefined && { label: label ?? merged.label }),
+          changedFields: Array.from(new Set([...merged.changedFields, ...paths])),
+        });
+      } else {
+        manager.push(next, { label });
+      }
+    });
+    lastHistoryChange = { at: now, paths, index: historyManager.index };
+  };
+
+  const setState: FormPersistSetState<T> = (action, setStateOptions) => {
+    const prevState = values.state;
+    const newState =
+      typeof action === 'function' ? (action as (prev: T) => T)(prevState) : action;
+
+    // Update history if enabled (transactions push once, on commit)
+    if (historyOptions().enabled && transactionDepth === 0) {
+      pushHistory(prevState, newState, setStateOptions?.label);
+    }
+
+    syncManager?.setLocalData(newState);
+    update({ state: newState });
+
+    // Schedule save
+    saveController.save(newState);
+  };
+
+  // Change the value at a path with one setState call (one history entry);
+  // nothing happens when the value stays the same
+  // Mark fields as touched (one update for all the new ones)
+  const touch = (paths: string[]): void => {
+    const added = paths.filter((path) => !values.touched[path]);
+    if (added.length > 0) {
+      const touched = { ...values.touched };
+      added.forEach((path) => {
+        touched[path] = true;
+      });
+      update({ touched });
+    }
+  };
+
+  const updatePath = (
+    path: string,
+    change: (previous: unknown) => unknown,
+    setStateOptions?: SetStateOptions
+  ): void => {
+    const previous = getPathValue(values.state, path);
+    const next = change(previous);
+    if (!Object.is(previous, next)) {
+      setState(setPathValue(values.state, path, next), setStateOptions);
+      touch([path]);
+    }
+  };
+
+  const commitTransaction = (commitOptions?: SetStateOptions): void => {
+    if (transactionDepth === 0) return;
+    transactionDepth -= 1;
+    if (transactionDepth > 0 || !historyOptions().enabled) return;
+
+    lastHistoryChange = null;
+    const current = values.state;
+    if (!isEqual(historyManager.current, current)) {
+      updateHistory((manager) => manager.push(current, { label: commitOptions?.label }));
+    }
+  };
+
+  // Clear storage (a pending save would write the cleared data back)
+  const clear = (): void => {
+    saveController.cancel();
+    // The cleared state counts as handled (e.g. submitted), not as unsaved
+    const clearedState = values.state;
+    try {
+      const target = storage();
+      const targetHistory = historyStorage();
+
+      const removeStoredData = (existingRaw: string | null): void | Promise<void> => {
+        const manifest = existingRaw ? parsePartitionManifest(existingRaw) : null;
+        const removeOps: Array<void | Promise<void>> = [target.removeItem(fullKey)];
+        if (targetHistory) {
+          removeOps.push(targetHistory.removeItem(historyKey));
+        }
+        removeEmergencyCopy();
+
+        if (manifest) {
+          for (let i = 0; i < manifest.count; i++) {
+            removeOps.push(target.removeItem(getPartitionKey(i)));
+          }
+        }
+
+        if (removeOps.some((op) => isPromiseLike<void>(op))) {
+          return Promise.all(removeOps.map((op) => Promise.resolve(op))).then(() => undefined);
+        }
+      };
+
+      const commitClear = () => {
+        lastPersisted = null;
+        syncManager?.broadcastClear();
+        update({
+          isPersisted: false,
+          lastSaved: null,
+          size: 0,
+          lastError: null,
+          settledStatus: 'idle',
+          settledState: clearedState,
+        });
+        debugLog(debug(), 'Cleared storage:', fullKey);
+      };
+
+      const existingRaw = target.getItem(fullKey);
+      const removeResult = isPromiseLike<string | null>(existingRaw)
+        ? existingRaw.then((raw) => removeStoredData(typeof raw === 'string' ? raw : null))
+        : removeStoredData(typeof existingRaw === 'string' ? existingRaw : null);
+
+      if (isPromiseLike<void>(removeResult)) {
+        void removeResult
+          .then(() => {
+            commitClear();
+          })
+          .catch((e: unknown) => {
+            const error = e instanceof Error ? e : new Error(String(e));
+            handleError('UNKNOWN', error.message, error);
+          });
+        return;
+      }
+
+      commitClear();
+    } catch (e) /* istanbul ignore next -- @preserve Defensive error handling */ {
+      const error = e instanceof Error ? e : new Error(String(e));
+      handleError('UNKNOWN', error.message, error);
+    }
+  };
+
+  // Restore the pending draft
+  const acceptDraft = (): void => {
+    const draft = values.pendingDraft;
+    if (!draft) {
+      return;
+    }
+
+    holdSaves = false;
+    syncManager?.setSyncedData(draft.data);
+    update({ pendingDraft: null, state: draft.data, isRestored: true, settledState: draft.data });
+
+    if (historyOptions().enabled) {
+      updateHistory((manager) => manager.reset(draft.data));
+      void restoreHistory(draft.data);
+    }
+
+    // Storage may hold newer saves (manual mode) or only the emergency copy
+    saveController.save(draft.data);
+    removeEmergencyCopy();
+
+    currentOptions.onRestore?.(draft.data);
+    debugLog(debug(), 'Restored draft:', fullKey);
+  };
+
+  // Drop the pending draft and remove it from storage
+  const discardDraft = (): void => {
+    if (!values.pendingDraft) {
+      return;
+    }
+
+    holdSaves = false;
+    update({ pendingDraft: null });
+    clear();
+
+    // Keep changes made while the draft was pending
+    if (!isEqual(values.state, initialState)) {
+      saveController.save(values.state);
+    }
+    debugLog(debug(), 'Discarded draft:', fullKey);
+  };
+
+  // Resolve a sync conflict and tell the other tabs about the outcome
+  const resolveConflict = (resolution: ConflictResolution<T>): void => {
+    const manager = syncManager;
+    if (!manager?.getConflict()) return;
+
+    if (resolution === 'remote') {
+      // Applied through the sync callback; persist it since local saves may have overwritten it
+      manager.resolveConflict('remote');
+      saveController.save(values.state);
+      return;
+    }
+
+    if (resolution === 'local') {
+      manager.resolveConflict('local');
+      saveController.save(values.state);
+      return;
+    }
+
+    manager.resolveConflict(resolution);
+    setState(resolution as T);
+  };
+
+  // Move to a history entry (undo, redo and the DevTools timeline)
+  const goTo = (index: number): void => {
+    if (
+      !historyOptions().enabled ||
+      index < 0 ||
+      index >= historyManager.length ||
+      index === historyManager.index
+    ) {
+      return;
+    }
+    const target = updateHistory((manager) => manager.goTo(index));
+    update({ state: target });
+    syncManager?.setLocalData(target);
+    saveController.save(target);
+  };
+
+  // Drop the undo/redo history, keeping the current state
+  const clearHistory = (): void => {
+    updateHistory((manager) => manager.reset(values.state));
+    const target = historyStorage();
+    if (target) {
+      try {
+        void Promise.resolve(target.removeItem(historyKey)).catch(() => {});
+      } catch {
+        // Synchronous adapters throw instead of rejecting; the next save overwrites it
+      }
+    }
+  };
+
+  // Get persisted value without triggering restore
+  const getPersistedValue = (): T | null => {
+    if (isSSR()) return null;
+
+    // Storage that can only be read asynchronously: use the value kept in memory
+    const readLastPersisted = (): T | null =>
+      lastPersisted && !isExpired(lastPersisted)
+        ? (applyFieldFilters(lastPersisted.data as T, fieldFilters()) as T)
+        : null;
+
+    if (needsAsyncTransform(currentOptions.compress, currentOptions.encryption)) {
+      return readLastPersisted();
+    }
+
+    try {
+      const source = storage();
+      const raw = source.getItem(fullKey);
+      if (isPromiseLike<string | null>(raw)) {
+        return readLastPersisted();
+      }
+
+      if (!raw || typeof raw !== 'string') return null;
+
+      const manifest = parsePartitionManifest(raw);
+      let payload = raw;
+
+      if (manifest) {
+        let reconstructed = '';
+        for (let i = 0; i < manifest.count; i++) {
+          const chunk = source.getItem(getPartitionKey(i));
+          if (isPromiseLike<string | null>(chunk) || !chunk || typeof chunk !== 'string') {
+            return null;
+          }
+          reconstructed += chunk;
+        }
+        payload = reconstructed;
+      }
+
+      const parsed = transformer().deserialize(payload);
+      /* istanbul ignore if -- @preserve Async transforms are handled above */
+      if (isPromiseLike<PersistedData<unknown> | null>(parsed)) return readLastPersisted();
+      if (!parsed || !isValidPersistedData<unknown>(parsed)) return null;
+      if (isExpired(parsed)) return null;
+
+      return applyFieldFilters(parsed.data as T, fieldFilters()) as T;
+    } catch {
+      /* istanbul ignore next -- @preserve Defensive error handling */
+      return null;
+    }
+  };
+
+  // Apply new options, restarting what depends on the changed ones
+  const setOptions = (nextOptions: FormPersistOptions<T>): void => {
+    const previous = currentOptions;
+    currentOptions = { ...DEFAULT_OPTIONS, ...nextOptions } as FormPersistOptions<T>;
+
+    if (
+      currentOptions.debounce !== previous.debounce ||
+      currentOptions.throttle !== previous.throttle
+    ) {
+      saveController.flush();
+      saveController = createController();
+    }
+
+    // The history flags depend on the options
+    if (historyOptions().enabled !== getHistoryOptions(previous.history).enabled) {
+      update({});
+    }
+
+    if (!started) return;
+
+    const previousSync = getSyncOptions(previous.sync);
+    const nextSync = getSyncOptions(currentOptions.sync);
+    if (
+      nextSync.enabled !== previousSync.enabled ||
+      nextSync.channel !== previousSync.channel ||
+      nextSync.strategy !== previousSync.strategy ||
+      nextSync.conflictResolver !== previousSync.conflictResolver
+    ) {
+      stopSync();
+      startSync();
+    }
+
+    if ((currentOptions.flushOn ?? []).join(',') !== flushEvents.join(',')) {
+      unlistenFlushEvents();
+      listenFlushEvents();
+    }
+
+    load();
+  };
+
+  return {
+    key: fullKey,
+    getState: () => values.state,
+    setState,
+    getSnapshot: () => snapshot,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      if (!started) {
+        start();
+      }
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0 && started) {
+          stop();
+        }
+      };
+    },
+    flush: () => {
+      saveController.flush();
+    },
+    forceSave: () => {
+      saveController.flush();
+      saveToStorage(values.state);
+    },
+    clear,
+    pause: () => {
+      update({ isPaused: true });
+      saveController.cancel();
+    },
+    resume: () => {
+      update({ isPaused: false });
+    },
+    undo: () => {
+      goTo(historyManager.index - 1);
+    },
+    redo: () => {
+      goTo(historyManager.index + 1);
+    },
+    beginTransaction: () => {
+      transactionDepth += 1;
+    },
+    commitTransaction,
+    goTo,
+    clearHistory,
+    getHistory: (): HistorySnapshot<T> => ({
+      states: historyManager.getAll(),
+      entries: historyManager.getEntries(),
+      index: historyManager.index,
+    }),
+    // Reset to initial state
+    reset: () => {
+      update({ state: initialState, touched: {} });
+      updateHistory((manager) => manager.reset(initialState));
+      clear();
+    },
+    getPersistedValue,
+    // Revert to last saved state
+    revert: () => {
+      const persisted = getPersistedValue();
+      if (persisted) {
+        syncManager?.setLocalData(persisted);
+        update({ state: persisted, settledState: persisted });
+      }
+    },
+    resolveConflict,
+    acceptDraft,
+    discardDraft,
+    touch: (path) => touch([path]),
+    // Only fields the user changed or left count, not restored or synced values
+    isFieldDirty: (path) =>
+      isPathTouched(values.touched, path) &&
+      !isEqual(getPathValue(values.state, path), getPathValue(initialState, path)),
+    setField: (path, value, setStateOptions) => {
+      updatePath(path, () => value, setStateOptions);
+    },
+    // Like setField, fields that keep their value are skipped
+    setFields: (fields, setStateOptions) => {
+      const next = Object.entries(fields).reduce<T>(
+        (state, [path, value]) =>
+          Object.is(getPathValue(state, path), value) ? state : setPathValue(state, path, value),
+        values.state
+      );
+      if (next !== values.state) {
+        setState(next, setStateOptions);
+        touch(Object.keys(fields));
+      }
+    },
+    append: (path, item, setStateOptions) => {
+      updatePath(path, (list) => listChanges.insert(list, Infinity, item), setStateOptions);
+    },
+    insert: (path, index, item, setStateOptions) => {
+      updatePath(path, (list) => listChanges.insert(list, index, item), setStateOptions);
+    },
+    remove: (path, index, setStateOptions) => {
+      updatePath(path, (list) => listChanges.remove(list, index), setStateOptions);
+    },
+    move: (path, from, to, setStateOptions) => {
+      updatePath(path, (list) => listChanges.move(list, from, to), setStateOptions);
+    },
+    replace: (path, index, item, setStateOptions) => {
+      updatePath(path, (list) => listChanges.replace(list, index, item), setStateOptions);
+    },
+    setOptions,
+  };
+}
@@ -12,7 +12,7 @@
 /**
  * Supported storage types for persisting form data
  */
-export type StorageType = 'localStorage' | 'sessionStorage' | 'memory';
+export type StorageType = 'localStorage' | 'sessionStorage' | 'memory' | 'indexedDB';
 
 /**
  * Custom storage adapter interface
@@ -36,6 +36,172 @@ export interface StorageAdapter {
   removeItem(key: string): void | Promise<void>;
 }
 
+/**
+ * Options for the IndexedDB storage adapter
+ */
+export interface IndexedDBStorageOptions {
+  /**
+   * Name of the IndexedDB database
+   * @default 'react-form-autosave'
+   */
+  dbName?: string;
+  /**
+   * Name of the object store holding the persisted forms
+   * @default 'forms'
+   */
+  storeName?: string;
+  /**
+   * IDBFactory to open the database with (defaults to the global indexedDB)
+   * Useful for tests with an in-memory IndexedDB implementation
+   */
+  indexedDB?: IDBFactory;
+}
+
+/**
+ * Storage adapter backed by IndexedDB
+ * All operations are asynchronous. Besides the string based StorageAdapter API,
+ * structured values can be stored natively through getValue/setValue.
+ */
+export interface IndexedDBStorageAdapter extends StorageAdapter {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  /** Retrieve a structured value as it was stored */
+  getValue<V = unknown>(key: string): Promise<V | null>;
+  /** Store a structured value using the structured clone algorithm */
+  setValue(key: string, value: unknown): Promise<void>;
+  /** Close the underlying database connection */
+  close(): void;
+}
+
+/**
+ * Values treated as leaves when generating field paths
+ */
+type PathLeaf =
+  | string
+  | number
+  | boolean
+  | bigint
+  | symbol
+  | null
+  | undefined
+  | Date
+  | ((...args: never[]) => unknown);
+
+/**
+ * Decrementing depth counter limiting path recursion
+ */
+type PathDepth = [never, 0, 1, 2, 3, 4, 5];
+
+/**
+ * Paths below a key, depending on the value type
+ */
+type ChildPath<K extends string, V, D extends number> = V extends PathLeaf
+  ? K
+  : V extends ReadonlyArray<infer Item>
+    ?
+        | K
+        | `${K}[*]`
+        | `${K}[${number}]`
+        | (Item extends PathLeaf
+            ? never
+            : `${K}[*].${FieldPath<Item, D>}` | `${K}[${number}].${FieldPath<Item, D>}`)
+    : K | `${K}.${FieldPath<V, D>}`;
+
+/**
+ * Dot/bracket path expressions for the fields of T, used for autocompletion
+ * Array items are addressed with `[index]` or the `[*]` wildcard.
+ *
+ * @example
+ * ```typescript
+ * type Paths = FieldPath<{ payment: { cardNumber: string }; applicants: { ssn: string }[] }>;
+ * // 'payment' | 'payment.cardNumber' | 'applicants' | 'applicants[*]' | 'applicants[*].ssn' | ...
+ * ```
+ */
+export type FieldPath<T, D extends number = 5> = [D] extends [never]
+  ? never
+  : T extends PathLeaf
+    ? never
+    : {
+        [K in keyof T & string]-?: ChildPath<K, NonNullable<T[K]>, PathDepth[D]>;
+      }[keyof T & string];
+
+/**
+ * Declared fields of a type, without its index signature
+ * (`interface Form extends Record<string, unknown>` would widen every path to string)
+ */
+type DeclaredFields<T> = {
+  [K in keyof T as string extends K ? never : number extends K ? never : K]: T[K];
+};
+
+/**
+ * Field paths that can be written (FieldPath without `[*]` wildcards)
+ * Falls back to string for types without declared fields.
+ */
+export type SettablePath<T> = [keyof DeclaredFields<T>] extends [never]
+  ? string
+  : Exclude<FieldPath<DeclaredFields<T>>, `${string}[*]${string}`>;
+
+/**
+ * Type without null and undefined (unknown stays unknown)
+ */
+type Defined<V> = unknown extends V ? unknown : NonNullable<V>;
+
+/**
+ * Item type of an array type
+ */
+type ArrayItem<A> = unknown extends A ? unknown : A extends ReadonlyArray<infer Item> ? Item : never;
+
+/**
+ * Type of the value at a field path
+ *
+ * @example
+ * ```typescript
+ * type City = PathValue<{ contacts: { city: string }[] }, 'contacts[0].city'>; // string
+ * ```
+ */
+export type PathValue<T, P extends string> = unknown extends T
+  ? unknown
+  : P extends `${infer Key}.${infer Rest}`
+    ? Key extends `${infer Base}[${string}]`
+      ? Base extends keyof T
+        ? PathValue<ArrayItem<Defined<T[Base]>>, Rest>
+        : never
+      : Key extends keyof T
+        ? PathValue<Defined<T[Key]>, Rest>
+        : never
+    : P extends `${infer Base}[${string}]`
+      ? Base extends keyof T
+        ? ArrayItem<Defined<T[Base]>>
+        : never
+      : P extends keyof T
+        ? T[P]
+        : never;
+
+/**
+ * Field paths holding arrays
+ */
+export type ArrayPath<T> =
+  string extends SettablePath<T>
+    ? string
+    : SettablePath<T> extends infer P
+      ? P extends string
+        ? Defined<PathValue<T, P>> extends ReadonlyArray<unknown>
+          ? P
+          : never
+        : never
+      : never;
+
+/**
+ * Item type of the array at a field path
+ */
+export type ArrayPathItem<T, P extends string> = ArrayItem<Defined<PathValue<T, P>>>;
+
+/**
+ * Values keyed by field path (see setFields)
+ */
+export type FieldValues<T> = { [P in SettablePath<T>]?: PathValue<T, P> };
+
 /**
  * Merge strategies for combining stored data with initial state
  */
@@ -60,11 +226,70 @@ export interface TransformOptions<T> {
   deserialize?: (data: string) => T;
 }
 
+/**
+ * Supported encryption algorithms
+ */
+export type EncryptionAlgorithm = 'AES-GCM';
+
+/**
+ * Encryption configuration for persisted data
+ * The serialized envelope is encrypted with a random IV per write and
+ * authenticated, so tampering or a wrong key is detected on restore.
+ */
+export interface EncryptionOptions {
+  /** AES key, or a function resolving it (e.g. derived from a server secret) */
+  key: CryptoKey | (() => Promise<CryptoKey>);
+  /**
+   * Encryption algorithm
+   * @default 'AES-GCM'
+   */
+  algorithm?: EncryptionAlgorithm;
+}
+
 /**
  * Sync strategy for handling conflicts between tabs
+ * - `latest-wins`: the latest update replaces the whole form
+ * - `merge`: field-level merge, keeping the latest write of each field
+ * - `ask-user`: conflicting updates are held until the user resolves them
  */
 export type SyncStrategy = 'latest-wins' | 'merge' | 'ask-user';
 
+/**
+ * Conflicting update from another tab, held until it is resolved (`ask-user` strategy)
+ */
+export interface SyncConflict<T> {
+  /** Local state when the conflict was detected */
+  local: T;
+  /** Latest data received from the other tab */
+  remote: T;
+  /** Id of the tab that sent the update (null for storage events) */
+  remoteTabId: string | null;
+  /** When the latest remote update was received */
+  receivedAt: number;
+}
+
+/**
+ * Last write of a single field
+ */
+export interface FieldClockEntry {
+  /** Modification timestamp */
+  at: number;
+  /** Tab that made the change (breaks ties between equal timestamps) */
+  tabId: string;
+}
+
+/**
+ * Per-field modification clock keyed by field path (e.g. `address.city`)
+ * Used by the `merge` sync strategy to merge concurrent edits field by field.
+ */
+export type FieldClock = Record<string, FieldClockEntry>;
+
+/**
+ * How to resolve a sync conflict: keep the local data, take the remote data,
+ * or use merged data
+ */
+export type ConflictResolution<T> = 'local' | 'remote' | T;
+
 /**
  * Sync configuration options
  */
@@ -79,16 +304,152 @@ export interface SyncOptions<T> {
   conflictResolver?: (local: T, remote: T) => T;
   /** Callback when sync event is received */
   onSync?: (data: T, source: 'storage' | 'broadcast') => void;
+  /** Callback when a conflicting update is held for the user (`ask-user` strategy) */
+  onConflict?: (conflict: SyncConflict<T>) => void;
+  /** Transform data before it is sent to other tabs (e.g. to strip sensitive fields) */
+  beforeBroadcast?: (data: T) => T;
+}
+
+/**
+ * Metadata recorded with each history entry
+ */
+export interface HistoryEntry {
+  /** When the entry was recorded */
+  timestamp: number;
+  /** Label given with `setState(next, { label })` or `commitTransaction({ label })` */
+  label?: string;
+  /** Paths of the fields that changed from the previous entry */
+  changedFields: string[];
+}
+
+/**
+ * Options accepted by the setState function returned by useFormPersist
+ */
+export interface SetStateOptions {
+  /** Label of the history entry recorded for this change */
+  label?: string;
+}
+
+/**
+ * State setter returned by useFormPersist
+ * Accepts a value or an updater like React's setState, plus history options.
+ */
+export type FormPersistSetState<T> = (
+  action: React.SetStateAction<T>,
+  options?: SetStateOptions
+) => void;
+
+/**
+ * What consecutive changes must have in common to merge into one history entry
+ * - field: the same fields changed (e.g., typing in one input)
+ * - all: any changes
+ */
+export type HistoryCoalesceBy = 'field' | 'all';
+
+/**
+ * Undo/redo history of a form at a point in time
+ */
+export interface HistorySnapshot<T> {
+  /** States, oldest first */
+  states: T[];
+  /** Metadata of each state */
+  entries: HistoryEntry[];
+  /** Position of the current state */
+  index: number;
+}
+
+/**
+ * History implementation used by useFormPersist
+ * HistoryManager from `react-form-autosave/history` implements it; pass your
+ * own through the `historyManager` history option.
+ */
+export interface FormHistoryManager<T> {
+  /** State at the current position */
+  readonly current: T;
+  /** Current position */
+  readonly index: number;
+  /** Number of states */
+  readonly length: number;
+  /** Whether there is a state before the current one */
+  readonly canUndo: boolean;
+  /** Whether there is a state after the current one */
+  readonly canRedo: boolean;
+  /** Add a state after the current position */
+  push(state: T, options?: SetStateOptions): void;
+  /** Replace the current state and its metadata (coalesced changes) */
+  amend(state: T, meta: HistoryEntry): void;
+  /** Move back one state and return it */
+  undo(): T;
+  /** Move forward one state and return it */
+  redo(): T;
+  /** Move to a position and return its state */
+  goTo(index: number): T;
+  /** Drop every state and start again from one */
+  reset(state: T): void;
+  /** Replace the history with the given states (persisted history) */
+  load(states: T[], entries: Array<HistoryEntry | undefined>, index: number): void;
+  /** All states, oldest first */
+  getAll(): T[];
+  /** Metadata of each state */
+  getEntries(): HistoryEntry[];
 }
 
 /**
  * History configuration for undo/redo functionality
  */
-export interface HistoryOptions {
+export interface HistoryOptions<T = unknown> {
   /** Enable undo/redo history */
   enabled?: boolean;
   /** Maximum number of states to keep in history */
   maxHistory?: number;
+  /**
+   * Persist the history next to the draft so undo/redo survives reloads
+   * Stored under `<key>:history` with the same transform, compression,
+   * encryption and field filters as the draft.
+   */
+  persist?: boolean;
+  /** Storage backend for the persisted history (defaults to the form's storage) */
+  storage?: StorageType | StorageAdapter;
+  /**
+   * Maximum size of the history in bytes; the oldest states are dropped first
+   * @default 262144
+   */
+  maxBytes?: number;
+  /**
+   * Entries between full state checkpoints; the others store patches from the
+   * previous entry
+   * @default 10
+   */
+  checkpointInterval?: number;
+  /**
+   * Merge a change into the previous history entry when it comes within this
+   * many milliseconds of the previous change (0 disables coalescing)
+   * @default 0
+   */
+  coalesceMs?: number;
+  /**
+   * Changes that can merge inside the coalesce window
+   * @default 'field'
+   */
+  coalesceBy?: HistoryCoalesceBy;
+  /**
+   * Decide whether a change inside the coalesce window merges into the
+   * previous entry (replaces the `coalesceBy` rule)
+   * @param previous - State at the current history entry
+   * @param next - New state
+   */
+  shouldCoalesce?: (previous: T, next: T) => boolean;
+  /**
+   * Create the history implementation (replaces `maxHistory`, `maxBytes` and
+   * `checkpointInterval`, which configure the default HistoryManager)
+   * @param initialState - Initial state of the form
+   *
+   * @example
+   * ```typescript
+   * historyManager: (initial) => new HistoryManager(initial, 100, { mode: 'tree' })
+   * ```
+   */
+  historyManager?: (initialState: T) => FormHistoryManager<T>;
 }
 
 /**
@@ -99,8 +460,22 @@ export interface CompressionOptions {
   enabled?: boolean;
   /** Minimum size in bytes before compressing */
   threshold?: number;
+  /**
+   * Compression codec
+   * `deflate` uses CompressionStream and makes saving asynchronous; it falls back
+   * to `lz` when CompressionStream is not available.
+   * @default 'lz'
+   */
+  codec?: CompressionCodec;
 }
 
+/**
+ * Compression codec for persisted data
+ * - `lz`: synchronous LZ-family codec, works everywhere
+ * - `deflate`: asynchronous deflate-raw via CompressionStream
+ */
+export type CompressionCodec = 'lz' | 'deflate';
+
 /**
  * Partition configuration for large data sets
  */
@@ -119,6 +494,36 @@ export interface PartitionOptions {
  */
 export type MigrateFn<T> = (oldData: unknown, oldVersion: number) => T;
 
+/**
+ * Single migration step converting data from version `n - 1` to version `n`
+ * Declared with method syntax so each step can annotate its own input type.
+ */
+export type MigrationStep = {
+  bivarianceHack(data: unknown): unknown;
+}['bivarianceHack'];
+
+/**
+ * Migration steps keyed by the version they produce
+ *
+ * @example
+ * ```typescript
+ * const migrations: MigrationMap = {
+ *   2: (v1: FormV1): FormV2 => ({ ...v1, phone: '' }),
+ *   3: (v2: FormV2): FormV3 => ({ ...v2, fullName: `${v2.first} ${v2.last}` }),
+ * };
+ * ```
+ */
+export type MigrationMap = Record<number, MigrationStep>;
+
+/**
+ * What to do when stored data cannot be migrated: it has a newer version than
+ * the app, or an older one and neither `migrations` nor `migrate` is set
+ * - `discard`: ignore the stored data and start from the initial state
+ * - `keep-raw`: restore the stored data as-is
+ * - `error`: report a MIGRATION_FAILED error and do not restore
+ */
+export type DowngradePolicy = 'discard' | 'keep-raw' | 'error';
+
 /**
  * Error types that can occur during persistence operations
  */
@@ -129,6 +534,7 @@ export type PersistError =
   | 'PARSE_ERROR'
   | 'VALIDATION_FAILED'
   | 'MIGRATION_FAILED'
+  | 'DECRYPTION_FAILED'
   | 'UNKNOWN';
 
 /**
@@ -143,6 +549,48 @@ export interface PersistErrorInfo {
   message: string;
   /** The key that was being operated on */
   key: string;
+  /** Version step that failed (MIGRATION_FAILED only) */
+  migration?: { from: number; to: number };
+}
+
+/**
+ * Live status of the save pipeline
+ * - `idle`: nothing has been saved yet
+ * - `pending`: changes are waiting for the debounce window to close
+ * - `saving`: an asynchronous storage write is in flight
+ * - `saved`: the last write succeeded
+ * - `error`: the last operation failed (see `lastError`)
+ */
+export type SaveStatus = 'idle' | 'pending' | 'saving' | 'saved' | 'error';
+
+/**
+ * Page lifecycle events that flush pending saves immediately
+ * - `pagehide`: the page is being unloaded or put in the back/forward cache
+ * - `visibilitychange`: the page became hidden (tab switch, app switch on mobile)
+ * - `beforeunload`: the page is about to be unloaded
+ * - `blur`: the window lost focus
+ */
+export type FlushEvent = 'pagehide' | 'visibilitychange' | 'beforeunload' | 'blur';
+
+/**
+ * How a stored draft is restored on mount
+ * - `auto`: merge the draft into state immediately
+ * - `prompt`: expose it as `pendingDraft` and hold saves until it is accepted or discarded
+ * - `manual`: expose it as `pendingDraft` while saving continues; the draft stays
+ *   available in memory until accepted or discarded
+ */
+export type RestoreMode = 'auto' | 'prompt' | 'manual';
+
+/**
+ * Stored draft waiting for the user to accept or discard it
+ */
+export interface PendingDraft<T> {
+  /** Draft data, migrated and merged with the initial state */
+  data: T;
+  /** Timestamp when the draft was saved */
+  savedAt: number;
+  /** Schema version the draft was saved with */
+  version: number;
 }
 
 /**
@@ -167,6 +615,15 @@ export interface FormPersistOptions<T> {
    */
   throttle?: number;
 
+  /**
+   * Page lifecycle events that flush the pending save synchronously
+   * When the storage adapter is asynchronous and a write is still in flight,
+   * a synchronous emergency copy is written to localStorage and reconciled
+   * on the next restore. Pass an empty array to disable.
+   * @default ['pagehide', 'visibilitychange']
+   */
+  flushOn?: FlushEvent[];
+
   /**
    * Expiration time in minutes after which data is discarded
    */
@@ -174,17 +631,38 @@ export interface FormPersistOptions<T> {
 
   /**
    * Fields to exclude from persistence (e.g., passwords)
+   * Accepts top-level keys and nested paths such as `payment.cardNumber`
+   * or `applicants[*].ssn`
    * @default []
    */
-  exclude?: (keyof T)[];
+  exclude?: (keyof T | FieldPath<T>)[];
+
+  /**
+   * Allow-list of fields to persist; everything else stays in memory only
+   * Accepts the same path expressions as `exclude`, which is applied afterwards
+   */
+  include?: (keyof T | FieldPath<T>)[];
 
   /**
    * Transform functions for custom serialization/encryption
    */
   transform?: TransformOptions<T>;
 
+  /**
+   * Authenticated encryption of the persisted data using the Web Crypto API
+   * Saving and restoring become asynchronous when enabled
+   */
+  encryption?: EncryptionOptions;
+
+  /**
+   * How stored drafts are restored on mount
+   * @default 'auto'
+   */
+  restore?: RestoreMode;
+
   /**
    * Callback executed when data is restored from storage
+   * With `restore: 'prompt'` or `'manual'`, called when the draft is accepted
    */
   onRestore?: (data: T) => void;
 
@@ -212,9 +690,24 @@ export interface FormPersistOptions<T> {
 
   /**
    * Migration function for updating data from older schema versions
+   * Jumps straight to the current version. Prefer `migrations` for step-by-step upgrades.
    */
   migrate?: MigrateFn<T>;
 
+  /**
+   * Step-by-step migrations keyed by the version they produce
+   * Steps run in order from the stored version to `version`. When a step is missing,
+   * `migrate` is used for the remaining upgrade if provided; otherwise restore fails.
+   */
+  migrations?: MigrationMap;
+
+  /**
+   * Policy when stored data has a newer version than `version`, or an older
+   * one with neither `migrations` nor `migrate`
+   * @default 'keep-raw'
+   */
+  downgrade?: DowngradePolicy;
+
   /**
    * Compression options for large data
    */
@@ -228,7 +721,7 @@ export interface FormPersistOptions<T> {
   /**
    * History options for undo/redo support
    */
-  history?: boolean | HistoryOptions;
+  history?: boolean | HistoryOptions<T>;
 
   /**
    * Enable/disable persistence (useful for GDPR compliance)
@@ -322,6 +815,33 @@ export interface FormPersistActions<T> {
   /** Total number of states in history */
   historyLength: number;
 
+  /**
+   * Start a transaction: changes until the matching commitTransaction() form a
+   * single history entry (transactions can be nested)
+   */
+  beginTransaction: () => void;
+
+  /**
+   * Commit the current transaction as one history entry
+   * @param options - Label of the entry
+   */
+  commitTransaction: (options?: SetStateOptions) => void;
+
+  /** Metadata of each history entry (same order as the history) */
+  historyEntries: HistoryEntry[];
+
+  /**
+   * Move to a history entry (requires history enabled)
+   * @param index - Position in the history
+   */
+  goTo: (index: number) => void;
+
+  /** Drop the undo/redo history, keeping the current state */
+  clearHistory: () => void;
+
+  /** Get the states, entry metadata and position of the history */
+  getHistory: () => HistorySnapshot<T>;
+
   /**
    * Wrapper for form submit handlers that clears storage on success
    * @param handler - The original submit handler
@@ -332,17 +852,219 @@ export interface FormPersistActions<T> {
   /** Reset state to initial value and clear storage */
   reset: () => void;
 
-  /** Get the currently persisted value without triggering restore */
+  /**
+   * Get the currently persisted value without triggering restore
+   * With encryption, deflate or an asynchronous adapter, this is the value the
+   * store last saved, restored or received from another tab
+   */
   getPersistedValue: () => T | null;
 
   /** Whether current state differs from initial state */
   isDirty: boolean;
 
+  /**
+   * Whether leaving now would lose changes: a save is pending or in flight, or the
+   * state differs from the one last saved, restored, synced or cleared
+   */
+  hasUnsavedChanges: boolean;
+
   /** Current size of persisted data in bytes */
   size: number;
 
+  /**
+   * Compression ratio of the last save (uncompressed / stored length)
+   * null until a save has been compressed, or when the last save was stored uncompressed
+   */
+  compressionRatio: number | null;
+
   /** Revert to the last saved state */
   revert: () => void;
+
+  /** Current status of the save pipeline */
+  status: SaveStatus;
+
+  /**
+   * Conflicting update from another tab waiting to be resolved
+   * Only set with the `ask-user` sync strategy; further updates are held until resolved.
+   */
+  conflict: SyncConflict<T> | null;
+
+  /** Resolve the current sync conflict with local, remote or merged data */
+  resolveConflict: (resolution: ConflictResolution<T>) => void;
+
+  /**
+   * Stored draft found on mount that has not been restored yet
+   * Only set with `restore: 'prompt'` or `'manual'`.
+   */
+  pendingDraft: PendingDraft<T> | null;
+
+  /** Restore the pending draft into the form state */
+  acceptDraft: () => void;
+
+  /** Discard the pending draft and remove it from storage */
+  discardDraft: () => void;
+
+  /** Whether changes are waiting to be written or a write is in flight */
+  isSaving: boolean;
+
+  /** Last error reported by the hook, cleared by the next successful save */
+  lastError: PersistErrorInfo | null;
+
+  /** Timestamp when the current debounce window opened, or null when nothing is pending */
+  pendingSince: number | null;
+
+  /**
+   * Props that bind an input to a field of the state
+   * @param path - Field path (e.g. `address.city` or `items[0].name`)
+   * @param options - Input type, and the option value for radios and checkbox groups
+   *
+   * @example
+   * ```tsx
+   * <input {...actions.field('name')} />
+   * <input {...actions.field('newsletter', { type: 'checkbox' })} />
+   * <input {...actions.field('plan', { type: 'radio', value: 'pro' })} />
+   * ```
+   */
+  field: (
+    path: FieldPath<T> | (string & Record<never, never>),
+    options?: FieldOptions
+  ) => FieldProps;
+
+  /**
+   * Fields the user changed or left, keyed by path
+   * Set by the field helper (on change and blur) and by the field setters.
+   */
+  touched: Record<string, boolean>;
+
+  /**
+   * Whether a touched field differs from the initial state
+   * Restored, synced and setState values mark no field, so they only count
+   * once the field (or a parent or child path) is touched.
+   * @param path - Field path
+   */
+  isFieldDirty: (path: string) => boolean;
+
+  /**
+   * Set the value at a field path, as one history entry
+   * @param path - Field path (e.g. `address.city` or `items[0].name`)
+   * @param value - New value
+   * @param options - Label of the history entry
+   */
+  setField: <P extends SettablePath<T>>(
+    path: P,
+    value: PathValue<T, P>,
+    options?: SetStateOptions
+  ) => void;
+
+  /**
+   * Set the values at several field paths, as one history entry
+   * @param fields - Values keyed by field path
+   * @param options - Label of the history entry
+   */
+  setFields: (fields: FieldValues<T>, options?: SetStateOptions) => void;
+
+  /**
+   * Add an item at the end of an array field
+   * @param path - Path of the array
+   * @param item - Item to add
+   * @param options - Label of the history entry
+   */
+  append: <P extends ArrayPath<T>>(
+    path: P,
+    item: ArrayPathItem<T, P>,
+    options?: SetStateOptions
+  ) => void;
+
+  /**
+   * Insert an item into an array field (the index is clamped to the array)
+   * @param path - Path of the array
+   * @param index - Position of the new item
+   * @param item - Item to insert
+   * @param options - Label of the history entry
+   */
+  insert: <P extends ArrayPath<T>>(
+    path: P,
+    index: number,
+    item: ArrayPathItem<T, P>,
+    options?: SetStateOptions
+  ) => void;
+
+  /**
+   * Remove the item at an index of an array field
+   * @param path - Path of the array
+   * @param index - Position of the item
+   * @param options - Label of the history entry
+   */
+  remove: (path: ArrayPath<T>, index: number, options?: SetStateOptions) => void;
+
+  /**
+   * Move an item of an array field to another index
+   * @param path - Path of the array
+   * @param from - Current position of the item
+   * @param to - New position of the item
+   * @param options - Label of the history entry
+   */
+  move: (path: ArrayPath<T>, from: number, to: number, options?: SetStateOptions) => void;
+
+  /**
+   * Replace the item at an index of an array field
+   * @param path - Path of the array
+   * @param index - Position of the item
+   * @param item - New item
+   * @param options - Label of the history entry
+   */
+  replace: <P extends ArrayPath<T>>(
+    path: P,
+    index: number,
+    item: ArrayPathItem<T, P>,
+    options?: SetStateOptions
+  ) => void;
+}
+
+/**
+ * Input types supported by the field helper
+ * - text, textarea: string values
+ * - number: number values, and null when the input is empty (start optional
+ *   number fields at null so clearing them does not make the field dirty)
+ * - checkbox: a boolean, or an array of the checked values when `value` is given
+ * - radio: the `value` of the checked radio
+ * - select-multiple: an array of the selected values
+ */
+export type FieldType = 'text' | 'textarea' | 'number' | 'checkbox' | 'radio' | 'select-multiple';
+
+/**
+ * Options of the field helper
+ */
+export interface FieldOptions {
+  /**
+   * Type of the input
+   * @default 'text'
+   */
+  type?: FieldType;
+  /** Value of the radio, or of the checkbox in a checkbox group */
+  value?: string;
+}
+
+/**
+ * Props returned by the field helper, to spread on an input, textarea or select
+ */
+export interface FieldProps {
+  /** Field path */
+  name: string;
+  /** Input value (the option value for radios and checkbox groups) */
+  value?: string | number | string[];
+  /** Whether the checkbox or radio is checked */
+  checked?: boolean;
+  /** Input type (checkbox, radio and number) */
+  type?: 'checkbox' | 'radio' | 'number';
+  /** Set on multiple selects */
+  multiple?: boolean;
+  /** Write the input value to the state */
+  onChange: (
+    event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
+  ) => void;
+  /** Mark the field as touched */
+  onBlur: () => void;
 }
 
 /**
@@ -352,7 +1074,7 @@ export type UseFormPersistReturn<T> = [
   /** Current state */
   T,
   /** State setter function */
-  React.Dispatch<React.SetStateAction<T>>,
+  FormPersistSetState<T>,
   /** Actions object */
   FormPersistActions<T>
 ];
@@ -364,7 +1086,239 @@ export interface UseFormPersistReturnObject<T> extends FormPersistActions<T> {
   /** Current state */
   state: T;
   /** State setter function */
-  setState: React.Dispatch<React.SetStateAction<T>>;
+  setState: FormPersistSetState<T>;
+}
+
+/**
+ * Values of a form persist store at a point in time
+ * A new snapshot is created on every change, so snapshots can be compared by reference.
+ */
+export interface FormPersistStoreSnapshot<T>
+  extends Pick<
+    FormPersistActions<T>,
+    | 'isPersisted'
+    | 'isRestored'
+    | 'lastSaved'
+    | 'isPaused'
+    | 'canUndo'
+    | 'canRedo'
+    | 'historyIndex'
+    | 'historyLength'
+    | 'historyEntries'
+    | 'isDirty'
+    | 'hasUnsavedChanges'
+    | 'size'
+    | 'compressionRatio'
+    | 'status'
+    | 'conflict'
+    | 'pendingDraft'
+    | 'isSaving'
+    | 'lastError'
+    | 'pendingSince'
+    | 'touched'
+  > {
+  /** Current state */
+  state: T;
+}
+
+/**
+ * Framework-agnostic store behind useFormPersist (see createFormPersistStore)
+ */
+export interface FormPersistStore<T>
+  extends Pick<
+    FormPersistActions<T>,
+    | 'clear'
+    | 'forceSave'
+    | 'pause'
+    | 'resume'
+    | 'undo'
+    | 'redo'
+    | 'beginTransaction'
+    | 'commitTransaction'
+    | 'goTo'
+    | 'clearHistory'
+    | 'getHistory'
+    | 'reset'
+    | 'getPersistedValue'
+    | 'revert'
+    | 'resolveConflict'
+    | 'acceptDraft'
+    | 'discardDraft'
+    | 'isFieldDirty'
+    | 'setField'
+    | 'setFields'
+    | 'append'
+    | 'insert'
+    | 'remove'
+    | 'move'
+    | 'replace'
+  > {
+  /** Full storage key (prefix included) */
+  readonly key: string;
+  /** Get the current state */
+  getState: () => T;
+  /** Set the state and schedule a save */
+  setState: FormPersistSetState<T>;
+  /** Get the current snapshot (the same object until something changes) */
+  getSnapshot: () => FormPersistStoreSnapshot<T>;
+  /**
+   * Listen for changes
+   * The first listener restores the stored data and starts tab sync and the
+   * flushOn listeners; removing the last one flushes and stops them.
+   * @returns Function that removes the listener
+   */
+  subscribe: (listener: () => void) => () => void;
+  /** Write the pending debounced save now */
+  flush: () => void;
+  /**
+   * Mark a field as touched, which makes isFieldDirty compare its value
+   * @param path - Field path
+   */
+  touch: (path: string) => void;
+  /**
+   * Replace the options (the key prefix and history manager are kept)
+   * @param options - New options, merged with the defaults
+   */
+  setOptions: (options: FormPersistOptions<T>) => void;
+}
+
+/**
+ * Options for the useFormPersistSelector hook
+ */
+export interface FormPersistSelectorOptions<S> {
+  /**
+   * Prefix for storage keys (defaults to the provider's)
+   * @default 'rfp:'
+   */
+  keyPrefix?: string;
+
+  /**
+   * Compare the previous and next selection; the component re-renders only when they differ
+   * @default Object.is
+   */
+  isEqual?: (previous: S, next: S) => boolean;
+}
+
+/**
+ * Options for the useUnsavedChangesGuard hook
+ */
+export interface UnsavedChangesGuardOptions {
+  /**
+   * Message shown when asking the user to confirm leaving
+   * Browsers ignore custom text in the `beforeunload` prompt and show their own.
+   * @default 'You have unsaved changes. Are you sure you want to leave?'
+   */
+  message?: string;
+
+  /**
+   * Additional condition for guarding (e.g. only while the form is open)
+   * @default true
+   */
+  when?: boolean;
+}
+
+/**
+ * Options for the useUndoRedoShortcuts hook
+ */
+export interface UndoRedoShortcutsOptions {
+  /**
+   * Element whose descendants handle the shortcuts (the whole document when omitted)
+   * A ref is read on each key press, so it may be attached after the hook runs
+   */
+  target?: React.RefObject<HTMLElement | null> | HTMLElement | null;
+
+  /**
+   * Whether the shortcuts are active
+   * @default true
+   */
+  enabled?: boolean;
+
+  /**
+   * Handle the shortcuts inside focused text inputs, textareas and editable
+   * elements instead of leaving them to the browser's native undo
+   * @default false
+   */
+  preventNativeInputUndo?: boolean;
+}
+
+/**
+ * Return type for the useUnsavedChangesGuard hook
+ */
+export interface UnsavedChangesGuardReturn {
+  /** Whether leaving now would lose changes */
+  hasUnsavedChanges: boolean;
+
+  /**
+   * Ask the user to confirm navigation when there are unsaved changes
+   * @returns true when navigation may proceed
+   */
+  confirmNavigation: () => boolean;
+}
+
+/**
+ * Summary of a named draft, as kept in the draft index
+ */
+export interface DraftInfo {
+  /** Draft identifier (part of the storage key) */
+  id: string;
+  /** Display title */
+  title: string;
+  /** Timestamp when the draft was created */
+  createdAt: number;
+  /** Timestamp of the last save, or null if the draft was never saved */
+  lastSaved: number | null;
+  /** Size of the stored draft in bytes */
+  size: number;
+}
+
+/**
+ * Options for the useDrafts hook
+ * Storage and key prefix must match the options passed to useFormPersist.
+ */
+export interface UseDraftsOptions {
+  /**
+   * Storage backend holding the drafts
+   * @default 'localStorage'
+   */
+  storage?: StorageType | StorageAdapter;
+
+  /**
+   * Storage backend holding persisted undo/redo history (`history.storage`)
+   * @default same as storage
+   */
+  historyStorage?: StorageType | StorageAdapter;
+
+  /**
+   * Prefix for storage keys
+   * @default 'rfp:'
+   */
+  keyPrefix?: string;
+}
+
+/**
+ * Return type for the useDrafts hook
+ */
+export interface UseDraftsReturn {
+  /** Drafts in creation order */
+  drafts: DraftInfo[];
+  /** Id of the open draft, or null */
+  activeId: string | null;
+  /** Key to pass to useFormPersist for the open draft, or null */
+  activeKey: string | null;
+  /** Whether the draft index has been read from storage */
+  isLoaded: boolean;
+  /** Create an empty draft and open it, returns its id */
+  createDraft: (title?: string) => string;
+  /** Open an existing draft */
+  openDraft: (id: string) => void;
+  /** Change the title of a draft */
+  renameDraft: (id: string, title: string) => void;
+  /** Copy a draft (including its stored data) and open the copy, returns its id */
+  duplicateDraft: (id: string, title?: string) => string | null;
+  /** Delete a draft and its stored data */
+  deleteDraft: (id: string) => void;
+  /** Re-read sizes and save times of all drafts from storage */
+  refresh: () => Promise<void>;
 }
 
 /**
@@ -379,6 +1333,8 @@ export interface PersistedData<T> {
   version: number;
   /** Optional expiration timestamp */
   expiresAt?: number;
+  /** Per-field modification clock (`merge` sync strategy) */
+  clock?: FieldClock;
 }
 
 /**
@@ -393,6 +1349,7 @@ export interface FormPersistContextValue {
 
 /**
  * Registry entry for tracking form persist instances
+ * Entries registered by useFormPersist read the live values from the form store.
  */
 export interface FormPersistRegistryEntry {
   /** Storage key */
@@ -403,24 +1360,56 @@ export interface FormPersistRegistryEntry {
   lastSaved: number | null;
   /** Size in bytes */
   size: number;
+  /** Compression ratio of the last save, null when stored uncompressed */
+  compressionRatio?: number | null;
   /** Whether persistence is paused */
   isPaused: boolean;
+  /** Storage backend in use (`custom` for adapter objects) */
+  storage?: StorageType | 'custom';
+  /** Current save status */
+  status?: SaveStatus;
+  /** Last error reported by the form */
+  lastError?: PersistErrorInfo | null;
+  /** History entries, when history is enabled */
+  historyEntries?: HistoryEntry[];
+  /** Current position in the history */
+  historyIndex?: number;
+  /** Move to a history entry (used by the DevTools timeline) */
+  goTo?: (index: number) => void;
+  /** Listen for changes of the live values, returns an unsubscribe function */
+  subscribe?: (listener: () => void) => () => void;
 }
 
 /**
  * AutoSaveIndicator component props
  */
-export interface AutoSaveIndicatorProps {
+export interface AutoSaveIndicatorProps extends AutoSaveIndicatorBaseProps {
   /** Last saved timestamp */
   lastSaved: number | null;
   /** Whether currently saving */
   isSaving?: boolean;
+}
+
+/**
+ * Auto-save indicator props driven by the actions returned from useFormPersist
+ */
+export interface AutoSaveIndicatorPersistProps extends AutoSaveIndicatorBaseProps {
+  /** Actions object (or any object exposing the save status fields) */
+  persist: Pick<FormPersistActions<unknown>, 'status' | 'lastSaved' | 'lastError'>;
+}
+
+/**
+ * Display options shared by both auto-save indicator variants
+ */
+export interface AutoSaveIndicatorBaseProps {
   /** Custom "Saving..." text */
   savingText?: string;
   /** Custom "Saved" text */
   savedText?: string;
   /** Custom "Not saved" text */
   notSavedText?: string;
+  /** Custom "Save failed" text */
+  errorText?: string;
   /** Show relative timestamp (e.g., "2 minutes ago") */
   showTimestamp?: boolean;
   /** Custom className */
@@ -429,6 +1418,112 @@ export interface AutoSaveIndicatorProps {
   style?: React.CSSProperties;
 }
 
+/**
+ * SyncConflictDialog component props
+ */
+export interface SyncConflictDialogProps<T> {
+  /** Conflict to show (the dialog renders nothing when null) */
+  conflict: SyncConflict<T> | null;
+  /** Called with the chosen resolution */
+  onResolve: (resolution: ConflictResolution<T>) => void;
+  /** Dialog title */
+  title?: string;
+  /** Text shown above the changed fields */
+  description?: string;
+  /** Column header for the local values */
+  localLabel?: string;
+  /** Column header for the remote values */
+  remoteLabel?: string;
+  /** Custom "Keep mine" button text */
+  keepLocalText?: string;
+  /** Custom "Use theirs" button text */
+  useRemoteText?: string;
+  /** Custom "Merge selected" button text */
+  mergeText?: string;
+  /** Render a field value (defaults to strings as-is and JSON for everything else) */
+  formatValue?: (value: unknown, path: string) => React.ReactNode;
+  /** Custom className */
+  className?: string;
+  /** Custom inline styles */
+  style?: React.CSSProperties;
+}
+
+/**
+ * Props for the RestoreDraftBanner component
+ */
+export interface RestoreDraftBannerProps {
+  /** Actions object (or any object exposing the draft fields) */
+  persist: Pick<FormPersistActions<unknown>, 'pendingDraft' | 'acceptDraft' | 'discardDraft'>;
+  /**
+   * Banner message built from the relative save time
+   * @default (time) => `You have an unsaved draft from ${time}`
+   */
+  message?: (relativeTime: string) => React.ReactNode;
+  /** Custom restore button text */
+  restoreText?: string;
+  /** Custom discard button text */
+  discardText?: string;
+  /** Custom className */
+  className?: string;
+  /** Custom inline styles */
+  style?: React.CSSProperties;
+}
+
+/**
+ * Values of a PersistedForm, keyed by element name
+ */
+export type PersistedFormValues = Record<string, string | string[] | boolean | null>;
+
+/**
+ * Props for the PersistedForm component
+ */
+export interface PersistedFormProps
+  extends Omit<React.FormHTMLAttributes<HTMLFormElement>, 'onSubmit'> {
+  /** Unique key for storing data */
+  storageKey: string;
+  /** Names of the elements that are not persisted */
+  exclude?: string[];
+  /**
+   * Input types that are not persisted
+   * @default ['password', 'file']
+   */
+  skipTypes?: string[];
+  /**
+   * Clear the stored form on submit (after the returned promise resolves)
+   * @default true
+   */
+  clearOnSubmit?: boolean;
+  /** Persistence options (storage, debounce, expiration...) */
+  options?: Omit<FormPersistOptions<PersistedFormValues>, 'exclude' | 'include'>;
+  /**
+   * Submit handler; return a promise to clear only when it resolves, and false
+   * (or a promise of false) to keep the stored form
+   */
+  onSubmit?: (event: React.FormEvent<HTMLFormElement>) => void | boolean | Promise<unknown>;
+}
+
+/**
+ * Props for the DraftList component
+ */
+export interface DraftListProps {
+  /** Object returned by useDrafts */
+  drafts: UseDraftsReturn;
+  /** Custom "New draft" button text */
+  newDraftText?: string;
+  /** Custom "Rename" button text */
+  renameText?: string;
+  /** Custom "Duplicate" button text */
+  duplicateText?: string;
+  /** Custom "Delete" button text */
+  deleteText?: string;
+  /** Custom text for drafts that were never saved */
+  notSavedText?: string;
+  /** Custom className */
+  className?: string;
+  /** Custom inline styles */
+  style?: React.CSSProperties;
+}
+
 /**
  * DevTools component props
  */
@@ -439,7 +1534,7 @@ export interface FormPersistDevToolsProps {
   defaultOpen?: boolean;
   /** Filter function for which forms to show */
   filter?: (key: string) => boolean;
-  /** Enable timeline view */
+  /** Show a history timeline for live forms with history enabled */
   timeline?: boolean;
   /** Custom className */
   className?: string;
@@ -9,10 +9,11 @@
  * Displays all persisted forms, their state, and provides actions
  */
 
-import React, { useState, useEffect, useCallback } from 'react';
-import type { FormPersistDevToolsProps } from '../core/types';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import type { FormPersistDevToolsProps, FormPersistRegistryEntry } from '../core/types';
 import { DEFAULT_KEY_PREFIX } from '../core/constants';
 import { isSSR } from '../storage';
+import { useFormRegistry } from '../components/FormPersistProvider';
 
 /**
  * Styles for DevTools panel (black and white, minimal)
@@ -88,6 +89,10 @@ const styles: Record<string, React.CSSProperties> = {
     fontSize: '10px',
     color: '#666',
   },
+  liveBadge: {
+    fontWeight: 'bold',
+    color: '#000',
+  },
   formBody: {
     padding: '8px',
   },
@@ -119,6 +124,34 @@ const styles: Record<string, React.CSSProperties> = {
     backgroundColor: '#000',
     color: '#fff',
   },
+  timeline: {
+    marginTop: '8px',
+  },
+  timelineSlider: {
+    width: '100%',
+  },
+  timelineList: {
+    listStyle: 'none',
+    margin: '4px 0 0',
+    padding: 0,
+    maxHeight: '120px',
+    overflow: 'auto',
+  },
+  timelineItem: {
+    display: 'block',
+    width: '100%',
+    textAlign: 'left',
+    padding: '2px 4px',
+    border: 'none',
+    background: 'none',
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+    fontSize: '10px',
+  },
+  timelineItemActive: {
+    backgroundColor: '#000',
+    color: '#fff',
+  },
   footer: {
     borderTop: '2px solid #000',
     padding: '8px',
@@ -147,12 +180,16 @@ interface StoredForm {
   timestamp: number;
   version: number;
   size: number;
+  /** Registry entry when a mounted useFormPersist hook owns this key */
+  live?: FormPersistRegistryEntry;
 }
 
 /**
  * FormPersistDevTools component
  *
  * Development panel showing all persisted forms with inspection and actions.
+ * With `timeline`, live forms with history enabled show their history entries
+ * and can be moved to any of them.
  *
  * @example
  * ```tsx
@@ -166,11 +203,38 @@ export function FormPersistDevTools({
   position = 'bottom-right',
   defaultOpen = false,
   filter,
+  timeline = false,
   className,
 }: FormPersistDevToolsProps): JSX.Element | null {
   const [isOpen, setIsOpen] = useState(defaultOpen);
   const [forms, setForms] = useState<StoredForm[]>([]);
   const [expandedForms, setExpandedForms] = useState<Set<string>>(new Set());
+  const { entries: liveEntries } = useFormRegistry();
+
+  // Combine stored data with live forms from the registry. Live forms that are not
+  // in localStorage (other storage backends, nothing saved yet) are listed too.
+  const displayedForms = useMemo((): StoredForm[] => {
+    const liveByKey = new Map(liveEntries.map((entry) => [entry.key, entry]));
+    const combined: StoredForm[] = forms.map((form) => ({
+      ...form,
+      live: liveByKey.get(form.key),
+    }));
+
+    for (const entry of liveEntries) {
+      if (forms.some((form) => form.key === entry.key)) continue;
+      if (filter && !filter(entry.key)) continue;
+      combined.push({
+        key: entry.key,
+        data: entry.state,
+        timestamp: entry.lastSaved ?? 0,
+        version: 0,
+        size: entry.size,
+        live: entry,
+      });
+    }
+
+    return combined;
+  }, [forms, liveEntries, filter]);
 
   // Scan localStorage for persisted forms
   /* istanbul ignore next -- @preserve DevTools scanning logic */
@@ -313,6 +377,45 @@ export function FormPersistDevTools({
     return new Date(timestamp).toLocaleTimeString();
   };
 
+  // History timeline of a live form
+  const renderTimeline = (live: FormPersistRegistryEntry) => {
+    const { historyEntries, historyIndex = 0, goTo } = live;
+    if (!historyEntries || !goTo) return null;
+
+    return (
+      <div style={styles.timeline}>
+        <input
+          type="range"
+          aria-label="History position"
+          min={0}
+          max={historyEntries.length - 1}
+          value={historyIndex}
+          onChange={(e) => goTo(Number(e.target.value))}
+          style={styles.timelineSlider}
+        />
+        <ol style={styles.timelineList} aria-label="History timeline">
+          {historyEntries.map((entry, i) => (
+            <li key={`${entry.timestamp}-${i}`}>
+              <button
+                style={
+                  i === historyIndex
+                    ? { ...styles.timelineItem, ...styles.timelineItemActive }
+                    : styles.timelineItem
+                }
+                aria-current={i === historyIndex ? 'step' : undefined}
+                onClick={() => goTo(i)}
+              >
+                {formatTime(entry.timestamp)}{' '}
+                {entry.label ??
+                  (i === 0 ? 'Initial state' : entry.changedFields.join(', ') || 'No changes')}
+              </button>
+            </li>
+          ))}
+        </ol>
+      </div>
+    );
+  };
+
   // Don't render on server
   /* istanbul ignore if -- @preserve SSR check */
   if (isSSR()) return null;
@@ -337,12 +440,12 @@ export function FormPersistDevTools({
       {isOpen && (
         <>
           <div style={styles.content}>
-            {forms.length === 0 ? (
+            {displayedForms.length === 0 ? (
               <div style={styles.emptyState}>
                 No persisted forms found.
               </div>
             ) : (
-              forms.map((form) => (
+              displayedForms.map((form) => (
                 <div key={form.key} style={styles.formItem}>
                   <div
                     style={styles.formHeader}
@@ -353,7 +456,14 @@ export function FormPersistDevTools({
                         {form.key.replace(DEFAULT_KEY_PREFIX, '')}
                       </div>
                       <div style={styles.formMeta}>
-                        v{form.version} | {formatSize(form.size)} | {formatTime(form.timestamp)}
+                        v{form.version} | {formatSize(form.size)} | {formatTime(form.timestamp)} |{' '}
+                        {form.live ? (
+                          <span style={styles.liveBadge}>
+                            live{form.live.status ? ` (${form.live.status})` : ''}
+                          </span>
+                        ) : (
+                          'stored'
+                        )}
                       </div>
                     </div>
                     <span>{expandedForms.has(form.key) ? '▼' : '▶'}</span>
@@ -364,6 +474,7 @@ export function FormPersistDevTools({
                       <pre style={styles.dataPreview}>
                         {JSON.stringify(form.data, null, 2)}
                       </pre>
+                      {timeline && form.live && renderTimeline(form.live)}
                       <div style={styles.actions}>
                         <button
                           style={styles.button}
@@ -391,7 +502,7 @@ export function FormPersistDevTools({
 
           {/* Footer */}
           <div style={styles.footer}>
-            <span>{forms.length} form(s)</span>
+            <span>{displayedForms.length} form(s)</span>
             <div style={styles.actions}>
               <button style={styles.button} onClick={exportAll}>
                 Export
@@ -0,0 +1,187 @@
+/**
+ * react-form-autosave
+ * @version 0.1.2
+ * @author 686f6c61
+ * @license MIT
+ * @repository https://github.com/686f6c61/react-form-autosave
+ *
+ * List of named drafts managed by useDrafts
+ * Opens, renames, duplicates and deletes drafts, and creates new ones
+ */
+
+import React, { useRef, useState } from 'react';
+import type { DraftInfo, DraftListProps } from '../core/types';
+import { formatRelativeTime } from '../utils/formatRelativeTime';
+
+/**
+ * Format a byte size (e.g., "1.2 KB")
+ */
+function formatSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  return `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+/**
+ * Default styles for the list (minimal, can be overridden)
+ */
+const defaultStyles: Record<string, React.CSSProperties> = {
+  container: {
+    fontSize: '14px',
+    color: '#111',
+    fontFamily: 'system-ui, -apple-system, sans-serif',
+  },
+  list: {
+    listStyle: 'none',
+    margin: '0 0 8px',
+    padding: 0,
+  },
+  item: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    padding: '6px 8px',
+    borderBottom: '1px solid #e5e7eb',
+  },
+  activeItem: {
+    backgroundColor: '#f3f4f6',
+  },
+  title: {
+    flex: 1,
+    textAlign: 'left',
+    background: 'none',
+    border: 'none',
+    padding: 0,
+    font: 'inherit',
+    cursor: 'pointer',
+  },
+  meta: {
+    fontSize: '12px',
+    color: '#666',
+  },
+};
+
+/**
+ * DraftList component
+ *
+ * Lists the drafts returned by useDrafts with their save time and size. The
+ * open draft is marked with `aria-current`.
+ *
+ * @example
+ * ```tsx
+ * const drafts = useDrafts('customer-email');
+ *
+ * return (
+ *   <>
+ *     <DraftList drafts={drafts} />
+ *     {drafts.activeKey && <EmailForm key={drafts.activeId} storageKey={drafts.activeKey} />}
+ *   </>
+ * );
+ * ```
+ */
+export function DraftList({
+  drafts,
+  newDraftText = 'New draft',
+  renameText = 'Rename',
+  duplicateText = 'Duplicate',
+  deleteText = 'Delete',
+  notSavedText = 'Not saved',
+  className,
+  style,
+}: DraftListProps): JSX.Element {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+  // Browsers blur the input when it is removed; Escape must not commit
+  const cancelledRef = useRef(false);
+
+  const startRename = (draft: DraftInfo) => {
+    cancelledRef.current = false;
+    setEditingId(draft.id);
+    setEditingTitle(draft.title);
+  };
+
+  const commitRename = () => {
+    if (editingId && !cancelledRef.current && editingTitle.trim()) {
+      drafts.renameDraft(editingId, editingTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  const renderTitle = (draft: DraftInfo) => {
+    if (editingId === draft.id) {
+      return (
+        <input
+          aria-label="Draft title"
+          value={editingTitle}
+          autoFocus
+          onChange={(e) => setEditingTitle(e.target.value)}
+          onBlur={commitRename}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitRename();
+            if (e.key === 'Escape') {
+              cancelledRef.current = true;
+              setEditingId(null);
+            }
+          }}
+        />
+      );
+    }
+
+    return (
+      <button type="button" style={defaultStyles.title} onClick={() => drafts.openDraft(draft.id)}>
+        {draft.title}
+      </button>
+    );
+  };
+
+  return (
+    <div className={className} style={{ ...defaultStyles.container, ...style }}>
+      <ul style={defaultStyles.list} aria-label="Drafts">
+        {drafts.drafts.map((draft) => {
+          const isActive = draft.id === drafts.activeId;
+          return (
+            <li
+              key={draft.id}
+              style={
+                isActive ? { ...defaultStyles.item, ...defaultStyles.activeItem } : defaultStyles.item
+              }
+              aria-current={isActive ? 'true' : undefined}
+              data-draft-id={draft.id}
+            >
+              {renderTitle(draft)}
+              <span style={defaultStyles.meta}>
+                {draft.lastSaved ? formatRelativeTime(draft.lastSaved) : notSavedText}
+                {draft.size > 0 && ` · ${formatSize(draft.size)}`}
+              </span>
+              <button
+                type="button"
+                aria-label={`${renameText} ${draft.title}`}
+                onClick={() => startRename(draft)}
+              >
+                {renameText}
+              </button>
+              <button
+                type="button"
+                aria-label={`${duplicateText} ${draft.title}`}
+                onClick={() => drafts.duplicateDraft(draft.id)}
+              >
+                {duplicateText}
+              </button>
+              <button
+                type="button"
+                aria-label={`${deleteText} ${draft.title}`}
+                onClick={() => drafts.deleteDraft(draft.id)}
+              >
+                {deleteText}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+      <button type="button" onClick={() => drafts.createDraft()}>
+        {newDraftText}
+      </button>
+    </div>
+  );
+}
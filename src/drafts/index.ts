@@ -0,0 +1,13 @@
+/**
+ * react-form-autosave
+ * @version 0.1.2
+ * @author 686f6c61
+ * @license MIT
+ * @repository https://github.com/686f6c61/react-form-autosave
+ *
+ * Drafts module exports (tree-shakeable)
+ */
+
+export { useDrafts } from './useDrafts';
+export { DraftList } from './DraftList';
+export type { DraftInfo, UseDraftsOptions, UseDraftsReturn, DraftListProps } from '../core/types';
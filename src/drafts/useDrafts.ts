@@ -0,0 +1,370 @@
+/**
+ * react-form-autosave
+ * @version 0.1.2
+ * @author 686f6c61
+ * @license MIT
+ * @repository https://github.com/686f6c61/react-form-autosave
+ *
+ * Hook for managing several named drafts of the same form
+ * Drafts are stored under `<baseKey>:draft:<id>` and listed through a small
+ * index entry (`<baseKey>:drafts`), so listing works on adapters that cannot
+ * enumerate keys.
+ */
+
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import type { DraftInfo, UseDraftsOptions, UseDraftsReturn } from '../core/types';
+import { DEFAULT_KEY_PREFIX, DEFAULT_OPTIONS } from '../core/constants';
+import {
+  getStorageAdapter,
+  getStringByteSize,
+  isStorageAvailable,
+  getPartitionKey,
+  parsePartitionManifest,
+} from '../storage';
+import { decompress, isValidPersistedData } from '../middleware';
+import { useFormPersistContext, useFormRegistry } from '../components/FormPersistProvider';
+
+/**
+ * Draft index as stored under `<baseKey>:drafts`
+ */
+interface DraftIndex {
+  active: string | null;
+  drafts: DraftInfo[];
+}
+
+const EMPTY_INDEX: DraftIndex = { active: null, drafts: [] };
+
+const DEFAULT_DRAFT_TITLE = 'Untitled draft';
+
+function generateDraftId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function isDraftInfo(value: unknown): value is DraftInfo {
+  if (!value || typeof value !== 'object') return false;
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.id === 'string' &&
+    typeof candidate.title === 'string' &&
+    typeof candidate.createdAt === 'number' &&
+    (candidate.lastSaved === null || typeof candidate.lastSaved === 'number') &&
+    typeof candidate.size === 'number'
+  );
+}
+
+function parseDraftIndex(raw: unknown): DraftIndex {
+  if (typeof raw !== 'string') return EMPTY_INDEX;
+  try {
+    const parsed = JSON.parse(raw) as Partial<DraftIndex> | null;
+    const drafts = Array.isArray(parsed?.drafts) ? parsed.drafts.filter(isDraftInfo) : [];
+    const active =
+      typeof parsed?.active === 'string' && drafts.some((d) => d.id === parsed.active)
+        ? parsed.active
+        : null;
+    return { active, drafts };
+  } catch {
+    return EMPTY_INDEX;
+  }
+}
+
+/**
+ * Save time of a stored payload, when it can be read without the form's
+ * transform or encryption options
+ */
+function readTimestamp(payload: string): number | null {
+  try {
+    const parsed = JSON.parse(decompress(payload)) as unknown;
+    return isValidPersistedData<unknown>(parsed) ? parsed.timestamp : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Hook for managing several named drafts of the same form
+ *
+ * Pass `activeKey` to useFormPersist and render the form with `key={activeId}`
+ * so switching drafts starts from a fresh state. Save times and sizes are
+ * re-read from storage when the open draft changes, and follow the open draft
+ * live inside a FormPersistProvider.
+ *
+ * @param baseKey - Base storage key shared by all drafts of the form
+ * @param options - Storage options (must match the ones given to useFormPersist)
+ * @returns Draft list and draft management functions
+ *
+ * @example
+ * ```tsx
+ * function CustomerEmails() {
+ *   const drafts = useDrafts('customer-email');
+ *
+ *   return (
+ *     <>
+ *       <DraftList drafts={drafts} />
+ *       {drafts.activeKey && <EmailForm key={drafts.activeId} storageKey={drafts.activeKey} />}
+ *     </>
+ *   );
+ * }
+ *
+ * function EmailForm({ storageKey }: { storageKey: string }) {
+ *   const [formData, setFormData] = useFormPersist(storageKey, { to: '', body: '' });
+ *   // ...
+ * }
+ * ```
+ */
+export function useDrafts(baseKey: string, options: UseDraftsOptions = {}): UseDraftsReturn {
+  const contextDefaults = useFormPersistContext();
+  const { entries } = useFormRegistry();
+
+  const storageType = options.storage ?? contextDefaults.storage ?? DEFAULT_OPTIONS.storage;
+  const prefix = options.keyPrefix ?? contextDefaults.keyPrefix ?? DEFAULT_KEY_PREFIX;
+  const indexKey = `${prefix}${baseKey}:drafts`;
+
+  const storage = useMemo(() => getStorageAdapter(storageType), [storageType]);
+  const historyStorageType = options.historyStorage;
+  const historyStorage = useMemo(
+    () => (historyStorageType ? getStorageAdapter(historyStorageType) : storage),
+    [historyStorageType, storage]
+  );
+
+  const [index, setIndex] = useState<DraftIndex>(EMPTY_INDEX);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const indexRef = useRef(index);
+
+  const getDraftKey = useCallback((id: string) => `${baseKey}:draft:${id}`, [baseKey]);
+  const getFullKey = useCallback(
+    (id: string) => `${prefix}${getDraftKey(id)}`,
+    [prefix, getDraftKey]
+  );
+
+  // Update the index in memory and write it to storage
+  const updateIndex = useCallback(
+    (update: (prev: DraftIndex) => DraftIndex) => {
+      const next = update(indexRef.current);
+      if (next === indexRef.current) return;
+
+      indexRef.current = next;
+      setIndex(next);
+      // The in-memory index stays correct when a write fails; the next one catches up
+      try {
+        void Promise.resolve(storage.setItem(indexKey, JSON.stringify(next))).catch(() => {});
+      } catch {
+        // Synchronous adapters throw instead of rejecting
+      }
+    },
+    [storage, indexKey]
+  );
+
+  const updateDraft = useCallback(
+    (id: string, changes: Partial<DraftInfo>) => {
+      updateIndex((prev) => {
+        const current = prev.drafts.find((draft) => draft.id === id);
+        if (
+          !current ||
+          (Object.keys(changes) as (keyof DraftInfo)[]).every((k) => current[k] === changes[k])
+        ) {
+          return prev;
+        }
+        return {
+          ...prev,
+          drafts: prev.drafts.map((draft) => (draft.id === id ? { ...draft, ...changes } : draft)),
+        };
+      });
+    },
+    [updateIndex]
+  );
+
+  // Read the stored payload of a draft (joining partitions)
+  const readDraft = useCallback(
+    async (id: string): Promise<{ raw: string; chunks: string[] } | null> => {
+      const fullKey = getFullKey(id);
+      const raw = await storage.getItem(fullKey);
+      if (typeof raw !== 'string') return null;
+
+      const manifest = parsePartitionManifest(raw);
+      const chunks: string[] = [];
+      if (manifest) {
+        for (let i = 0; i < manifest.count; i++) {
+          const chunk = await storage.getItem(getPartitionKey(fullKey, i));
+          chunks.push(typeof chunk === 'string' ? chunk : '');
+        }
+      }
+      return { raw, chunks };
+    },
+    [storage, getFullKey]
+  );
+
+  const refresh = useCallback(async () => {
+    for (const draft of indexRef.current.drafts) {
+      const stored = await readDraft(draft.id);
+      if (!stored) {
+        updateDraft(draft.id, { size: 0 });
+        continue;
+      }
+
+      const payload = stored.chunks.length > 0 ? stored.chunks.join('') : stored.raw;
+      updateDraft(draft.id, {
+        size: getStringByteSize(payload),
+        lastSaved: readTimestamp(payload) ?? draft.lastSaved,
+      });
+    }
+  }, [readDraft, updateDraft]);
+
+  // Load the index
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      let raw: unknown = null;
+      try {
+        raw = await storage.getItem(indexKey);
+      } catch {
+        // Start with an empty index when storage cannot be read
+      }
+      if (cancelled) return;
+
+      const loaded = parseDraftIndex(raw);
+      indexRef.current = loaded;
+      setIndex(loaded);
+      setIsLoaded(true);
+    };
+
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [storage, indexKey]);
+
+  // Re-read stats when the open draft changes (the previous one may have been saved)
+  useEffect(() => {
+    if (isLoaded) {
+      void refresh().catch(() => {});
+    }
+  }, [isLoaded, index.active, refresh]);
+
+  // Follow saves of the open draft reported to the provider registry
+  const activeFullKey = index.active ? getFullKey(index.active) : null;
+  // Entries read live values, so depend on the values rather than the entry
+  const activeEntry = entries.find((entry) => entry.key === activeFullKey);
+  const activeLastSaved = activeEntry?.lastSaved ?? null;
+  const activeSize = activeEntry?.size ?? 0;
+  useEffect(() => {
+    if (index.active && activeLastSaved !== null) {
+      updateDraft(index.active, { lastSaved: activeLastSaved, size: activeSize });
+    }
+  }, [index.active, activeLastSaved, activeSize, updateDraft]);
+
+  const createDraft = useCallback(
+    (title: string = DEFAULT_DRAFT_TITLE): string => {
+      const id = generateDraftId();
+      updateIndex((prev) => ({
+        active: id,
+        drafts: [...prev.drafts, { id, title, createdAt: Date.now(), lastSaved: null, size: 0 }],
+      }));
+      return id;
+    },
+    [updateIndex]
+  );
+
+  const openDraft = useCallback(
+    (id: string) => {
+      updateIndex((prev) =>
+        prev.active === id || !prev.drafts.some((draft) => draft.id === id)
+          ? prev
+          : { ...prev, active: id }
+      );
+    },
+    [updateIndex]
+  );
+
+  const renameDraft = useCallback(
+    (id: string, title: string) => {
+      updateDraft(id, { title });
+    },
+    [updateDraft]
+  );
+
+  const duplicateDraft = useCallback(
+    (id: string, title?: string): string | null => {
+      const source = indexRef.current.drafts.find((draft) => draft.id === id);
+      if (!source) return null;
+
+      const copyId = generateDraftId();
+      updateIndex((prev) => ({
+        ...prev,
+        drafts: [
+          ...prev.drafts,
+          {
+            ...source,
+            id: copyId,
+            title: title ?? `${source.title} (copy)`,
+            createdAt: Date.now(),
+          },
+        ],
+      }));
+
+      // Open the copy once its data is in place, so the form restores it
+      const copy = async () => {
+        const stored = await readDraft(id);
+        if (stored) {
+          const copyKey = getFullKey(copyId);
+          await Promise.all(
+            stored.chunks.map((chunk, i) => storage.setItem(getPartitionKey(copyKey, i), chunk))
+          );
+          await storage.setItem(copyKey, stored.raw);
+        }
+      };
+      void copy()
+        .catch(() => {
+          // Open the copy anyway: it starts empty
+        })
+        .then(() => openDraft(copyId));
+
+      return copyId;
+    },
+    [updateIndex, readDraft, getFullKey, storage, openDraft]
+  );
+
+  const deleteDraft = useCallback(
+    (id: string) => {
+      const target = indexRef.current.drafts.find((draft) => draft.id === id);
+      if (!target) return;
+
+      updateIndex((prev) => ({
+        active: prev.active === id ? null : prev.active,
+        drafts: prev.drafts.filter((draft) => draft.id !== id),
+      }));
+
+      const fullKey = getFullKey(id);
+      const remove = async () => {
+        const stored = await readDraft(id);
+        await Promise.all(
+          (stored?.chunks ?? []).map((_, i) => storage.removeItem(getPartitionKey(fullKey, i)))
+        );
+        await Promise.all([
+          storage.removeItem(fullKey),
+          historyStorage.removeItem(`${fullKey}:history`),
+        ]);
+      };
+      void remove().catch(() => {});
+
+      // Emergency copies always live in localStorage
+      if (isStorageAvailable('localStorage')) {
+        localStorage.removeItem(`${fullKey}:emergency`);
+      }
+    },
+    [updateIndex, getFullKey, readDraft, storage, historyStorage]
+  );
+
+  return {
+    drafts: index.drafts,
+    activeId: index.active,
+    activeKey: index.active ? getDraftKey(index.active) : null,
+    isLoaded,
+    createDraft,
+    openDraft,
+    renameDraft,
+    duplicateDraft,
+    deleteDraft,
+    refresh,
+  };
+}
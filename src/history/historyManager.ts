@@ -9,7 +9,20 @@
  * Provides a state history stack with navigation
  */
 
-import { DEFAULT_MAX_HISTORY } from '../core/constants';
+import type { FormHistoryManager, HistoryEntry, SetStateOptions } from '../core/types';
+import { DEFAULT_HISTORY_MAX_BRANCHES, DEFAULT_MAX_HISTORY } from '../core/constants';
+import {
+  createHistoryStack,
+  createHistoryStackFromStates,
+  getHistoryStackEntries,
+  getHistoryStackState,
+  getHistoryStackStates,
+  pushHistoryStack,
+  trimHistoryStack,
+} from './historyStack';
+import type { HistoryStack, HistoryStackLimits } from './historyStack';
+import { HistoryTree } from './historyTree';
+import type { HistoryBranch } from './historyTree';
 
 /**
  * History state structure
@@ -17,15 +30,50 @@ import { DEFAULT_MAX_HISTORY } from '../core/constants';
 export interface HistoryState<T> {
   /** Array of historical states */
   states: T[];
+  /** Timestamp, label and changed fields of each state */
+  entries: HistoryEntry[];
   /** Current position in history (0-indexed) */
   index: number;
   /** Maximum number of states to keep */
   maxLength: number;
 }
 
+/**
+ * History manager options
+ */
+export interface HistoryManagerOptions {
+  /**
+   * Entries between full state checkpoints; the others store patches from the
+   * previous entry (1 keeps a full snapshot per entry)
+   * @default 10
+   */
+  checkpointInterval?: number;
+  /**
+   * Maximum size of the entries in bytes; the oldest are dropped first
+   * (linear mode only)
+   */
+  maxBytes?: number;
+  /**
+   * `linear` discards the redo states when pushing after an undo; `tree`
+   * keeps them on a separate branch
+   * @default 'linear'
+   */
+  mode?: 'linear' | 'tree';
+  /**
+   * Maximum number of branches in tree mode (the least recently used
+   * branches are pruned first; the active one is always kept)
+   * @default 10
+   */
+  maxBranches?: number;
+}
+
 /**
  * History manager class
  *
+ * States are stored as patches between entries with periodic checkpoints, and
+ * rebuilt when navigating. In `tree` mode, pushing after an undo starts a new
+ * branch and undo/redo follow the active branch.
+ *
  * @example
  * ```typescript
  * const history = new HistoryManager<FormData>({ name: '' }, 50);
@@ -43,76 +91,165 @@ export interface HistoryState<T> {
  *   history.redo(); // Forward to { name: 'John Doe' }
  * }
  * ```
+ *
+ * @example
+ * ```typescript
+ * const history = new HistoryManager({ name: '' }, 50, { mode: 'tree' });
+ *
+ * history.push({ name: 'John' });
+ * history.undo();
+ * history.push({ name: 'Jane' }); // { name: 'John' } stays on its own branch
+ *
+ * const [first] = history.branches;
+ * history.switchBranch(first.id); // Back to { name: 'John' }
+ * ```
  */
-export class HistoryManager<T> {
-  private state: HistoryState<T>;
-
-  constructor(initialState: T, maxLength: number = DEFAULT_MAX_HISTORY) {
-    this.state = {
-      states: [initialState],
-      index: 0,
-      maxLength,
-    };
+export class HistoryManager<T> implements FormHistoryManager<T> {
+  private stack: HistoryStack<T>;
+  private position: number;
+  private currentState: T;
+  private readonly maxLength: number;
+  private readonly checkpointInterval: number | undefined;
+  private readonly maxBytes: number | undefined;
+  private readonly tree: HistoryTree<T> | null;
+
+  constructor(
+    initialState: T,
+    maxLength: number = DEFAULT_MAX_HISTORY,
+    options: HistoryManagerOptions = {}
+  ) {
+    this.stack = createHistoryStack(initialState);
+    this.position = 0;
+    this.currentState = initialState;
+    this.maxLength = maxLength;
+    this.checkpointInterval = options.checkpointInterval;
+    this.maxBytes = options.maxBytes;
+    this.tree =
+      options.mode === 'tree'
+        ? new HistoryTree(initialState, {
+            maxLength,
+            maxBranches: options.maxBranches ?? DEFAULT_HISTORY_MAX_BRANCHES,
+            checkpointInterval: options.checkpointInterval,
+          })
+        : null;
   }
 
   /**
    * Get current state
    */
   get current(): T {
-    return this.state.states[this.state.index];
+    return this.tree ? this.tree.current : this.currentState;
   }
 
   /**
    * Get current history index
    */
   get index(): number {
-    return this.state.index;
+    return this.tree ? this.tree.index : this.position;
   }
 
   /**
    * Get total history length
    */
   get length(): number {
-    return this.state.states.length;
+    return this.tree ? this.tree.length : this.stack.length;
   }
 
   /**
    * Check if undo is available
    */
   get canUndo(): boolean {
-    return this.state.index > 0;
+    return this.index > 0;
   }
 
   /**
    * Check if redo is available
    */
   get canRedo(): boolean {
-    return this.state.index < this.state.states.length - 1;
+    return this.index < this.length - 1;
+  }
+
+  /**
+   * Get the branches of the undo tree (empty in linear mode)
+   */
+  get branches(): HistoryBranch[] {
+    return this.tree ? this.tree.getBranches() : [];
   }
 
   /**
    * Push a new state onto the history stack
-   * Clears any forward history (redo states)
+   * Clears any forward history (redo states), or starts a new branch in tree mode
    *
    * @param newState - The new state to add
+   * @param options - Label of the new entry
    */
-  push(newState: T): void {
-    // Remove forward history
-    const newStates = this.state.states.slice(0, this.state.index + 1);
+  push(newState: T, options: SetStateOptions = {}): void {
+    if (this.tree) {
+      this.tree.push(newState, { label: options.label });
+      return;
+    }
 
-    // Add new state
-    newStates.push(newState);
+    this.stack = pushHistoryStack(
+      this.stack,
+      this.position,
+      newState,
+      this.getLimits(),
+      { current: this.currentState, label: options.label }
+    );
+    this.position = this.stack.length - 1;
+    this.currentState = newState;
+  }
 
-    // Trim to max length
-    if (newStates.length > this.state.maxLength) {
-      newStates.shift();
+  /**
+   * Replace the current state and its metadata (e.g., to merge rapid changes
+   * into one entry), dropping any redo states
+   * Pushes instead at the first entry.
+   *
+   * @param newState - The state replacing the current one
+   * @param meta - Metadata of the replaced entry
+   */
+  amend(newState: T, meta: HistoryEntry): void {
+    if (this.tree) {
+      this.tree.amend(newState, meta);
+      return;
     }
 
-    this.state = {
-      ...this.state,
-      states: newStates,
-      index: newStates.length - 1,
-    };
+    this.stack = pushHistoryStack(
+      this.stack,
+      Math.max(0, this.position - 1),
+      newState,
+      this.getLimits(),
+      { meta }
+    );
+    this.position = this.stack.length - 1;
+    this.currentState = newState;
+  }
+
+  /**
+   * Replace the history with the given states (e.g., restored from storage)
+   * The oldest states are dropped when they exceed the limits.
+   *
+   * @param states - States, oldest first (at least one)
+   * @param entries - Metadata of the states (recorded now when missing)
+   * @param index - Position of the current state
+   */
+  load(states: T[], entries: Array<HistoryEntry | undefined> = [], index = states.length - 1): void {
+    if (this.tree) {
+      this.tree.reset(states[0], entries[0]);
+      for (let i = 1; i < states.length; i++) {
+        this.tree.push(states[i], { meta: entries[i] });
+      }
+      this.tree.goTo(index - (states.length - this.tree.length));
+      return;
+    }
+
+    this.stack = trimHistoryStack(
+      createHistoryStackFromStates(states, this.checkpointInterval, entries),
+      this.maxLength,
+      this.maxBytes
+    );
+    this.position = Math.max(0, index - (states.length - this.stack.length));
+    this.currentState = getHistoryStackState(this.stack, this.position);
   }
 
   /**
@@ -125,12 +262,7 @@ export class HistoryManager<T> {
       return this.current;
     }
 
-    this.state = {
-      ...this.state,
-      index: this.state.index - 1,
-    };
-
-    return this.current;
+    return this.goTo(this.index - 1);
   }
 
   /**
@@ -143,27 +275,26 @@ export class HistoryManager<T> {
       return this.current;
     }
 
-    this.state = {
-      ...this.state,
-      index: this.state.index + 1,
-    };
-
-    return this.current;
+    return this.goTo(this.index + 1);
   }
 
   /**
-   * Go to a specific index in history
+   * Go to a specific index in history (along the active branch in tree mode)
    *
    * @param targetIndex - The index to navigate to
    * @returns The state at that index
    */
   goTo(targetIndex: number): T {
-    const clampedIndex = Math.max(0, Math.min(targetIndex, this.state.states.length - 1));
+    if (this.tree) {
+      return this.tree.goTo(targetIndex);
+    }
 
-    this.state = {
-      ...this.state,
-      index: clampedIndex,
-    };
+    const clampedIndex = Math.max(0, Math.min(targetIndex, this.stack.length - 1));
+
+    if (clampedIndex !== this.position) {
+      this.position = clampedIndex;
+      this.currentState = getHistoryStackState(this.stack, clampedIndex);
+    }
 
     return this.current;
   }
@@ -174,11 +305,10 @@ export class HistoryManager<T> {
    * @param newInitialState - The new initial state
    */
   reset(newInitialState: T): void {
-    this.state = {
-      ...this.state,
-      states: [newInitialState],
-      index: 0,
-    };
+    this.tree?.reset(newInitialState);
+    this.stack = createHistoryStack(newInitialState);
+    this.position = 0;
+    this.currentState = newInitialState;
   }
 
   /**
@@ -187,7 +317,36 @@ export class HistoryManager<T> {
    * @returns Array of all states
    */
   getAll(): T[] {
-    return [...this.state.states];
+    return this.tree ? this.tree.getStates() : getHistoryStackStates(this.stack);
+  }
+
+  /**
+   * Get the timestamp, label and changed fields of each state
+   *
+   * @returns Array of entry metadata
+   */
+  getEntries(): HistoryEntry[] {
+    return this.tree ? this.tree.getEntries() : getHistoryStackEntries(this.stack);
+  }
+
+  /**
+   * Make a branch active and go to its tip (tree mode only)
+   *
+   * @param branchId - Id of a branch from `branches`
+   * @returns The state at the tip, or current if the branch does not exist
+   */
+  switchBranch(branchId: number): T {
+    return this.tree ? this.tree.switchBranch(branchId) : this.current;
+  }
+
+  /**
+   * Go to any node of the undo tree, making its branch active (tree mode only)
+   *
+   * @param nodeId - Id of a node from a branch's `nodeIds`
+   * @returns The state at that node, or current if the node does not exist
+   */
+  goToNode(nodeId: number): T {
+    return this.tree ? this.tree.goToNode(nodeId) : this.current;
   }
 
   /**
@@ -197,9 +356,18 @@ export class HistoryManager<T> {
    */
   getSnapshot(): HistoryState<T> {
     return {
-      states: [...this.state.states],
-      index: this.state.index,
-      maxLength: this.state.maxLength,
+      states: this.getAll(),
+      entries: this.getEntries(),
+      index: this.index,
+      maxLength: this.maxLength,
+    };
+  }
+
+  private getLimits(): HistoryStackLimits {
+    return {
+      maxLength: this.maxLength,
+      maxBytes: this.maxBytes,
+      checkpointInterval: this.checkpointInterval,
     };
   }
 }
@@ -209,11 +377,13 @@ export class HistoryManager<T> {
  *
  * @param initialState - The initial state
  * @param maxLength - Maximum history length
+ * @param options - History manager options
  * @returns HistoryManager instance
  */
 export function createHistoryManager<T>(
   initialState: T,
-  maxLength: number = DEFAULT_MAX_HISTORY
+  maxLength: number = DEFAULT_MAX_HISTORY,
+  options: HistoryManagerOptions = {}
 ): HistoryManager<T> {
-  return new HistoryManager(initialState, maxLength);
+  return new HistoryManager(initialState, maxLength, options);
 }
@@ -0,0 +1,293 @@
+/**
+ * react-form-autosave
+ * @version 0.1.2
+ * @author 686f6c61
+ * @license MIT
+ * @repository https://github.com/686f6c61/react-form-autosave
+ *
+ * Compact history stack
+ * Entries store a patch from the previous entry, with a full checkpoint every
+ * few entries (and always first), so states are rebuilt on demand from the
+ * nearest checkpoint. Stacks are immutable and safe to keep in React state.
+ * Each entry also records when it was added, its label and the changed fields.
+ */
+
+import type { HistoryEntry } from '../core/types';
+import { DEFAULT_HISTORY_CHECKPOINT_INTERVAL } from '../core/constants';
+import { getStringByteSize } from '../storage/adapters';
+import { diffPaths } from '../middleware/paths';
+import { applyPatch, createPatch } from './patches';
+import type { HistoryPatch } from './patches';
+
+/**
+ * History stack entry: a full state or a patch from the previous entry
+ */
+export type HistoryStackEntry<T> = ({ checkpoint: T } | { patch: HistoryPatch }) & {
+  meta?: HistoryEntry;
+};
+
+/**
+ * History stack (the first entry is always a checkpoint)
+ */
+export type HistoryStack<T> = HistoryStackEntry<T>[];
+
+/**
+ * Options for pushing a state to a history stack
+ */
+export interface HistoryStackPushOptions<T> {
+  /** State at the index pushed after, when already known */
+  current?: T;
+  /** Label of the new entry */
+  label?: string;
+  /** Entry metadata (computed from `current` and `label` when omitted) */
+  meta?: HistoryEntry;
+}
+
+/**
+ * Limits applied when pushing to a history stack
+ */
+export interface HistoryStackLimits {
+  /** Maximum number of entries */
+  maxLength: number;
+  /** Maximum size of the entries in bytes */
+  maxBytes?: number;
+  /** Entries between full checkpoints */
+  checkpointInterval?: number;
+}
+
+function isCheckpoint<T>(entry: HistoryStackEntry<T>): entry is { checkpoint: T } {
+  return 'checkpoint' in entry;
+}
+
+// Serialized sizes (entries and states are immutable)
+const sizeCache = new WeakMap<object, number>();
+
+function getSerializedSize(value: unknown): number {
+  const cacheable = typeof value === 'object' && value !== null;
+  const cached = cacheable ? sizeCache.get(value) : undefined;
+  if (cached !== undefined) return cached;
+
+  const size = getStringByteSize(JSON.stringify(value) ?? '');
+  if (cacheable) {
+    sizeCache.set(value, size);
+  }
+  return size;
+}
+
+function isHistoryEntry(value: unknown): value is HistoryEntry {
+  if (!value || typeof value !== 'object') return false;
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.timestamp === 'number' &&
+    (candidate.label === undefined || typeof candidate.label === 'string') &&
+    Array.isArray(candidate.changedFields) &&
+    candidate.changedFields.every((field) => typeof field === 'string')
+  );
+}
+
+function getEntrySize<T>(entry: HistoryStackEntry<T>): number {
+  return getSerializedSize(isCheckpoint(entry) ? entry.checkpoint : entry.patch);
+}
+
+/**
+ * Create a history stack holding a single state
+ *
+ * @param initialState - First state
+ * @param meta - Entry metadata (defaults to now, with no changed fields)
+ * @returns New history stack
+ */
+export function createHistoryStack<T>(
+  initialState: T,
+  meta: HistoryEntry = { timestamp: Date.now(), changedFields: [] }
+): HistoryStack<T> {
+  return [{ checkpoint: initialState, meta }];
+}
+
+/**
+ * Rebuild the state at an index from the nearest checkpoint
+ *
+ * @param stack - History stack
+ * @param index - Entry index (clamped to the stack)
+ * @returns The state at that index
+ */
+export function getHistoryStackState<T>(stack: HistoryStack<T>, index: number): T {
+  const target = Math.max(0, Math.min(index, stack.length - 1));
+  let start = target;
+  while (start > 0 && !isCheckpoint(stack[start])) {
+    start--;
+  }
+
+  const first = stack[start];
+  /* istanbul ignore next -- @preserve The first entry is always a checkpoint */
+  let state = isCheckpoint(first) ? first.checkpoint : (undefined as T);
+  for (let i = start + 1; i <= target; i++) {
+    const entry = stack[i];
+    state = isCheckpoint(entry) ? entry.checkpoint : applyPatch(state, entry.patch);
+  }
+  return state;
+}
+
+/**
+ * Rebuild every state of the stack
+ *
+ * @param stack - History stack
+ * @returns Full states, oldest first
+ */
+export function getHistoryStackStates<T>(stack: HistoryStack<T>): T[] {
+  const states: T[] = [];
+  for (const entry of stack) {
+    states.push(
+      isCheckpoint(entry) ? entry.checkpoint : applyPatch(states[states.length - 1], entry.patch)
+    );
+  }
+  return states;
+}
+
+/**
+ * Metadata of every entry of the stack
+ *
+ * @param stack - History stack
+ * @returns Entry metadata, oldest first
+ */
+export function getHistoryStackEntries<T>(stack: HistoryStack<T>): HistoryEntry[] {
+  return stack.map((entry) => entry.meta ?? { timestamp: 0, changedFields: [] });
+}
+
+/**
+ * Drop the oldest entries beyond maxLength or maxBytes
+ * The newest entry is always kept, and the new first entry becomes a checkpoint.
+ *
+ * @param stack - History stack
+ * @param maxLength - Maximum number of entries
+ * @param maxBytes - Maximum size of the entries in bytes
+ * @returns The trimmed stack (the same stack when nothing is dropped)
+ */
+export function trimHistoryStack<T>(
+  stack: HistoryStack<T>,
+  maxLength: number,
+  maxBytes: number = Infinity
+): HistoryStack<T> {
+  let start = Math.max(0, stack.length - Math.max(1, maxLength));
+  let first = getHistoryStackState(stack, start);
+
+  let rest = 0;
+  for (let i = start + 1; i < stack.length; i++) {
+    rest += getEntrySize(stack[i]);
+  }
+
+  while (start < stack.length - 1 && getSerializedSize(first) + rest > maxBytes) {
+    start++;
+    const entry = stack[start];
+    first = isCheckpoint(entry) ? entry.checkpoint : applyPatch(first, entry.patch);
+    rest -= getEntrySize(entry);
+  }
+
+  if (start === 0) {
+    return stack;
+  }
+  const trimmed = stack.slice(start);
+  if (!isCheckpoint(trimmed[0])) {
+    trimmed[0] = { checkpoint: first, meta: trimmed[0].meta };
+  }
+  return trimmed;
+}
+
+/**
+ * Add a state after the given index, dropping the entries after it
+ *
+ * @param stack - History stack
+ * @param index - Index of the current entry
+ * @param state - New state
+ * @param limits - Length, size and checkpoint limits
+ * @param options - Known current state, label or metadata of the new entry
+ * @returns The new stack (the new state is its last entry)
+ *
+ * @example
+ * ```typescript
+ * let stack = createHistoryStack({ name: '' });
+ * stack = pushHistoryStack(stack, 0, { name: 'Jane' }, { maxLength: 50 }, { label: 'Typed name' });
+ * // [
+ * //   { checkpoint: { name: '' }, meta: { ... } },
+ * //   {
+ * //     patch: [{ op: 'replace', path: '/name', value: 'Jane' }],
+ * //     meta: { timestamp: 1700000000000, label: 'Typed name', changedFields: ['name'] },
+ * //   },
+ * // ]
+ * getHistoryStackState(stack, 1); // { name: 'Jane' }
+ * ```
+ */
+export function pushHistoryStack<T>(
+  stack: HistoryStack<T>,
+  index: number,
+  state: T,
+  limits: HistoryStackLimits,
+  options: HistoryStackPushOptions<T> = {}
+): HistoryStack<T> {
+  const current = 'current' in options ? (options.current as T) : getHistoryStackState(stack, index);
+  const meta: HistoryEntry = options.meta ?? {
+    timestamp: Date.now(),
+    ...(options.label !== undefined && { label: options.label }),
+    changedFields: diffPaths(current, state),
+  };
+  const next = stack.slice(0, index + 1);
+  const interval = Math.max(1, limits.checkpointInterval ?? DEFAULT_HISTORY_CHECKPOINT_INTERVAL);
+
+  let sinceCheckpoint = 0;
+  for (let i = next.length - 1; i >= 0 && !isCheckpoint(next[i]); i--) {
+    sinceCheckpoint++;
+  }
+
+  next.push(
+    sinceCheckpoint + 1 >= interval
+      ? { checkpoint: state, meta }
+      : { patch: createPatch(current, state), meta }
+  );
+  return trimHistoryStack(next, limits.maxLength, limits.maxBytes);
+}
+
+/**
+ * Build a history stack from full states
+ *
+ * @param states - Full states, oldest first (at least one)
+ * @param checkpointInterval - Entries between full checkpoints
+ * @param entries - Metadata of the states (computed when missing)
+ * @returns History stack holding the same states
+ */
+export function createHistoryStackFromStates<T>(
+  states: T[],
+  checkpointInterval: number = DEFAULT_HISTORY_CHECKPOINT_INTERVAL,
+  entries: Array<HistoryEntry | undefined> = []
+): HistoryStack<T> {
+  let stack = createHistoryStack(states[0], entries[0]);
+  for (let i = 1; i < states.length; i++) {
+    stack = pushHistoryStack(
+      stack,
+      i - 1,
+      states[i],
+      { maxLength: Infinity, checkpointInterval },
+      { current: states[i - 1], meta: entries[i] }
+    );
+  }
+  return stack;
+}
+
+/**
+ * Check that a value is a well-formed history stack (e.g., read from storage)
+ *
+ * @param value - Value to check
+ * @returns Whether the value is a history stack
+ */
+export function isHistoryStack(value: unknown): value is HistoryStack<unknown> {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every(
+      (entry: unknown, i) =>
+        typeof entry === 'object' &&
+        entry !== null &&
+        ('checkpoint' in entry ||
+          (i > 0 && 'patch' in entry && Array.isArray((entry as { patch: unknown }).patch))) &&
+        (!('meta' in entry) || isHistoryEntry((entry as { meta: unknown }).meta))
+    )
+  );
+}
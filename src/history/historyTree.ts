@@ -0,0 +1,394 @@
+/**
+ * react-form-autosave
+ * @version 0.1.2
+ * @author 686f6c61
+ * @license MIT
+ * @repository https://github.com/686f6c61/react-form-autosave
+ *
+ * Branching undo tree used by HistoryManager in `tree` mode
+ * Editing after an undo starts a new branch instead of discarding the redo
+ * states. Undo and redo follow the active branch (the path from the root to
+ * its tip), and nodes store patches from their parent like the history stack.
+ */
+
+import type { HistoryEntry } from '../core/types';
+import { DEFAULT_HISTORY_CHECKPOINT_INTERVAL } from '../core/constants';
+import { diffPaths } from '../middleware/paths';
+import { applyPatch, createPatch } from './patches';
+import type { HistoryPatch } from './patches';
+
+/**
+ * Branch of the undo tree, from the node after its fork to its tip
+ */
+export interface HistoryBranch {
+  /** Branch id (kept while the branch grows) */
+  id: number;
+  /** Last node of the branch */
+  tipId: number;
+  /** Node the branch forks from (null when it starts at the root) */
+  forkId: number | null;
+  /** Nodes that belong to this branch, oldest first */
+  nodeIds: number[];
+  /** Number of states from the root to the tip */
+  length: number;
+  /** Last time the branch was extended or visited */
+  updatedAt: number;
+  /** Whether undo and redo follow this branch */
+  isActive: boolean;
+}
+
+/**
+ * Limits of an undo tree
+ */
+export interface HistoryTreeLimits {
+  /** Maximum number of states from the root to the active tip */
+  maxLength: number;
+  /** Maximum number of branches (least recently used ones are pruned) */
+  maxBranches: number;
+  /** Depth between full checkpoints */
+  checkpointInterval?: number;
+}
+
+interface HistoryTreeNode<T> {
+  id: number;
+  parentId: number | null;
+  children: number[];
+  branchId: number;
+  entry: { checkpoint: T } | { patch: HistoryPatch };
+  meta: HistoryEntry;
+}
+
+/**
+ * Undo tree
+ *
+ * @example
+ * ```typescript
+ * const tree = new HistoryTree({ text: '' }, { maxLength: 50, maxBranches: 10 });
+ * tree.push({ text: 'a' });
+ * tree.goTo(0);
+ * tree.push({ text: 'b' }); // New branch, { text: 'a' } is kept
+ * tree.getBranches().length; // 2
+ * ```
+ */
+export class HistoryTree<T> {
+  private nodes = new Map<number, HistoryTreeNode<T>>();
+  private branchVisits = new Map<number, number>();
+  private currentId = 0;
+  private activeTipId = 0;
+  private currentState: T;
+  private nextNodeId = 0;
+  private nextBranchId = 0;
+
+  constructor(
+    initialState: T,
+    private readonly limits: HistoryTreeLimits
+  ) {
+    this.currentState = initialState;
+    this.reset(initialState);
+  }
+
+  /** Current state */
+  get current(): T {
+    return this.currentState;
+  }
+
+  /** Id of the current node */
+  get currentNodeId(): number {
+    return this.currentId;
+  }
+
+  /** Position of the current node on the active branch */
+  get index(): number {
+    return this.getDepth(this.currentId);
+  }
+
+  /** Number of states from the root to the active tip */
+  get length(): number {
+    return this.getDepth(this.activeTipId) + 1;
+  }
+
+  /**
+   * Add a state after the current node
+   * Continues the current branch at its tip, and starts a new branch elsewhere.
+   */
+  push(state: T, options: { label?: string; meta?: HistoryEntry } = {}): void {
+    const parent = this.getNode(this.currentId);
+    const branchId = parent.children.length === 0 ? parent.branchId : this.nextBranchId++;
+    const interval = Math.max(
+      1,
+      this.limits.checkpointInterval ?? DEFAULT_HISTORY_CHECKPOINT_INTERVAL
+    );
+
+    let sinceCheckpoint = 0;
+    for (let node = parent; !('checkpoint' in node.entry); node = this.getParent(node)) {
+      sinceCheckpoint++;
+    }
+
+    const node: HistoryTreeNode<T> = {
+      id: this.nextNodeId++,
+      parentId: parent.id,
+      children: [],
+      branchId,
+      entry:
+        sinceCheckpoint + 1 >= interval
+          ? { checkpoint: state }
+          : { patch: createPatch(this.currentState, state) },
+      meta: options.meta ?? {
+        timestamp: Date.now(),
+        ...(options.label !== undefined && { label: options.label }),
+        changedFields: diffPaths(this.currentState, state),
+      },
+    };
+    parent.children.push(node.id);
+    this.nodes.set(node.id, node);
+
+    this.currentId = node.id;
+    this.activeTipId = node.id;
+    this.currentState = state;
+    this.branchVisits.set(branchId, node.meta.timestamp);
+
+    this.trimLength();
+    this.pruneBranches();
+  }
+
+  /**
+   * Replace the state and metadata of the current node
+   * Pushes instead when the node is the root or has children, whose patches
+   * depend on it.
+   */
+  amend(state: T, meta: HistoryEntry): void {
+    const node = this.getNode(this.currentId);
+    if (node.parentId === null || node.children.length > 0) {
+      this.push(state, { meta });
+      return;
+    }
+
+    node.entry =
+      'checkpoint' in node.entry
+        ? { checkpoint: state }
+        : { patch: createPatch(this.getNodeState(node.parentId), state) };
+    node.meta = meta;
+    this.currentState = state;
+    this.branchVisits.set(node.branchId, meta.timestamp);
+  }
+
+  /**
+   * Move to a position on the active branch
+   */
+  goTo(index: number): T {
+    const path = this.getPath();
+    const target = path[Math.max(0, Math.min(index, path.length - 1))];
+    this.moveTo(target);
+    return this.currentState;
+  }
+
+  /**
+   * Move to any node, making its branch active when it is not on the active one
+   */
+  goToNode(id: number): T {
+    const node = this.nodes.get(id);
+    if (!node) return this.currentState;
+
+    if (!this.getPath().includes(id)) {
+      let tip = node;
+      for (let next = this.getBranchChild(tip); next; next = this.getBranchChild(tip)) {
+        tip = next;
+      }
+      this.activeTipId = tip.id;
+    }
+    this.moveTo(id);
+    return this.currentState;
+  }
+
+  /**
+   * Make a branch active and move to its tip
+   */
+  switchBranch(branchId: number): T {
+    const tip = this.getBranches().find((branch) => branch.id === branchId);
+    if (!tip) return this.currentState;
+
+    this.activeTipId = tip.tipId;
+    this.moveTo(tip.tipId);
+    return this.currentState;
+  }
+
+  /**
+   * States from the root to the active tip
+   */
+  getStates(): T[] {
+    const states: T[] = [];
+    for (const id of this.getPath()) {
+      const node = this.getNode(id);
+      states.push(
+        'checkpoint' in node.entry
+          ? node.entry.checkpoint
+          : applyPatch(states[states.length - 1], node.entry.patch)
+      );
+    }
+    return states;
+  }
+
+  /**
+   * Entry metadata from the root to the active tip
+   */
+  getEntries(): HistoryEntry[] {
+    return this.getPath().map((id) => this.getNode(id).meta);
+  }
+
+  /**
+   * All branches, in creation order
+   */
+  getBranches(): HistoryBranch[] {
+    const branches: HistoryBranch[] = [];
+
+    for (const leaf of this.nodes.values()) {
+      if (leaf.children.length > 0) continue;
+
+      const nodeIds = [leaf.id];
+      let first = leaf;
+      while (first.parentId !== null && this.getParent(first).branchId === leaf.branchId) {
+        first = this.getParent(first);
+        nodeIds.unshift(first.id);
+      }
+
+      branches.push({
+        id: leaf.branchId,
+        tipId: leaf.id,
+        forkId: first.parentId,
+        nodeIds,
+        length: this.getDepth(leaf.id) + 1,
+        updatedAt: this.branchVisits.get(leaf.branchId) ?? leaf.meta.timestamp,
+        isActive: leaf.id === this.activeTipId,
+      });
+    }
+
+    return branches.sort((a, b) => a.id - b.id);
+  }
+
+  /**
+   * Drop every node and start again from a state
+   */
+  reset(state: T, meta: HistoryEntry = { timestamp: Date.now(), changedFields: [] }): void {
+    const root: HistoryTreeNode<T> = {
+      id: this.nextNodeId++,
+      parentId: null,
+      children: [],
+      branchId: this.nextBranchId++,
+      entry: { checkpoint: state },
+      meta,
+    };
+    this.nodes = new Map([[root.id, root]]);
+    this.branchVisits = new Map([[root.branchId, root.meta.timestamp]]);
+    this.currentId = root.id;
+    this.activeTipId = root.id;
+    this.currentState = state;
+  }
+
+  private getNode(id: number): HistoryTreeNode<T> {
+    return this.nodes.get(id) as HistoryTreeNode<T>;
+  }
+
+  private getParent(node: HistoryTreeNode<T>): HistoryTreeNode<T> {
+    return this.getNode(node.parentId as number);
+  }
+
+  private getBranchChild(node: HistoryTreeNode<T>): HistoryTreeNode<T> | undefined {
+    return node.children
+      .map((id) => this.getNode(id))
+      .find((child) => child.branchId === node.branchId);
+  }
+
+  private getDepth(id: number): number {
+    let depth = 0;
+    for (let node = this.getNode(id); node.parentId !== null; node = this.getParent(node)) {
+      depth++;
+    }
+    return depth;
+  }
+
+  private getPath(): number[] {
+    const path: number[] = [];
+    for (let node = this.getNode(this.activeTipId); ; node = this.getParent(node)) {
+      path.unshift(node.id);
+      if (node.parentId === null) return path;
+    }
+  }
+
+  private getNodeState(id: number): T {
+    const chain: HistoryTreeNode<T>[] = [];
+    let node = this.getNode(id);
+    while (!('checkpoint' in node.entry)) {
+      chain.unshift(node);
+      node = this.getParent(node);
+    }
+
+    let state = node.entry.checkpoint;
+    for (const child of chain) {
+      if ('patch' in child.entry) {
+        state = applyPatch(state, child.entry.patch);
+      }
+    }
+    return state;
+  }
+
+  private moveTo(id: number): void {
+    if (id !== this.currentId) {
+      this.currentId = id;
+      this.currentState = this.getNodeState(id);
+    }
+    this.branchVisits.set(this.getNode(this.activeTipId).branchId, Date.now());
+  }
+
+  private removeSubtree(id: number): void {
+    const node = this.getNode(id);
+    node.children.forEach((child) => this.removeSubtree(child));
+    this.nodes.delete(id);
+  }
+
+  // Drop the root while the active branch is too long, with the branches forking from it
+  private trimLength(): void {
+    const path = this.getPath();
+    while (path.length > Math.max(1, this.limits.maxLength)) {
+      const root = this.getNode(path[0]);
+      const next = this.getNode(path[1]);
+
+      next.entry = { checkpoint: this.getNodeState(next.id) };
+      root.children.filter((id) => id !== next.id).forEach((id) => this.removeSubtree(id));
+      this.nodes.delete(root.id);
+      next.parentId = null;
+      path.shift();
+    }
+  }
+
+  // Remove the least recently used branches beyond maxBranches
+  private pruneBranches(): void {
+    let branches = this.getBranches();
+    while (branches.length > Math.max(1, this.limits.maxBranches)) {
+      const [oldest] = branches
+        .filter((branch) => !branch.isActive)
+        .sort((a, b) => a.updatedAt - b.updatedAt);
+
+      // Remove nodes from the tip up to the first one shared with another branch
+      let node = this.getNode(oldest.tipId);
+      while (node.children.length === 0 && node.parentId !== null) {
+        const parent = this.getParent(node);
+        parent.children = parent.children.filter((id) => id !== node.id);
+        this.nodes.delete(node.id);
+        node = parent;
+      }
+      this.branchVisits.delete(oldest.id);
+
+      // The remaining nodes of the branch now belong to a branch continuing from them
+      const continuation = this.getNode(node.children[0]).branchId;
+      for (
+        let owned: HistoryTreeNode<T> | undefined = node;
+        owned && owned.branchId === oldest.id;
+        owned = owned.parentId !== null ? this.getParent(owned) : undefined
+      ) {
+        owned.branchId = continuation;
+      }
+
+      branches = this.getBranches();
+    }
+  }
+}
@@ -9,5 +9,19 @@
  */
 
 export { HistoryManager, createHistoryManager } from './historyManager';
-export type { HistoryState } from './historyManager';
+export type { HistoryState, HistoryManagerOptions } from './historyManager';
+export { createPatch, applyPatch } from './patches';
+export type { HistoryPatch, HistoryPatchOperation } from './patches';
+export {
+  createHistoryStack,
+  createHistoryStackFromStates,
+  getHistoryStackState,
+  getHistoryStackStates,
+  pushHistoryStack,
+  trimHistoryStack,
+} from './historyStack';
+export type { HistoryStack, HistoryStackEntry, HistoryStackLimits } from './historyStack';
+export { HistoryTree } from './historyTree';
+export type { HistoryBranch, HistoryTreeLimits } from './historyTree';
 export { useHistory } from './useHistory';
+export { useUndoRedoShortcuts } from './useUndoRedoShortcuts';
@@ -0,0 +1,182 @@
+/**
+ * react-form-autosave
+ * @version 0.1.2
+ * @author 686f6c61
+ * @license MIT
+ * @repository https://github.com/686f6c61/react-form-autosave
+ *
+ * Structural patches between states (RFC 6902 JSON Patch subset)
+ * Only `add`, `remove` and `replace` operations are produced and applied.
+ * Patches hold references to the values of the target state, so states must
+ * be treated as immutable.
+ */
+
+import { isEqual } from '../middleware/merge';
+
+/**
+ * Single JSON Patch operation
+ * `path` is a JSON Pointer (`/address/city`, `/items/0`, `''` for the root).
+ */
+export type HistoryPatchOperation =
+  | { op: 'add' | 'replace'; path: string; value: unknown }
+  | { op: 'remove'; path: string };
+
+/**
+ * Ordered list of operations turning one state into another
+ */
+export type HistoryPatch = HistoryPatchOperation[];
+
+/**
+ * Keys that are never traversed or written to prevent prototype pollution
+ */
+const DANGEROUS_KEYS = ['__proto__', 'constructor', 'prototype'];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.prototype.toString.call(value) === '[object Object]'
+  );
+}
+
+function escapeSegment(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function unescapeSegment(segment: string): string {
+  return segment.replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+function diffValues(from: unknown, to: unknown, path: string, patch: HistoryPatch): void {
+  if (isPlainObject(from) && isPlainObject(to)) {
+    for (const key of Object.keys(from)) {
+      if (!(key in to) && !DANGEROUS_KEYS.includes(key)) {
+        patch.push({ op: 'remove', path: `${path}/${escapeSegment(key)}` });
+      }
+    }
+    for (const key of Object.keys(to)) {
+      if (DANGEROUS_KEYS.includes(key)) continue;
+      const childPath = `${path}/${escapeSegment(key)}`;
+      if (!(key in from)) {
+        patch.push({ op: 'add', path: childPath, value: to[key] });
+      } else {
+        diffValues(from[key], to[key], childPath, patch);
+      }
+    }
+    return;
+  }
+
+  if (Array.isArray(from) && Array.isArray(to)) {
+    const common = Math.min(from.length, to.length);
+    for (let i = 0; i < common; i++) {
+      diffValues(from[i], to[i], `${path}/${i}`, patch);
+    }
+    for (let i = common; i < to.length; i++) {
+      patch.push({ op: 'add', path: `${path}/${i}`, value: to[i] });
+    }
+    // Remove from the end so indexes stay valid
+    for (let i = from.length - 1; i >= common; i--) {
+      patch.push({ op: 'remove', path: `${path}/${i}` });
+    }
+    return;
+  }
+
+  if (!isEqual(from, to)) {
+    patch.push({ op: 'replace', path, value: to });
+  }
+}
+
+/**
+ * Create the patch turning one state into another
+ * Objects and arrays are compared element by element; other values are
+ * replaced as a whole.
+ *
+ * @param from - Previous state
+ * @param to - Next state
+ * @returns Operations to apply to `from` to get `to` (empty when equal)
+ *
+ * @example
+ * ```typescript
+ * createPatch(
+ *   { name: 'Jane', tags: ['a'] },
+ *   { name: 'Jane Doe', tags: ['a', 'b'] }
+ * );
+ * // [
+ * //   { op: 'replace', path: '/name', value: 'Jane Doe' },
+ * //   { op: 'add', path: '/tags/1', value: 'b' },
+ * // ]
+ * ```
+ */
+export function createPatch(from: unknown, to: unknown): HistoryPatch {
+  const patch: HistoryPatch = [];
+  diffValues(from, to, '', patch);
+  return patch;
+}
+
+function applyOperation(
+  target: unknown,
+  segments: string[],
+  operation: HistoryPatchOperation
+): unknown {
+  if (segments.length === 0) {
+    return operation.op === 'remove' ? undefined : operation.value;
+  }
+
+  const [segment, ...rest] = segments;
+  if (DANGEROUS_KEYS.includes(segment)) {
+    return target;
+  }
+  const isLast = rest.length === 0;
+
+  if (Array.isArray(target)) {
+    const index = segment === '-' ? target.length : Number(segment);
+    if (!Number.isInteger(index) || index < 0 || index > target.length) {
+      return target;
+    }
+    const copy = [...target];
+    if (!isLast) {
+      copy[index] = applyOperation(target[index], rest, operation);
+    } else if (operation.op === 'add') {
+      copy.splice(index, 0, operation.value);
+    } else if (operation.op === 'remove') {
+      copy.splice(index, 1);
+    } else {
+      copy[index] = operation.value;
+    }
+    return copy;
+  }
+
+  if (isPlainObject(target)) {
+    const copy: Record<string, unknown> = { ...target };
+    if (!isLast) {
+      copy[segment] = applyOperation(target[segment], rest, operation);
+    } else if (operation.op === 'remove') {
+      delete copy[segment];
+    } else {
+      copy[segment] = operation.value;
+    }
+    return copy;
+  }
+
+  // Paths through primitive values are ignored
+  return target;
+}
+
+/**
+ * Immutably apply a patch
+ * Unchanged branches are shared with the source.
+ *
+ * @param data - State to patch
+ * @param patch - Operations created by createPatch
+ * @returns The patched state
+ */
+export function applyPatch<T>(data: T, patch: HistoryPatch): T {
+  let result: unknown = data;
+  for (const operation of patch) {
+    const segments =
+      operation.path === '' ? [] : operation.path.slice(1).split('/').map(unescapeSegment);
+    result = applyOperation(result, segments, operation);
+  }
+  return result as T;
+}
@@ -10,13 +10,18 @@
 
 import { useState, useCallback, useRef } from 'react';
 import { HistoryManager } from './historyManager';
+import type { HistoryManagerOptions } from './historyManager';
+import type { HistoryBranch } from './historyTree';
 import { DEFAULT_MAX_HISTORY } from '../core/constants';
+import type { HistoryEntry, SetStateOptions } from '../core/types';
 
 /**
  * Hook for managing state history with undo/redo
  *
  * @param initialState - Initial state value
  * @param maxLength - Maximum history length
+ * @param options - History manager options (e.g., `{ mode: 'tree' }` to keep
+ * redo states on branches instead of discarding them)
  * @returns State and history controls
  *
  * @example
@@ -41,31 +46,51 @@ import { DEFAULT_MAX_HISTORY } from '../core/constants';
  *   </div>
  * );
  * ```
+ *
+ * @example
+ * ```tsx
+ * const { state, setState, branches, switchBranch } = useHistory(
+ *   { text: '' },
+ *   50,
+ *   { mode: 'tree', maxBranches: 5 }
+ * );
+ *
+ * return branches.map((branch) => (
+ *   <button key={branch.id} onClick={() => switchBranch(branch.id)} disabled={branch.isActive}>
+ *     Branch {branch.id} ({branch.length} states)
+ *   </button>
+ * ));
+ * ```
  */
 export function useHistory<T>(
   initialState: T,
-  maxLength: number = DEFAULT_MAX_HISTORY
+  maxLength: number = DEFAULT_MAX_HISTORY,
+  options: HistoryManagerOptions = {}
 ): {
   state: T;
-  setState: (newState: T) => void;
+  setState: (newState: T, options?: SetStateOptions) => void;
   undo: () => void;
   redo: () => void;
   canUndo: boolean;
   canRedo: boolean;
   index: number;
   length: number;
+  entries: HistoryEntry[];
   reset: () => void;
   goTo: (index: number) => void;
+  branches: HistoryBranch[];
+  switchBranch: (branchId: number) => void;
+  goToNode: (nodeId: number) => void;
 } {
   const managerRef = useRef<HistoryManager<T>>(
-    new HistoryManager(initialState, maxLength)
+    new HistoryManager(initialState, maxLength, options)
   );
 
   // Force re-render when history changes
   const [, forceUpdate] = useState({});
 
-  const setState = useCallback((newState: T) => {
-    managerRef.current.push(newState);
+  const setState = useCallback((newState: T, options?: SetStateOptions) => {
+    managerRef.current.push(newState, options);
     forceUpdate({});
   }, []);
 
@@ -89,6 +114,16 @@ export function useHistory<T>(
     forceUpdate({});
   }, []);
 
+  const switchBranch = useCallback((branchId: number) => {
+    managerRef.current.switchBranch(branchId);
+    forceUpdate({});
+  }, []);
+
+  const goToNode = useCallback((nodeId: number) => {
+    managerRef.current.goToNode(nodeId);
+    forceUpdate({});
+  }, []);
+
   return {
     state: managerRef.current.current,
     setState,
@@ -98,7 +133,11 @@ export function useHistory<T>(
     canRedo: managerRef.current.canRedo,
     index: managerRef.current.index,
     length: managerRef.current.length,
+    entries: managerRef.current.getEntries(),
     reset,
     goTo,
+    branches: managerRef.current.branches,
+    switchBranch,
+    goToNode,
   };
 }
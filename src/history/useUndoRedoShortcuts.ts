@@ -0,0 +1,150 @@
+/**
+ * react-form-autosave
+ * @version 0.1.2
+ * @author 686f6c61
+ * @license MIT
+ * @repository https://github.com/686f6c61/react-form-autosave
+ *
+ * Keyboard shortcuts for undo/redo
+ * Cmd+Z / Cmd+Shift+Z on Apple platforms, Ctrl+Z / Ctrl+Shift+Z / Ctrl+Y elsewhere
+ */
+
+import { useEffect, useRef } from 'react';
+import type { FormPersistActions, UndoRedoShortcutsOptions } from '../core/types';
+import { isSSR } from '../storage/adapters';
+
+/**
+ * Input types that have no native undo
+ */
+const NON_TEXT_INPUT_TYPES = [
+  'button',
+  'checkbox',
+  'color',
+  'file',
+  'hidden',
+  'image',
+  'radio',
+  'range',
+  'reset',
+  'submit',
+];
+
+function isApplePlatform(): boolean {
+  const platform = navigator.platform || navigator.userAgent;
+  return /Mac|iPhone|iPad|iPod/.test(platform);
+}
+
+/**
+ * Check whether an element handles undo itself (text fields and editable content)
+ */
+function hasNativeUndo(element: EventTarget | null): boolean {
+  if (element instanceof HTMLTextAreaElement) {
+    return true;
+  }
+  if (element instanceof HTMLInputElement) {
+    return !NON_TEXT_INPUT_TYPES.includes(element.type);
+  }
+  return element instanceof HTMLElement && element.isContentEditable;
+}
+
+/**
+ * Read the shortcut of a keydown event
+ */
+function getShortcut(event: KeyboardEvent, apple: boolean): 'undo' | 'redo' | null {
+  const modifier = apple ? event.metaKey && !event.ctrlKey : event.ctrlKey && !event.metaKey;
+  if (!modifier || event.altKey) {
+    return null;
+  }
+
+  const key = event.key.toLowerCase();
+  if (key === 'z') {
+    return event.shiftKey ? 'redo' : 'undo';
+  }
+  if (key === 'y' && !apple && !event.shiftKey) {
+    return 'redo';
+  }
+  return null;
+}
+
+/**
+ * Hook that binds the undo/redo keyboard shortcuts
+ *
+ * Shortcuts are ignored while an IME composition is active, and inside
+ * focused text fields unless `preventNativeInputUndo` is set, so the browser's
+ * own undo keeps working there. Handled shortcuts prevent the default action.
+ *
+ * @param actions - Actions returned by useFormPersist (or useHistory)
+ * @param options - Target element, enabled flag and native input handling
+ *
+ * @example
+ * ```tsx
+ * const [formData, setFormData, actions] = useFormPersist('editor', initialState, {
+ *   history: true,
+ * });
+ * const formRef = useRef<HTMLFormElement>(null);
+ * useUndoRedoShortcuts(actions, { target: formRef, preventNativeInputUndo: true });
+ *
+ * return <form ref={formRef}>...</form>;
+ * ```
+ */
+export function useUndoRedoShortcuts(
+  actions: Pick<FormPersistActions<unknown>, 'undo' | 'redo' | 'canUndo' | 'canRedo'>,
+  options: UndoRedoShortcutsOptions = {}
+): void {
+  const { target, enabled = true, preventNativeInputUndo = false } = options;
+
+  // Read the latest actions without re-registering the listener
+  const actionsRef = useRef(actions);
+  useEffect(() => {
+    actionsRef.current = actions;
+  }, [actions]);
+
+  useEffect(() => {
+    if (isSSR() || !enabled) {
+      return;
+    }
+
+    const apple = isApplePlatform();
+
+    // The target is read on each key, so a ref attached after this effect works
+    const isInsideTarget = (node: EventTarget | null): boolean => {
+      if (!target) return true;
+      const element = 'current' in target ? target.current : target;
+      return !!element && node instanceof Node && element.contains(node);
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      // keyCode 229 marks keys handled by an IME in browsers without isComposing
+      if (
+        event.defaultPrevented ||
+        event.isComposing ||
+        event.keyCode === 229 ||
+        !isInsideTarget(event.target)
+      ) {
+        return;
+      }
+
+      const shortcut = getShortcut(event, apple);
+      if (!shortcut || (!preventNativeInputUndo && hasNativeUndo(event.target))) {
+        return;
+      }
+
+      const current = actionsRef.current;
+      if (shortcut === 'undo' ? !current.canUndo : !current.canRedo) {
+        return;
+      }
+
+      event.preventDefault();
+      if (shortcut === 'undo') {
+        current.undo();
+      } else {
+        current.redo();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [target, enabled, preventNativeInputUndo]);
+}
@@ -0,0 +1,116 @@
+/**
+ * react-form-autosave
+ * @version 0.1.2
+ * @author 686f6c61
+ * @license MIT
+ * @repository https://github.com/686f6c61/react-form-autosave
+ *
+ * Field helper: props that bind inputs to paths of the form state
+ */
+
+import type { FieldProps, FormPersistActions, FormPersistStore } from '../core/types';
+import { getPathValue, setPathValue } from '../middleware';
+
+/**
+ * Create the field helper for a rendered state
+ * Values are read from the rendered state; changes are applied to the latest
+ * state, so several changes before a render are not lost. Changes and blurs
+ * mark the field as touched.
+ *
+ * @param state - Rendered state
+ * @param store - Store that receives the changes
+ * @returns field(path, options) helper
+ */
+export function createField<T extends Record<string, unknown>>(
+  state: T,
+  store: Pick<FormPersistStore<T>, 'setState' | 'touch'>
+): FormPersistActions<T>['field'] {
+  return (path, options = {}) => {
+    const { type = 'text', value: optionValue } = options;
+    const current = getPathValue(state, path);
+    const update = (change: (previous: unknown) => unknown) => {
+      store.setState((prev) => setPathValue(prev, path, change(getPathValue(prev, path))));
+      store.touch(path);
+    };
+    const props: Pick<FieldProps, 'name' | 'onBlur'> = {
+      name: path,
+      onBlur: () => store.touch(path),
+    };
+
+    switch (type) {
+      // An empty input stores null: '' is not a number, and 0 would hide the clear
+      case 'number':
+        return {
+          ...props,
+          type: 'number',
+          value: typeof current === 'number' && !Number.isNaN(current) ? current : '',
+          onChange: (event) => {
+            const { value } = event.target;
+            update(() => (value === '' ? null : Number(value)));
+          },
+        };
+
+      case 'checkbox':
+        // Checkbox group: the field holds the values of the checked boxes
+        if (optionValue !== undefined) {
+          return {
+            ...props,
+            type: 'checkbox',
+            value: optionValue,
+            checked: Array.isArray(current) && current.includes(optionValue),
+            onChange: (event) => {
+              const { checked } = event.target as HTMLInputElement;
+              update((previous) => {
+                const list = Array.isArray(previous)
+                  ? previous.filter((item) => item !== optionValue)
+                  : [];
+                return checked ? [...list, optionValue] : list;
+              });
+            },
+          };
+        }
+        return {
+          ...props,
+          type: 'checkbox',
+          checked: current === true,
+          onChange: (event) => {
+            const { checked } = event.target as HTMLInputElement;
+            update(() => checked);
+          },
+        };
+
+      case 'radio':
+        return {
+          ...props,
+          type: 'radio',
+          value: optionValue ?? '',
+          checked: current === optionValue,
+          onChange: () => update(() => optionValue),
+        };
+
+      case 'select-multiple':
+        return {
+          ...props,
+          multiple: true,
+          value: Array.isArray(current) ? current.map(String) : [],
+          onChange: (event) => {
+            const { options: selectOptions } = event.target as HTMLSelectElement;
+            const selected = Array.from(selectOptions)
+              .filter((option) => option.selected)
+              .map((option) => option.value);
+            update(() => selected);
+          },
+        };
+
+      default:
+        return {
+          ...props,
+          value: current === undefined || current === null ? '' : String(current),
+          onChange: (event) => {
+            const { value } = event.target;
+            update(() => value);
+          },
+        };
+    }
+  };
+}
@@ -9,3 +9,5 @@
  */
 
 export { useFormPersist, useFormPersistObject } from './useFormPersist';
+export { useFormPersistSelector } from './useFormPersistSelector';
+export { useUnsavedChangesGuard } from './useUnsavedChangesGuard';
@@ -0,0 +1,99 @@
+/**
+ * react-form-autosave
+ * @version 0.1.2
+ * @author 686f6c61
+ * @license MIT
+ * @repository https://github.com/686f6c61/react-form-autosave
+ *
+ * Hook for reading a slice of a persisted form from another component
+ */
+
+import { useCallback, useMemo } from 'react';
+import type { FormPersistSelectorOptions, FormPersistStore } from '../core/types';
+import { DEFAULT_KEY_PREFIX } from '../core/constants';
+import { findFormPersistStore, subscribeToFormPersistStores } from '../core/sharedStores';
+import { useFormPersistContext } from '../components/FormPersistProvider';
+import { useSyncExternalStore } from './useSyncExternalStore';
+
+/**
+ * Hook that selects a slice of the form persisted under a key
+ *
+ * Reads the store shared by the useFormPersist calls with the same key, and
+ * re-renders only when the selected value changes. Returns undefined while no
+ * form with this key exists.
+ *
+ * @param key - Key passed to useFormPersist
+ * @param selector - Function that picks a value from the form state
+ * @param options - Key prefix and equality function
+ * @returns Selected value, or undefined
+ *
+ * @example
+ * ```tsx
+ * function CartBadge() {
+ *   const count = useFormPersistSelector('checkout', (state: CheckoutForm) => state.items.length);
+ *   return <span>{count ?? 0}</span>;
+ * }
+ * ```
+ */
+export function useFormPersistSelector<T extends Record<string, unknown>, S>(
+  key: string,
+  selector: (state: T) => S,
+  options: FormPersistSelectorOptions<S> = {}
+): S | undefined {
+  const contextDefaults = useFormPersistContext();
+  const fullKey = `${options.keyPrefix ?? contextDefaults.keyPrefix ?? DEFAULT_KEY_PREFIX}${key}`;
+  const isEqualSelection = options.isEqual ?? Object.is;
+
+  // Follow the store of the key as it is created and dropped
+  const subscribe = useCallback(
+    (listener: () => void) => {
+      let store: FormPersistStore<T> | undefined;
+      let unsubscribeStore: (() => void) | undefined;
+      const follow = () => {
+        const next = findFormPersistStore<T>(fullKey);
+        if (next !== store) {
+          unsubscribeStore?.();
+          store = next;
+          unsubscribeStore = next?.subscribe(listener);
+        }
+      };
+
+      follow();
+      const unsubscribeCache = subscribeToFormPersistStores(() => {
+        follow();
+        listener();
+      });
+      return () => {
+        unsubscribeCache();
+        unsubscribeStore?.();
+      };
+    },
+    [fullKey]
+  );
+
+  // Keep the previous selection while the state and the selection are equal
+  const getSelection = useMemo(() => {
+    let last: { state: T; selection: S } | null = null;
+    return (): S | undefined => {
+      const store = findFormPersistStore<T>(fullKey);
+      if (!store) {
+        last = null;
+        return undefined;
+      }
+
+      const state = store.getState();
+      if (last && last.state === state) {
+        return last.selection;
+      }
+      const selection = selector(state);
+      if (last && isEqualSelection(last.selection, selection)) {
+        last = { state, selection: last.selection };
+      } else {
+        last = { state, selection };
+      }
+      return last.selection;
+    };
+  }, [fullKey, selector, isEqualSelection]);
+
+  return useSyncExternalStore(subscribe, getSelection, getSelection);
+}
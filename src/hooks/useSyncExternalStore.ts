@@ -0,0 +1,48 @@
+/**
+ * react-form-autosave
+ * @version 0.1.2
+ * @author 686f6c61
+ * @license MIT
+ * @repository https://github.com/686f6c61/react-form-autosave
+ *
+ * useSyncExternalStore with a fallback for React 17, which does not have it
+ */
+
+import * as React from 'react';
+import { useEffect, useReducer, useRef } from 'react';
+
+/**
+ * useSyncExternalStore for React 17, which does not have it
+ */
+/* istanbul ignore next -- @preserve React 17 fallback */
+function useSyncExternalStoreFallback<S>(
+  subscribe: (listener: () => void) => () => void,
+  getSnapshot: () => S,
+  _getServerSnapshot?: () => S
+): S {
+  const snapshot = getSnapshot();
+  const [, forceRender] = useReducer((count: number) => count + 1, 0);
+  const renderedRef = useRef(snapshot);
+
+  useEffect(() => {
+    renderedRef.current = snapshot;
+  });
+
+  useEffect(() => {
+    const check = () => {
+      if (getSnapshot() !== renderedRef.current) {
+        forceRender();
+      }
+    };
+    const unsubscribe = subscribe(check);
+    // Changes made before subscribing
+    check();
+    return unsubscribe;
+  }, [subscribe, getSnapshot]);
+
+  return snapshot;
+}
+
+export const useSyncExternalStore =
+  (React as { useSyncExternalStore?: typeof useSyncExternalStoreFallback }).useSyncExternalStore ??
+  useSyncExternalStoreFallback;
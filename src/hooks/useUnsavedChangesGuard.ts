@@ -0,0 +1,106 @@
+/**
+ * react-form-autosave
+ * @version 0.1.2
+ * @author 686f6c61
+ * @license MIT
+ * @repository https://github.com/686f6c61/react-form-autosave
+ *
+ * Navigation guard for forms with changes that have not reached storage
+ */
+
+import { useCallback, useEffect } from 'react';
+import type {
+  FormPersistActions,
+  UnsavedChangesGuardOptions,
+  UnsavedChangesGuardReturn,
+} from '../core/types';
+import { isSSR } from '../storage';
+
+const DEFAULT_MESSAGE = 'You have unsaved changes. Are you sure you want to leave?';
+
+/**
+ * Fields the guard reads (useFormPersist actions provide all of them)
+ */
+type GuardedPersist = Pick<
+  FormPersistActions<unknown>,
+  'isDirty' | 'isSaving' | 'isPaused' | 'status'
+> &
+  Partial<Pick<FormPersistActions<unknown>, 'hasUnsavedChanges'>>;
+
+/**
+ * Check whether leaving now would lose changes
+ * Pending and in-flight saves always count. `hasUnsavedChanges` compares the
+ * state with the one last saved, restored or cleared. Without it, a dirty form
+ * counts unless its last save succeeded while persistence was running, which
+ * also covers forms with persistence disabled (nothing is ever saved).
+ */
+function detectUnsavedChanges(persist: GuardedPersist): boolean {
+  if (persist.isSaving) {
+    return true;
+  }
+  if (persist.hasUnsavedChanges !== undefined) {
+    return persist.hasUnsavedChanges;
+  }
+  return persist.isDirty && (persist.status !== 'saved' || persist.isPaused);
+}
+
+/**
+ * Hook that warns before leaving a form with unsaved changes
+ *
+ * Registers a `beforeunload` prompt while changes are unsaved and returns a
+ * `confirmNavigation()` function for in-app navigation. Stays silent once
+ * everything has been flushed to storage.
+ *
+ * @param persist - Actions returned by useFormPersist (or any object exposing the same fields)
+ * @param options - Guard options
+ * @returns Whether changes are unsaved and a navigation confirmation function
+ *
+ * @example
+ * ```tsx
+ * const [formData, setFormData, actions] = useFormPersist('myForm', initialState);
+ * const { confirmNavigation } = useUnsavedChangesGuard(actions, {
+ *   message: 'Your draft has not been saved yet. Leave anyway?',
+ * });
+ *
+ * // With any router
+ * const handleCancel = () => {
+ *   if (confirmNavigation()) {
+ *     navigate('/dashboard');
+ *   }
+ * };
+ * ```
+ */
+export function useUnsavedChangesGuard(
+  persist: GuardedPersist,
+  options: UnsavedChangesGuardOptions = {}
+): UnsavedChangesGuardReturn {
+  const { message = DEFAULT_MESSAGE, when = true } = options;
+  const hasUnsavedChanges = when && detectUnsavedChanges(persist);
+
+  useEffect(() => {
+    if (isSSR() || !hasUnsavedChanges) {
+      return;
+    }
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      // Legacy browsers only show the prompt when returnValue is set
+      event.returnValue = message;
+      return message;
+    };
+
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => {
+      window.removeEventListener('beforeunload', handleBeforeUnload);
+    };
+  }, [hasUnsavedChanges, message]);
+
+  const confirmNavigation = useCallback((): boolean => {
+    if (!hasUnsavedChanges || isSSR()) {
+      return true;
+    }
+    return window.confirm(message);
+  }, [hasUnsavedChanges, message]);
+
+  return { hasUnsavedChanges, confirmNavigation };
+}
@@ -6,7 +6,7 @@
  * @repository https://github.com/686f6c61/react-form-autosave
  *
  * Main entry point - exports core functionality
- * Optional modules (history, sync, devtools, testing) are available as separate imports
+ * Optional modules (history, sync, drafts, devtools, testing) are available as separate imports
  * for tree-shaking optimization.
  *
  * @example Basic usage
@@ -47,6 +47,7 @@
  * ```tsx
  * import { useHistory } from 'react-form-autosave/history';
  * import { useSync } from 'react-form-autosave/sync';
+ * import { useDrafts, DraftList } from 'react-form-autosave/drafts';
  * import { FormPersistDevTools } from 'react-form-autosave/devtools';
  * import { createMockStorage } from 'react-form-autosave/testing';
  * ```
@@ -56,25 +57,68 @@
 export type {
   StorageType,
   StorageAdapter,
+  IndexedDBStorageOptions,
+  IndexedDBStorageAdapter,
   MergeStrategy,
   MergeFn,
+  FieldPath,
+  SettablePath,
+  PathValue,
+  ArrayPath,
+  ArrayPathItem,
+  FieldValues,
   TransformOptions,
+  EncryptionAlgorithm,
+  EncryptionOptions,
   SyncStrategy,
   SyncOptions,
+  SyncConflict,
+  ConflictResolution,
+  FieldClock,
+  FieldClockEntry,
   HistoryOptions,
+  HistoryCoalesceBy,
+  HistoryEntry,
+  HistorySnapshot,
+  FormHistoryManager,
+  SetStateOptions,
+  FormPersistSetState,
   CompressionOptions,
+  CompressionCodec,
   PartitionOptions,
   MigrateFn,
+  MigrationStep,
+  MigrationMap,
+  DowngradePolicy,
   PersistError,
   PersistErrorInfo,
+  SaveStatus,
+  RestoreMode,
+  PendingDraft,
+  FlushEvent,
   FormPersistOptions,
   FormPersistActions,
   UseFormPersistReturn,
   UseFormPersistReturnObject,
+  FormPersistStore,
+  FormPersistStoreSnapshot,
+  UnsavedChangesGuardOptions,
+  UnsavedChangesGuardReturn,
+  UndoRedoShortcutsOptions,
+  FormPersistSelectorOptions,
+  FieldType,
+  FieldOptions,
+  FieldProps,
   PersistedData,
   FormPersistContextValue,
   FormPersistRegistryEntry,
   AutoSaveIndicatorProps,
+  AutoSaveIndicatorPersistProps,
+  AutoSaveIndicatorBaseProps,
+  SyncConflictDialogProps,
+  RestoreDraftBannerProps,
+  PersistedFormProps,
+  PersistedFormValues,
   FormPersistDevToolsProps,
 } from './core/types';
 
@@ -84,22 +128,39 @@ export {
   VERSION,
   DEFAULT_KEY_PREFIX,
   DEFAULT_DEBOUNCE,
+  DEFAULT_FLUSH_ON,
   DEFAULT_VERSION,
   DEFAULT_MAX_HISTORY,
+  DEFAULT_HISTORY_MAX_BYTES,
+  DEFAULT_HISTORY_CHECKPOINT_INTERVAL,
+  DEFAULT_HISTORY_MAX_BRANCHES,
 } from './core/constants';
 
 // Main hook
 export { useFormPersist, useFormPersistObject } from './hooks';
 
+// Slice of a form shared by key
+export { useFormPersistSelector } from './hooks';
+
+// Framework-agnostic store
+export { createFormPersistStore } from './core/store';
+export { getFormPersistStore } from './core/sharedStores';
+
+// Navigation guard
+export { useUnsavedChangesGuard } from './hooks';
+
 // Provider and components
 export {
   FormPersistProvider,
   useFormPersistContext,
   useFormRegistry,
   AutoSaveIndicator,
+  SyncConflictDialog,
+  RestoreDraftBanner,
+  PersistedForm,
 } from './components';
 
-export type { FormPersistProviderProps } from './components';
+export type { FormPersistProviderProps, FormRegistryValue } from './components';
 
 // Utilities
 export {
@@ -112,6 +173,8 @@ export {
 // Storage utilities (for advanced use cases)
 export {
   createMemoryStorage,
+  createIndexedDBStorage,
+  isIndexedDBAvailable,
   isStorageAvailable,
   getStorageAdapter,
   isSSR,
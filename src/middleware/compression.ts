@@ -0,0 +1,406 @@
+/**
+ * react-form-autosave
+ * @version 0.1.2
+ * @author 686f6c61
+ * @license MIT
+ * @repository https://github.com/686f6c61/react-form-autosave
+ *
+ * Compression codecs for persisted data
+ * - LZ: synchronous, zero-dependency LZW over UTF-8 bytes
+ * - Deflate: asynchronous `CompressionStream('deflate-raw')` when available
+ *
+ * Compressed payloads start with a one-character codec marker so any codec
+ * (including the legacy run-length encoding) can be decoded later.
+ */
+
+import type { CompressionCodec } from '../core/types';
+
+/**
+ * Marker for legacy run-length encoded payloads (see simpleCompress)
+ */
+export const RLE_MARKER = '\x01';
+
+/**
+ * Marker for LZ-compressed payloads
+ */
+export const LZ_MARKER = '\x02';
+
+/**
+ * Marker for deflate-raw compressed payloads
+ */
+export const DEFLATE_MARKER = '\x03';
+
+/**
+ * Bits stored per output character. Characters are offset by CHAR_OFFSET so the
+ * output contains no control characters and no UTF-16 surrogates.
+ */
+const BITS_PER_CHAR = 15;
+const CHAR_OFFSET = 32;
+
+/**
+ * Bits used for the length header at the start of the bit stream
+ */
+const HEADER_BITS = 30;
+
+/**
+ * LZW dictionary limits (codes are at most 16 bits wide)
+ */
+const MAX_DICTIONARY_SIZE = 1 << 16;
+const MAX_CODE_WIDTH = 16;
+
+function utf8Encode(data: string): number[] {
+  const bytes: number[] = [];
+
+  for (let i = 0; i < data.length; i++) {
+    let code = data.charCodeAt(i);
+
+    // Combine surrogate pairs into a single code point
+    if (code >= 0xd800 && code <= 0xdbff && i + 1 < data.length) {
+      const next = data.charCodeAt(i + 1);
+      if (next >= 0xdc00 && next <= 0xdfff) {
+        code = 0x10000 + ((code - 0xd800) << 10) + (next - 0xdc00);
+        i++;
+      }
+    }
+
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 0x3f),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f)
+      );
+    }
+  }
+
+  return bytes;
+}
+
+function utf8Decode(bytes: ArrayLike<number>): string {
+  let result = '';
+  let i = 0;
+
+  while (i < bytes.length) {
+    const byte = bytes[i++];
+    let code: number;
+
+    if (byte < 0x80) {
+      code = byte;
+    } else if (byte < 0xe0) {
+      code = ((byte & 0x1f) << 6) | (bytes[i++] & 0x3f);
+    } else if (byte < 0xf0) {
+      code = ((byte & 0x0f) << 12) | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f);
+    } else {
+      code =
+        ((byte & 0x07) << 18) |
+        ((bytes[i++] & 0x3f) << 12) |
+        ((bytes[i++] & 0x3f) << 6) |
+        (bytes[i++] & 0x3f);
+    }
+
+    if (code >= 0x10000) {
+      code -= 0x10000;
+      result += String.fromCharCode(0xd800 + (code >> 10), 0xdc00 + (code & 0x3ff));
+    } else {
+      result += String.fromCharCode(code);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Write variable-width values into 15-bit characters
+ */
+function createBitWriter(): {
+  write: (value: number, width: number) => void;
+  finish: () => string;
+} {
+  const chars: string[] = [];
+  let buffer = 0;
+  let bufferBits = 0;
+
+  const write = (value: number, width: number): void => {
+    for (let bit = width - 1; bit >= 0; bit--) {
+      buffer = (buffer << 1) | ((value >> bit) & 1);
+      bufferBits++;
+      if (bufferBits === BITS_PER_CHAR) {
+        chars.push(String.fromCharCode(buffer + CHAR_OFFSET));
+        buffer = 0;
+        bufferBits = 0;
+      }
+    }
+  };
+
+  const finish = (): string => {
+    if (bufferBits > 0) {
+      chars.push(String.fromCharCode((buffer << (BITS_PER_CHAR - bufferBits)) + CHAR_OFFSET));
+      buffer = 0;
+      bufferBits = 0;
+    }
+    return chars.join('');
+  };
+
+  return { write, finish };
+}
+
+/**
+ * Read variable-width values from 15-bit characters
+ */
+function createBitReader(data: string, start: number): (width: number) => number {
+  let index = start;
+  let current = 0;
+  let remaining = 0;
+
+  return (width: number): number => {
+    let value = 0;
+    for (let i = 0; i < width; i++) {
+      if (remaining === 0) {
+        if (index >= data.length) {
+          throw new Error('Compressed data is truncated');
+        }
+        current = data.charCodeAt(index++) - CHAR_OFFSET;
+        remaining = BITS_PER_CHAR;
+      }
+      remaining--;
+      value = (value << 1) | ((current >> remaining) & 1);
+    }
+    return value;
+  };
+}
+
+function bitLength(value: number): number {
+  return Math.max(1, Math.ceil(Math.log2(value + 1)));
+}
+
+/**
+ * Width of the nth emitted LZW code: the dictionary holds at most 256 + n entries
+ */
+function codeWidth(index: number): number {
+  return Math.min(bitLength(255 + index), MAX_CODE_WIDTH);
+}
+
+/**
+ * Compress a string with LZW over its UTF-8 bytes
+ * The output is marker-prefixed and only uses characters that are safe to store
+ * in localStorage, sessionStorage and IndexedDB.
+ *
+ * @param data - String to compress
+ * @returns LZ-compressed string
+ *
+ * @example
+ * ```typescript
+ * const compressed = lzCompress(JSON.stringify(formData));
+ * const original = lzDecompress(compressed);
+ * ```
+ */
+export function lzCompress(data: string): string {
+  const bytes = utf8Encode(data);
+  const dictionary = new Map<string, number>();
+  for (let i = 0; i < 256; i++) {
+    dictionary.set(String.fromCharCode(i), i);
+  }
+
+  const codes: number[] = [];
+  let nextCode = 256;
+  let phrase = '';
+
+  for (const byte of bytes) {
+    const char = String.fromCharCode(byte);
+    const extended = phrase + char;
+    if (dictionary.has(extended)) {
+      phrase = extended;
+      continue;
+    }
+    codes.push(dictionary.get(phrase) as number);
+    if (nextCode < MAX_DICTIONARY_SIZE) {
+      dictionary.set(extended, nextCode++);
+    }
+    phrase = char;
+  }
+  if (phrase) {
+    codes.push(dictionary.get(phrase) as number);
+  }
+
+  const writer = createBitWriter();
+  writer.write(codes.length, HEADER_BITS);
+  codes.forEach((code, index) => writer.write(code, codeWidth(index)));
+
+  return `${LZ_MARKER}${writer.finish()}`;
+}
+
+/**
+ * Decompress a string produced by lzCompress
+ *
+ * @param data - LZ-compressed string
+ * @returns The original string
+ * @throws Error if the payload is not LZ-compressed or is corrupted
+ */
+export function lzDecompress(data: string): string {
+  if (data[0] !== LZ_MARKER) {
+    throw new Error('Data is not LZ-compressed');
+  }
+
+  const read = createBitReader(data, 1);
+  const count = read(HEADER_BITS);
+  if (count === 0) {
+    return '';
+  }
+
+  // Dictionary entries are binary strings (one char per byte)
+  const dictionary: string[] = [];
+  for (let i = 0; i < 256; i++) {
+    dictionary.push(String.fromCharCode(i));
+  }
+
+  const first = read(codeWidth(0));
+  if (first >= 256) {
+    throw new Error('Compressed data is corrupted');
+  }
+
+  let previous = dictionary[first];
+  const parts: string[] = [previous];
+
+  for (let index = 1; index < count; index++) {
+    const code = read(codeWidth(index));
+    let entry: string;
+
+    if (code < dictionary.length) {
+      entry = dictionary[code];
+    } else if (code === dictionary.length) {
+      entry = previous + previous[0];
+    } else {
+      throw new Error('Compressed data is corrupted');
+    }
+
+    parts.push(entry);
+    if (dictionary.length < MAX_DICTIONARY_SIZE) {
+      dictionary.push(previous + entry[0]);
+    }
+    previous = entry;
+  }
+
+  const binary = parts.join('');
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return utf8Decode(bytes);
+}
+
+/**
+ * Check if CompressionStream with deflate-raw support is available
+ *
+ * @returns boolean indicating if the async deflate codec can be used
+ */
+export function isDeflateAvailable(): boolean {
+  if (typeof CompressionStream === 'undefined' || typeof DecompressionStream === 'undefined') {
+    return false;
+  }
+  try {
+    new CompressionStream('deflate-raw' as CompressionFormat);
+    return true;
+  } catch {
+    /* istanbul ignore next -- @preserve Browsers without deflate-raw support */
+    return false;
+  }
+}
+
+async function pipeThroughStream(
+  stream: CompressionStream | DecompressionStream,
+  input: Uint8Array<ArrayBuffer>
+): Promise<Uint8Array> {
+  const writer = stream.writable.getWriter();
+  const writing = writer.write(input).then(() => writer.close());
+
+  const reader = stream.readable.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    total += value.length;
+  }
+  await writing;
+
+  const output = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+}
+
+/**
+ * Compress a string with deflate-raw via CompressionStream
+ *
+ * @param data - String to compress
+ * @returns Marker-prefixed compressed string
+ */
+export async function deflateCompress(data: string): Promise<string> {
+  const compressed = await pipeThroughStream(
+    new CompressionStream('deflate-raw' as CompressionFormat),
+    new Uint8Array(utf8Encode(data))
+  );
+
+  const writer = createBitWriter();
+  writer.write(compressed.length, HEADER_BITS);
+  for (const byte of compressed) {
+    writer.write(byte, 8);
+  }
+
+  return `${DEFLATE_MARKER}${writer.finish()}`;
+}
+
+/**
+ * Decompress a string produced by deflateCompress
+ *
+ * @param data - Deflate-compressed string
+ * @returns The original string
+ */
+export async function deflateDecompress(data: string): Promise<string> {
+  if (data[0] !== DEFLATE_MARKER) {
+    throw new Error('Data is not deflate-compressed');
+  }
+
+  const read = createBitReader(data, 1);
+  const length = read(HEADER_BITS);
+  const compressed = new Uint8Array(length);
+  for (let i = 0; i < length; i++) {
+    compressed[i] = read(8);
+  }
+
+  const bytes = await pipeThroughStream(
+    new DecompressionStream('deflate-raw' as CompressionFormat),
+    compressed
+  );
+  return utf8Decode(bytes);
+}
+
+/**
+ * Get the codec used to compress a payload from its marker
+ *
+ * @param data - Stored string
+ * @returns The codec, `rle` for legacy payloads, or null if uncompressed
+ */
+export function getCompressionCodec(data: string): CompressionCodec | 'rle' | null {
+  switch (data[0]) {
+    case RLE_MARKER:
+      return 'rle';
+    case LZ_MARKER:
+      return 'lz';
+    case DEFLATE_MARKER:
+      return 'deflate';
+    default:
+      return null;
+  }
+}
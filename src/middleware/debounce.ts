@@ -14,6 +14,7 @@
  *
  * @param callback - The function to debounce
  * @param wait - Wait time in milliseconds
+ * @param onPendingChange - Optional listener notified when a call starts or stops waiting
  * @returns Object with debounced function, cancel, and flush methods
  *
  * @example
@@ -37,7 +38,8 @@
  */
 export function createDebouncedFn<TArgs extends unknown[]>(
   callback: (...args: TArgs) => void,
-  wait: number
+  wait: number,
+  onPendingChange?: (pending: boolean) => void
 ): {
   debounced: (...args: TArgs) => void;
   cancel: () => void;
@@ -51,6 +53,7 @@ export function createDebouncedFn<TArgs extends unknown[]>(
     if (timeoutId !== null) {
       clearTimeout(timeoutId);
       timeoutId = null;
+      onPendingChange?.(false);
     }
     lastArgs = null;
   };
@@ -72,10 +75,13 @@ export function createDebouncedFn<TArgs extends unknown[]>(
 
     if (timeoutId !== null) {
       clearTimeout(timeoutId);
+    } else {
+      onPendingChange?.(true);
     }
 
     timeoutId = setTimeout(() => {
       timeoutId = null;
+      onPendingChange?.(false);
       if (lastArgs !== null) {
         const argsToUse = lastArgs;
         lastArgs = null;
@@ -169,6 +175,7 @@ export function createThrottledFn<TArgs extends unknown[]>(
  * @param callback - The function to control
  * @param debounceWait - Debounce wait time in milliseconds
  * @param throttleInterval - Optional throttle interval in milliseconds
+ * @param onPendingChange - Optional listener notified when the debounce window opens or closes
  * @returns Combined control object
  *
  * @example
@@ -187,14 +194,15 @@ export function createThrottledFn<TArgs extends unknown[]>(
 export function createSaveController<TArgs extends unknown[]>(
   callback: (...args: TArgs) => void,
   debounceWait: number,
-  throttleInterval?: number
+  throttleInterval?: number,
+  onPendingChange?: (pending: boolean) => void
 ): {
   save: (...args: TArgs) => void;
   cancel: () => void;
   flush: () => void;
   pending: () => boolean;
 } {
-  const debounce = createDebouncedFn(callback, debounceWait);
+  const debounce = createDebouncedFn(callback, debounceWait, onPendingChange);
 
   if (!throttleInterval) {
     return {
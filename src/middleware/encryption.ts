@@ -0,0 +1,171 @@
+/**
+ * react-form-autosave
+ * @version 0.1.2
+ * @author 686f6c61
+ * @license MIT
+ * @repository https://github.com/686f6c61/react-form-autosave
+ *
+ * Authenticated encryption of persisted data using the Web Crypto API
+ */
+
+import type { EncryptionOptions } from '../core/types';
+
+/**
+ * Prefix identifying encrypted payloads and the format version
+ */
+export const ENCRYPTION_MARKER = 'rfp-enc:v1:';
+
+/**
+ * Length in bytes of the random AES-GCM initialization vector
+ */
+const IV_LENGTH = 12;
+
+/**
+ * Error name used for any decryption failure (wrong key, tampered or malformed data)
+ */
+const DECRYPTION_ERROR_NAME = 'DecryptionError';
+
+/**
+ * Create the error thrown when a payload cannot be decrypted
+ */
+function createDecryptionError(message: string, cause?: unknown): Error {
+  const error = new Error(message);
+  error.name = DECRYPTION_ERROR_NAME;
+  if (cause !== undefined) {
+    (error as Error & { cause?: unknown }).cause = cause;
+  }
+  return error;
+}
+
+/**
+ * Check whether an error was raised while decrypting
+ *
+ * @param error - The error to check
+ * @returns boolean indicating if it is a decryption error
+ */
+export function isDecryptionError(error: unknown): boolean {
+  return error instanceof Error && error.name === DECRYPTION_ERROR_NAME;
+}
+
+/**
+ * Get the SubtleCrypto implementation or throw if unavailable
+ */
+function getSubtleCrypto(): SubtleCrypto {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new Error('Web Crypto API is not available');
+  }
+  return crypto.subtle;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+function base64ToBytes(data: string): Uint8Array {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Create a resolver that caches the encryption key
+ * Key factories are only invoked once; a failed factory is retried on the next call.
+ *
+ * @param key - A CryptoKey or a function resolving to one
+ * @returns Function returning the resolved key
+ */
+export function createKeyResolver(
+  key: EncryptionOptions['key']
+): () => Promise<CryptoKey> {
+  let cached: Promise<CryptoKey> | null = null;
+
+  return () => {
+    if (!cached) {
+      cached = Promise.resolve(typeof key === 'function' ? key() : key).catch(
+        (error: unknown) => {
+          cached = null;
+          throw error;
+        }
+      );
+    }
+    return cached;
+  };
+}
+
+/**
+ * Encrypt a string with AES-GCM using a random IV for every call
+ *
+ * @param plaintext - The string to encrypt
+ * @param key - AES-GCM CryptoKey
+ * @returns Marker-prefixed base64 string containing the IV and ciphertext
+ *
+ * @example
+ * ```typescript
+ * const key = await crypto.subtle.generateKey(
+ *   { name: 'AES-GCM', length: 256 },
+ *   false,
+ *   ['encrypt', 'decrypt']
+ * );
+ * const payload = await encryptString('secret', key);
+ * ```
+ */
+export async function encryptString(plaintext: string, key: CryptoKey): Promise<string> {
+  const subtle = getSubtleCrypto();
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+
+  const payload = new Uint8Array(IV_LENGTH + ciphertext.byteLength);
+  payload.set(iv, 0);
+  payload.set(new Uint8Array(ciphertext), IV_LENGTH);
+
+  return `${ENCRYPTION_MARKER}${bytesToBase64(payload)}`;
+}
+
+/**
+ * Decrypt a payload produced by encryptString
+ * AES-GCM authenticates the ciphertext, so a wrong key or any tampering
+ * results in a DecryptionError instead of garbage output.
+ *
+ * @param payload - Marker-prefixed encrypted string
+ * @param key - AES-GCM CryptoKey
+ * @returns The decrypted string
+ */
+export async function decryptString(payload: string, key: CryptoKey): Promise<string> {
+  if (!payload.startsWith(ENCRYPTION_MARKER)) {
+    throw createDecryptionError('Stored data is not encrypted');
+  }
+
+  let bytes: Uint8Array;
+  try {
+    bytes = base64ToBytes(payload.slice(ENCRYPTION_MARKER.length));
+  } catch (error) {
+    throw createDecryptionError('Encrypted payload is malformed', error);
+  }
+
+  if (bytes.length <= IV_LENGTH) {
+    throw createDecryptionError('Encrypted payload is malformed');
+  }
+
+  const subtle = getSubtleCrypto();
+  try {
+    const plaintext = await subtle.decrypt(
+      { name: 'AES-GCM', iv: bytes.slice(0, IV_LENGTH) },
+      key,
+      bytes.slice(IV_LENGTH)
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch (error) {
+    throw createDecryptionError('Failed to decrypt stored data', error);
+  }
+}
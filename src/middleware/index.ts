@@ -21,12 +21,51 @@ export {
   base64Decode,
   simpleCompress,
   simpleDecompress,
+  decompress,
+  decompressAsync,
+  resolveCompressionOptions,
   createTransformPipeline,
+  createAsyncTransformPipeline,
+  needsAsyncTransform,
   wrapWithMetadata,
   unwrapData,
   filterExcludedFields,
+  filterIncludedFields,
+  applyFieldFilters,
+  restoreFilteredFields,
 } from './transform';
 
+export {
+  RLE_MARKER,
+  LZ_MARKER,
+  DEFLATE_MARKER,
+  lzCompress,
+  lzDecompress,
+  deflateCompress,
+  deflateDecompress,
+  isDeflateAvailable,
+  getCompressionCodec,
+} from './compression';
+
+export {
+  PATH_WILDCARD,
+  parsePath,
+  getPathValue,
+  setPathValue,
+  omitPaths,
+  pickPaths,
+  copyPaths,
+  diffPaths,
+} from './paths';
+
+export {
+  ENCRYPTION_MARKER,
+  encryptString,
+  decryptString,
+  isDecryptionError,
+  createKeyResolver,
+} from './encryption';
+
 export {
   shallowMerge,
   deepMerge,
@@ -41,8 +80,11 @@ export {
   isExpired,
   needsMigration,
   migrateData,
+  runMigrations,
   createErrorInfo,
   detectErrorType,
   safeJsonParse,
   validateData,
 } from './validate';
+
+export type { MigrationResult } from './validate';
@@ -0,0 +1,394 @@
+/**
+ * react-form-autosave
+ * @version 0.1.2
+ * @author 686f6c61
+ * @license MIT
+ * @repository https://github.com/686f6c61/react-form-autosave
+ *
+ * Field path utilities for nested include/exclude filtering
+ * Paths use dot and bracket notation with wildcards:
+ * - `payment.cardNumber`
+ * - `applicants[0].ssn`
+ * - `applicants[*].ssn` (every array item)
+ * - `contacts.*.phone` (every object key)
+ */
+
+import { isEqual } from './merge';
+
+/**
+ * Wildcard segment matching every array item or object key
+ */
+export const PATH_WILDCARD = '*';
+
+/**
+ * Keys that are never traversed or written to prevent prototype pollution
+ */
+const DANGEROUS_KEYS = ['__proto__', 'constructor', 'prototype'];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.prototype.toString.call(value) === '[object Object]'
+  );
+}
+
+function isContainer(value: unknown): value is Record<string, unknown> | unknown[] {
+  return Array.isArray(value) || isPlainObject(value);
+}
+
+/**
+ * Parse a path expression into segments
+ *
+ * @param path - Path expression (e.g. `applicants[*].ssn`)
+ * @returns Array of segments, with `*` for wildcards
+ *
+ * @example
+ * ```typescript
+ * parsePath('applicants[*].address.city'); // ['applicants', '*', 'address', 'city']
+ * parsePath('items[2]'); // ['items', '2']
+ * ```
+ */
+export function parsePath(path: string): string[] {
+  const segments: string[] = [];
+
+  for (const part of path.split('.')) {
+    const pattern = /([^[\]]+)|\[([^\]]*)\]/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(part)) !== null) {
+      const segment = (match[1] ?? match[2]).trim();
+      if (segment) {
+        segments.push(segment);
+      }
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Get the value at a path (wildcards are not supported)
+ *
+ * @param data - Source object
+ * @param path - Path expression or parsed segments
+ * @returns The value at the path, or undefined if missing
+ */
+export function getPathValue(data: unknown, path: string | string[]): unknown {
+  const segments = typeof path === 'string' ? parsePath(path) : path;
+  let current: unknown = data;
+
+  for (const segment of segments) {
+    if (!isContainer(current) || DANGEROUS_KEYS.includes(segment)) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+
+  return current;
+}
+
+/**
+ * Immutably set the value at a path, creating missing objects and arrays
+ * Numeric segments create arrays, other segments create objects.
+ *
+ * @param data - Source object
+ * @param path - Path expression or parsed segments
+ * @param value - Value to set
+ * @returns A copy of data with the value set
+ */
+export function setPathValue<T>(data: T, path: string | string[], value: unknown): T {
+  const segments = typeof path === 'string' ? parsePath(path) : path;
+  if (segments.length === 0) {
+    return value as T;
+  }
+
+  if (segments.some((s) => DANGEROUS_KEYS.includes(s) || s === PATH_WILDCARD)) {
+    return data;
+  }
+
+  const [segment, ...rest] = segments;
+  const container: unknown = data;
+  const child = isContainer(container)
+    ? (container as Record<string, unknown>)[segment]
+    : undefined;
+  const nextChild =
+    rest.length === 0
+      ? value
+      : setPathValue(
+          isContainer(child) ? child : /^\d+$/.test(rest[0]) ? [] : {},
+          rest,
+          value
+        );
+
+  if (Array.isArray(container)) {
+    const copy = [...container];
+    copy[Number(segment)] = nextChild;
+    return copy as unknown as T;
+  }
+
+  return {
+    ...(isPlainObject(container) ? container : {}),
+    [segment]: nextChild,
+  } as T;
+}
+
+function omitSegments(value: unknown, segments: string[]): unknown {
+  if (!isContainer(value) || segments.length === 0) {
+    return value;
+  }
+
+  const [segment, ...rest] = segments;
+  const isLast = rest.length === 0;
+
+  if (Array.isArray(value)) {
+    if (segment === PATH_WILDCARD) {
+      return isLast ? [] : value.map((item) => omitSegments(item, rest));
+    }
+    const index = Number(segment);
+    if (!Number.isInteger(index) || index < 0 || index >= value.length) {
+      return value;
+    }
+    // An omitted item leaves an empty slot, so later items keep their index
+    const copy = [...value];
+    copy[index] = isLast ? undefined : omitSegments(value[index], rest);
+    return copy;
+  }
+
+  if (segment === PATH_WILDCARD) {
+    if (isLast) {
+      return {};
+    }
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(value)) {
+      result[key] = omitSegments(value[key], rest);
+    }
+    return result;
+  }
+
+  if (!(segment in value)) {
+    return value;
+  }
+
+  const result: Record<string, unknown> = { ...value };
+  if (isLast) {
+    delete result[segment];
+  } else {
+    result[segment] = omitSegments(value[segment], rest);
+  }
+  return result;
+}
+
+/**
+ * Immutably remove every value matching the given paths
+ * Array items matched by index are replaced with undefined (null once
+ * serialized), so the other items keep their positions.
+ *
+ * @param data - Source object
+ * @param paths - Path expressions to remove
+ * @returns A copy of data without the matched values
+ *
+ * @example
+ * ```typescript
+ * omitPaths(
+ *   { payment: { holder: 'Jane', cardNumber: '4111' }, applicants: [{ name: 'A', ssn: '1' }] },
+ *   ['payment.cardNumber', 'applicants[*].ssn']
+ * );
+ * // { payment: { holder: 'Jane' }, applicants: [{ name: 'A' }] }
+ * ```
+ */
+export function omitPaths<T>(data: T, paths: readonly string[]): Partial<T> {
+  let result: unknown = data;
+  for (const path of paths) {
+    result = omitSegments(result, parsePath(path));
+  }
+  return result as Partial<T>;
+}
+
+function pickSegments(value: unknown, segments: string[]): unknown {
+  if (segments.length === 0) {
+    return value;
+  }
+  if (!isContainer(value)) {
+    return undefined;
+  }
+
+  const [segment, ...rest] = segments;
+
+  if (Array.isArray(value)) {
+    if (segment === PATH_WILDCARD) {
+      return value.map((item) => pickSegments(item, rest));
+    }
+    const index = Number(segment);
+    if (!Number.isInteger(index) || index < 0 || index >= value.length) {
+      return undefined;
+    }
+    const result: unknown[] = [];
+    result[index] = pickSegments(value[index], rest);
+    return result;
+  }
+
+  const keys = segment === PATH_WILDCARD ? Object.keys(value) : [segment];
+  const result: Record<string, unknown> = {};
+  let found = false;
+
+  for (const key of keys) {
+    if (DANGEROUS_KEYS.includes(key) || !(key in value)) {
+      continue;
+    }
+    const picked = pickSegments(value[key], rest);
+    if (picked !== undefined) {
+      result[key] = picked;
+      found = true;
+    }
+  }
+
+  return found ? result : undefined;
+}
+
+function mergePicked(target: unknown, source: unknown): unknown {
+  if (source === undefined) {
+    return target;
+  }
+  if (Array.isArray(target) && Array.isArray(source)) {
+    const length = Math.max(target.length, source.length);
+    const result: unknown[] = [];
+    for (let i = 0; i < length; i++) {
+      result[i] = mergePicked(target[i], source[i]);
+    }
+    return result;
+  }
+  if (isPlainObject(target) && isPlainObject(source)) {
+    const result: Record<string, unknown> = { ...target };
+    for (const key of Object.keys(source)) {
+      result[key] = mergePicked(target[key], source[key]);
+    }
+    return result;
+  }
+  return source;
+}
+
+/**
+ * Keep only the values matching the given paths (allow-list)
+ *
+ * @param data - Source object
+ * @param paths - Path expressions to keep
+ * @returns A new object containing only the matched values
+ *
+ * @example
+ * ```typescript
+ * pickPaths(
+ *   { name: 'Jane', payment: { holder: 'Jane', cardNumber: '4111' } },
+ *   ['name', 'payment.holder']
+ * );
+ * // { name: 'Jane', payment: { holder: 'Jane' } }
+ * ```
+ */
+export function pickPaths<T>(data: T, paths: readonly string[]): Partial<T> {
+  let result: unknown = {};
+  for (const path of paths) {
+    result = mergePicked(result, pickSegments(data, parsePath(path)));
+  }
+  return result as Partial<T>;
+}
+
+function copySegments(target: unknown, source: unknown, segments: string[]): unknown {
+  if (segments.length === 0) {
+    return source === undefined ? target : source;
+  }
+  if (!isContainer(target) || !isContainer(source)) {
+    return target;
+  }
+
+  const [segment, ...rest] = segments;
+  const isLast = rest.length === 0;
+
+  if (Array.isArray(target)) {
+    if (!Array.isArray(source)) {
+      return target;
+    }
+    if (segment === PATH_WILDCARD) {
+      return isLast
+        ? source
+        : target.map((item, i) => copySegments(item, source[i], rest));
+    }
+    const index = Number(segment);
+    if (!Number.isInteger(index) || index < 0 || index >= source.length) {
+      return target;
+    }
+    const copy = [...target];
+    copy[index] = copySegments(target[index], source[index], rest);
+    return copy;
+  }
+
+  if (Array.isArray(source)) {
+    return target;
+  }
+
+  const keys = segment === PATH_WILDCARD ? Object.keys(source) : [segment];
+  const result: Record<string, unknown> = { ...target };
+  for (const key of keys) {
+    if (DANGEROUS_KEYS.includes(key) || !(key in source)) {
+      continue;
+    }
+    result[key] = isLast ? source[key] : copySegments(target[key], source[key], rest);
+  }
+  return result;
+}
+
+/**
+ * Immutably copy the values matching the given paths from source into target
+ * Used to keep local-only fields (excluded from persistence) when applying
+ * data that was filtered before it was stored or broadcast.
+ *
+ * @param target - Object to copy into
+ * @param source - Object to copy from
+ * @param paths - Path expressions to copy
+ * @returns A copy of target with the matched values taken from source
+ */
+export function copyPaths<T>(target: T, source: unknown, paths: readonly string[]): T {
+  let result: unknown = target;
+  for (const path of paths) {
+    result = copySegments(result, source, parsePath(path));
+  }
+  return result as T;
+}
+
+function diffSegments(a: unknown, b: unknown, prefix: string, result: string[]): void {
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    for (const key of keys) {
+      if (DANGEROUS_KEYS.includes(key)) continue;
+      diffSegments(a[key], b[key], prefix ? `${prefix}.${key}` : key, result);
+    }
+    return;
+  }
+
+  if (!isEqual(a, b)) {
+    result.push(prefix);
+  }
+}
+
+/**
+ * List the paths of values that differ between two objects
+ * Nested objects are compared field by field; arrays and other values are
+ * compared as a whole.
+ *
+ * @param a - First object
+ * @param b - Second object
+ * @returns Paths of the changed values (empty string when the roots differ)
+ *
+ * @example
+ * ```typescript
+ * diffPaths(
+ *   { name: 'Jane', address: { city: 'Paris', zip: '75001' } },
+ *   { name: 'Jane', address: { city: 'Lyon', zip: '75001' } }
+ * );
+ * // ['address.city']
+ * ```
+ */
+export function diffPaths(a: unknown, b: unknown): string[] {
+  const result: string[] = [];
+  diffSegments(a, b, '', result);
+  return result;
+}
@@ -8,8 +8,26 @@
  * Data transformation utilities for serialization, compression, and encryption
  */
 
-import type { TransformOptions, PersistedData } from '../core/types';
+import type {
+  TransformOptions,
+  PersistedData,
+  EncryptionOptions,
+  CompressionOptions,
+  CompressionCodec,
+  FieldClock,
+  FieldPath,
+} from '../core/types';
 import { DEFAULT_COMPRESSION_THRESHOLD } from '../core/constants';
+import { createKeyResolver, encryptString, decryptString } from './encryption';
+import {
+  lzCompress,
+  lzDecompress,
+  deflateCompress,
+  deflateDecompress,
+  getCompressionCodec,
+  isDeflateAvailable,
+} from './compression';
+import { omitPaths, pickPaths, copyPaths } from './paths';
 
 /**
  * Default JSON serializer
@@ -78,8 +96,8 @@ export function base64Decode(data: string): string {
 }
 
 /**
- * Simple LZ-based compression using run-length encoding
- * Lightweight alternative to full LZ compression for small data
+ * Simple run-length encoding of repeated characters
+ * Legacy codec: new payloads use lzCompress, but RLE payloads are still decoded.
  *
  * @param data - String to compress
  * @returns Compressed string
@@ -145,35 +163,99 @@ export function simpleDecompress(data: string): string {
   return result;
 }
 
+/**
+ * Decompress a payload based on its codec marker (RLE or LZ)
+ * Uncompressed data is returned unchanged.
+ *
+ * @param data - Stored string
+ * @returns Decompressed string
+ * @throws Error for deflate payloads, which need decompressAsync
+ */
+export function decompress(data: string): string {
+  switch (getCompressionCodec(data)) {
+    case 'rle':
+      return simpleDecompress(data);
+    case 'lz':
+      return lzDecompress(data);
+    case 'deflate':
+      throw new Error('Deflate-compressed data requires asynchronous decompression');
+    default:
+      return data;
+  }
+}
+
+/**
+ * Decompress a payload based on its codec marker, including deflate payloads
+ *
+ * @param data - Stored string
+ * @returns Decompressed string
+ */
+export async function decompressAsync(data: string): Promise<string> {
+  if (getCompressionCodec(data) === 'deflate') {
+    return deflateDecompress(data);
+  }
+  return decompress(data);
+}
+
+/**
+ * Resolve compression settings from the `compress` option
+ *
+ * @param compress - Compression option
+ * @returns Whether to compress, the size threshold and the codec
+ */
+export function resolveCompressionOptions(compress?: boolean | CompressionOptions): {
+  enabled: boolean;
+  threshold: number;
+  codec: CompressionCodec;
+} {
+  if (typeof compress === 'object' && compress !== null) {
+    return {
+      enabled: compress.enabled ?? true,
+      threshold: compress.threshold ?? DEFAULT_COMPRESSION_THRESHOLD,
+      codec: compress.codec ?? 'lz',
+    };
+  }
+  return {
+    enabled: compress === true,
+    threshold: DEFAULT_COMPRESSION_THRESHOLD,
+    codec: 'lz',
+  };
+}
+
 /**
  * Creates a transform pipeline for data serialization
+ * Compressed payloads are decoded by their codec marker, so data written with
+ * an older codec (or with compression since disabled) still deserializes.
  *
  * @param options - Transform options
  * @param compress - Whether to apply compression
  * @param encrypt - Whether to apply obfuscation
+ * @param onCompress - Called with the input and output lengths when a payload is compressed
  * @returns Transform functions
  */
 export function createTransformPipeline<T>(
   options?: TransformOptions<T>,
-  compress?: boolean | { threshold?: number },
-  encrypt?: boolean
+  compress?: boolean | CompressionOptions,
+  encrypt?: boolean,
+  onCompress?: (originalLength: number, compressedLength: number) => void
 ): {
   serialize: (data: T) => string;
   deserialize: (data: string) => T | null;
 } {
-  const shouldCompress = compress === true || (typeof compress === 'object' && compress !== null);
-  /* istanbul ignore next -- @preserve Optional threshold branch */
-  const compressionThreshold =
-    typeof compress === 'object' ? compress.threshold ?? DEFAULT_COMPRESSION_THRESHOLD : DEFAULT_COMPRESSION_THRESHOLD;
+  const compression = resolveCompressionOptions(compress);
 
   return {
     serialize: (data: T): string => {
       // Step 1: Custom serialize or default JSON
       let result = options?.serialize ? options.serialize(data) : defaultSerialize(data);
 
-      // Step 2: Compress if enabled and above threshold
-      if (shouldCompress && result.length >= compressionThreshold) {
-        result = simpleCompress(result);
+      // Step 2: Compress if enabled, above threshold and smaller than the input
+      if (compression.enabled && result.length >= compression.threshold) {
+        const compressed = lzCompress(result);
+        if (compressed.length < result.length) {
+          onCompress?.(result.length, compressed.length);
+          result = compressed;
+        }
       }
 
       // Step 3: Obfuscate if enabled
@@ -193,10 +275,8 @@ export function createTransformPipeline<T>(
           result = base64Decode(result);
         }
 
-        // Step 2: Decompress if compressed
-        if (shouldCompress) {
-          result = simpleDecompress(result);
-        }
+        // Step 2: Decompress based on the codec marker
+        result = decompress(result);
 
         // Step 3: Custom deserialize or default JSON parse
         if (options?.deserialize) {
@@ -212,18 +292,104 @@ export function createTransformPipeline<T>(
   };
 }
 
+/**
+ * Check whether a pipeline for these options has to be asynchronous
+ *
+ * @param compress - Compression option
+ * @param encryption - Encryption options
+ * @returns boolean indicating if createAsyncTransformPipeline is required
+ */
+export function needsAsyncTransform(
+  compress: boolean | CompressionOptions | undefined,
+  encryption: EncryptionOptions | undefined
+): boolean {
+  const compression = resolveCompressionOptions(compress);
+  return (
+    Boolean(encryption) ||
+    (compression.enabled && compression.codec === 'deflate' && isDeflateAvailable())
+  );
+}
+
+/**
+ * Creates an asynchronous transform pipeline for deflate compression and
+ * authenticated encryption
+ * Runs the synchronous pipeline (serialize, LZ compress), then deflate-compresses
+ * when the `deflate` codec is selected and available, and finally encrypts the
+ * result with AES-GCM. Deserialization rejects with a DecryptionError when
+ * the key is wrong or the stored payload was tampered with.
+ *
+ * @param options - Transform options
+ * @param compress - Whether to apply compression
+ * @param encryption - Encryption options
+ * @param onCompress - Called with the input and output lengths when a payload is compressed
+ * @returns Asynchronous transform functions
+ */
+export function createAsyncTransformPipeline<T>(
+  options: TransformOptions<T> | undefined,
+  compress: boolean | CompressionOptions | undefined,
+  encryption?: EncryptionOptions,
+  onCompress?: (originalLength: number, compressedLength: number) => void
+): {
+  serialize: (data: T) => Promise<string>;
+  deserialize: (data: string) => Promise<T | null>;
+} {
+  const compression = resolveCompressionOptions(compress);
+  const useDeflate =
+    compression.enabled && compression.codec === 'deflate' && isDeflateAvailable();
+  const pipeline = createTransformPipeline<T>(
+    options,
+    useDeflate ? false : compress,
+    false,
+    onCompress
+  );
+  const resolveKey = encryption ? createKeyResolver(encryption.key) : null;
+
+  return {
+    serialize: async (data: T): Promise<string> => {
+      let result = pipeline.serialize(data);
+
+      if (useDeflate && result.length >= compression.threshold) {
+        const compressed = await deflateCompress(result);
+        if (compressed.length < result.length) {
+          onCompress?.(result.length, compressed.length);
+          result = compressed;
+        }
+      }
+
+      return resolveKey ? encryptString(result, await resolveKey()) : result;
+    },
+
+    deserialize: async (data: string): Promise<T | null> => {
+      const decrypted = resolveKey ? await decryptString(data, await resolveKey()) : data;
+
+      let result = decrypted;
+      if (getCompressionCodec(decrypted) === 'deflate') {
+        try {
+          result = await deflateDecompress(decrypted);
+        } catch {
+          return null;
+        }
+      }
+
+      return pipeline.deserialize(result);
+    },
+  };
+}
+
 /**
  * Wrap data with metadata for storage
  *
  * @param data - The data to wrap
  * @param version - Schema version
  * @param expiration - Expiration time in minutes (optional)
+ * @param clock - Per-field modification clock (optional)
  * @returns Wrapped data with metadata
  */
 export function wrapWithMetadata<T>(
   data: T,
   version: number,
-  expiration?: number
+  expiration?: number,
+  clock?: FieldClock
 ): PersistedData<T> {
   const now = Date.now();
   const wrapped: PersistedData<T> = {
@@ -236,6 +402,10 @@ export function wrapWithMetadata<T>(
     wrapped.expiresAt = now + expiration * 60 * 1000;
   }
 
+  if (clock && Object.keys(clock).length > 0) {
+    wrapped.clock = clock;
+  }
+
   return wrapped;
 }
 
@@ -260,27 +430,115 @@ export function unwrapData<T>(wrapped: PersistedData<T>): T | null {
 
 /**
  * Filter out excluded fields from data
+ * Entries can be top-level keys or nested path expressions with wildcards
+ * (e.g. `payment.cardNumber`, `applicants[*].ssn`).
  *
  * @param data - The data object
- * @param exclude - Array of field names to exclude
+ * @param exclude - Array of field names or paths to exclude
  * @returns Data with excluded fields removed
  */
 export function filterExcludedFields<T extends Record<string, unknown>>(
   data: T,
-  exclude: (keyof T)[]
+  exclude: readonly (keyof T | FieldPath<T>)[]
 ): Partial<T> {
   if (!exclude || exclude.length === 0) {
     return data;
   }
 
-  const filtered: Partial<T> = {};
-  const excludeSet = new Set(exclude);
+  const topLevel = new Set<string>();
+  const paths: string[] = [];
 
+  for (const entry of exclude) {
+    const key = String(entry);
+    // Literal top-level keys win over path parsing (keys may contain dots)
+    if (Object.prototype.hasOwnProperty.call(data, key)) {
+      topLevel.add(key);
+    } else {
+      paths.push(key);
+    }
+  }
+
+  const filtered: Partial<T> = {};
   for (const key of Object.keys(data)) {
-    if (!excludeSet.has(key as keyof T)) {
+    if (!topLevel.has(key)) {
       filtered[key as keyof T] = data[key as keyof T];
     }
   }
 
-  return filtered;
+  return paths.length > 0 ? omitPaths(filtered, paths) : filtered;
+}
+
+/**
+ * Keep only the included fields (allow-list mode)
+ *
+ * @param data - The data object
+ * @param include - Array of field names or paths to keep
+ * @returns Data containing only the included fields
+ */
+export function filterIncludedFields<T extends Record<string, unknown>>(
+  data: T,
+  include: readonly (keyof T | FieldPath<T>)[]
+): Partial<T> {
+  if (!include || include.length === 0) {
+    return data;
+  }
+
+  return pickPaths(data, include.map(String));
+}
+
+/**
+ * Apply the include allow-list and then the exclude list
+ *
+ * @param data - The data object
+ * @param filters - Include and exclude field lists
+ * @returns Filtered data
+ */
+export function applyFieldFilters<T extends Record<string, unknown>>(
+  data: T,
+  filters: {
+    include?: readonly (keyof T | FieldPath<T>)[];
+    exclude?: readonly (keyof T | FieldPath<T>)[];
+  }
+): Partial<T> {
+  let result: Partial<T> = data;
+
+  if (filters.include && filters.include.length > 0) {
+    result = filterIncludedFields(data, filters.include);
+  }
+  if (filters.exclude && filters.exclude.length > 0) {
+    result = filterExcludedFields(result as T, filters.exclude);
+  }
+
+  return result;
+}
+
+/**
+ * Apply filtered data onto a base object, keeping the base values of filtered-out fields
+ * Used when restoring or receiving data that was filtered before it was stored,
+ * so nested fields that were never persisted fall back to the base instead of disappearing.
+ * The data is not filtered again: filtering an index would shift the stored items.
+ *
+ * @param data - Stored or received data
+ * @param base - Object providing values for filtered-out fields
+ * @param filters - Include and exclude field lists
+ * @returns Data with filtered-out fields taken from base
+ */
+export function restoreFilteredFields<T extends Record<string, unknown>>(
+  data: Partial<T>,
+  base: T,
+  filters: {
+    include?: readonly (keyof T | FieldPath<T>)[];
+    exclude?: readonly (keyof T | FieldPath<T>)[];
+  }
+): Partial<T> {
+  let result = data;
+
+  if (filters.include && filters.include.length > 0) {
+    result = copyPaths(base, result, filters.include.map(String));
+  }
+  if (filters.exclude && filters.exclude.length > 0) {
+    result = copyPaths(result, base, filters.exclude.map(String));
+  }
+
+  return result;
 }
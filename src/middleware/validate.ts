@@ -8,7 +8,14 @@
  * Validation utilities for data integrity
  */
 
-import type { PersistedData, MigrateFn, PersistError, PersistErrorInfo } from '../core/types';
+import type {
+  PersistedData,
+  MigrateFn,
+  MigrationMap,
+  DowngradePolicy,
+  PersistError,
+  PersistErrorInfo,
+} from '../core/types';
 
 /**
  * Validate the structure of persisted data wrapper
@@ -88,6 +95,129 @@ export function migrateData<T>(
   }
 }
 
+/**
+ * Result of running the migration chain
+ */
+export type MigrationResult<T> =
+  | { status: 'migrated'; data: T }
+  | { status: 'discarded'; from: number; to: number }
+  | {
+      status: 'failed';
+      from: number;
+      to: number;
+      message: string;
+      error?: Error;
+    };
+
+/**
+ * Run step-by-step migrations from the stored version to the current version
+ * Each step `migrations[n]` converts data from version `n - 1` to `n`. A missing step
+ * falls back to `migrate` for the remaining upgrade. Stored data newer than the
+ * current version, or older with no migration configured, is handled according
+ * to the downgrade policy.
+ *
+ * @param data - Stored data
+ * @param storedVersion - Version of stored data
+ * @param currentVersion - Current schema version
+ * @param options - Migration steps, fallback migrate function and downgrade policy
+ * @returns Migrated data, a discard signal, or the failed step
+ *
+ * @example
+ * ```typescript
+ * const result = runMigrations(stored, 1, 3, {
+ *   migrations: {
+ *     2: (v1) => ({ ...v1, phone: '' }),
+ *     3: (v2) => ({ ...v2, country: 'ES' }),
+ *   },
+ * });
+ * if (result.status === 'failed') {
+ *   console.error(`Step ${result.from} -> ${result.to} failed`);
+ * }
+ * ```
+ */
+export function runMigrations<T>(
+  data: unknown,
+  storedVersion: number,
+  currentVersion: number,
+  options: {
+    migrations?: MigrationMap;
+    migrate?: MigrateFn<T>;
+    downgrade?: DowngradePolicy;
+  } = {}
+): MigrationResult<T> {
+  const { migrations, migrate, downgrade = 'keep-raw' } = options;
+  const isNewer = storedVersion > currentVersion;
+
+  if (isNewer || (storedVersion < currentVersion && !migrations && !migrate)) {
+    if (downgrade === 'discard') {
+      return { status: 'discarded', from: storedVersion, to: currentVersion };
+    }
+    if (downgrade === 'error') {
+      return {
+        status: 'failed',
+        from: storedVersion,
+        to: currentVersion,
+        message: isNewer
+          ? `Stored data version ${storedVersion} is newer than current version ${currentVersion}`
+          : `No migration from version ${storedVersion} to ${currentVersion}`,
+      };
+    }
+    return { status: 'migrated', data: data as T };
+  }
+
+  if (!migrations) {
+    const migrated = migrateData(data, storedVersion, currentVersion, migrate);
+    return migrated === null
+      ? {
+          status: 'failed',
+          from: storedVersion,
+          to: currentVersion,
+          message: `Migration from version ${storedVersion} to ${currentVersion} failed`,
+        }
+      : { status: 'migrated', data: migrated };
+  }
+
+  let current = data;
+  for (let version = storedVersion; version < currentVersion; version++) {
+    const step = migrations[version + 1];
+
+    if (!step) {
+      if (migrate) {
+        const migrated = migrateData(current, version, currentVersion, migrate);
+        return migrated === null
+          ? {
+              status: 'failed',
+              from: version,
+              to: currentVersion,
+              message: `Migration from version ${version} to ${currentVersion} failed`,
+            }
+          : { status: 'migrated', data: migrated };
+      }
+      return {
+        status: 'failed',
+        from: version,
+        to: version + 1,
+        message: `No migration step from version ${version} to ${version + 1}`,
+      };
+    }
+
+    try {
+      current = step(current);
+    } catch (e) {
+      const error = e instanceof Error ? e : new Error(String(e));
+      return {
+        status: 'failed',
+        from: version,
+        to: version + 1,
+        message: `Migration from version ${version} to ${version + 1} failed: ${error.message}`,
+        error,
+      };
+    }
+  }
+
+  return { status: 'migrated', data: current as T };
+}
+
 /**
  * Create an error info object
  *
@@ -95,20 +225,26 @@ export function migrateData<T>(
  * @param key - Storage key
  * @param message - Error message
  * @param error - Original error (optional)
+ * @param migration - Failed migration step (optional)
  * @returns PersistErrorInfo object
  */
 export function createErrorInfo(
   type: PersistError,
   key: string,
   message: string,
-  error?: Error
+  error?: Error,
+  migration?: { from: number; to: number }
 ): PersistErrorInfo {
-  return {
+  const info: PersistErrorInfo = {
     type,
     key,
     message,
     error,
   };
+  if (migration) {
+    info.migration = migration;
+  }
+  return info;
 }
 
 /**
@@ -135,6 +271,11 @@ export function detectErrorType(error: unknown): PersistError {
     return 'QUOTA_EXCEEDED';
   }
 
+  // Decryption errors (wrong key or tampered data)
+  if (name === 'decryptionerror') {
+    return 'DECRYPTION_FAILED';
+  }
+
   // Parse errors
   if (
     name === 'syntaxerror' ||
@@ -9,7 +9,13 @@
  * Provides unified interface for localStorage, sessionStorage, and custom storage
  */
 
-import type { StorageAdapter, StorageType } from '../core/types';
+import type {
+  StorageAdapter,
+  StorageType,
+  IndexedDBStorageAdapter,
+  IndexedDBStorageOptions,
+} from '../core/types';
+import { DEFAULT_IDB_NAME, DEFAULT_IDB_STORE } from '../core/constants';
 
 /**
  * In-memory storage adapter
@@ -38,6 +44,141 @@ export function createMemoryStorage(): StorageAdapter {
   };
 }
 
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function promisifyRequest<R>(request: IDBRequest<R>): Promise<R> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * IndexedDB storage adapter
+ * Suited for large forms that would exceed the ~5MB localStorage quota.
+ * Values are stored natively with the structured clone algorithm, so strings
+ * written by useFormPersist are kept as-is and objects need no extra encoding.
+ *
+ * @param options - Database and object store names
+ * @returns Asynchronous storage adapter
+ *
+ * @example
+ * ```typescript
+ * const storage = createIndexedDBStorage({ dbName: 'my-app', storeName: 'drafts' });
+ *
+ * const [formData, setFormData] = useFormPersist('claim', initialState, { storage });
+ * ```
+ */
+export function createIndexedDBStorage(
+  options: IndexedDBStorageOptions = {}
+): IndexedDBStorageAdapter {
+  const dbName = options.dbName ?? DEFAULT_IDB_NAME;
+  const storeName = options.storeName ?? DEFAULT_IDB_STORE;
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDatabase = (version?: number): Promise<IDBDatabase> => {
+    const factory = options.indexedDB ?? (typeof indexedDB !== 'undefined' ? indexedDB : undefined);
+    if (!factory) {
+      return Promise.reject(new Error('IndexedDB is not available'));
+    }
+
+    const request = version === undefined ? factory.open(dbName) : factory.open(dbName, version);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(storeName)) {
+        request.result.createObjectStore(storeName);
+      }
+    };
+
+    return promisifyRequest(request).then((db) => {
+      // The database exists but was created without our store: bump the version to add it
+      if (!db.objectStoreNames.contains(storeName)) {
+        const nextVersion = db.version + 1;
+        db.close();
+        return openDatabase(nextVersion);
+      }
+
+      /* istanbul ignore next -- @preserve Another connection upgrading the database */
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      return db;
+    });
+  };
+
+  const getDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = openDatabase().catch((error: unknown) => {
+        dbPromise = null;
+        throw error;
+      });
+    }
+    return dbPromise;
+  };
+
+  const runRequest = <R>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<R>
+  ): Promise<R> =>
+    getDatabase().then((db) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = operation(transaction.objectStore(storeName));
+
+      return new Promise<R>((resolve, reject) => {
+        // Resolve once the transaction is durable, not just when the request succeeds
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error ?? request.error);
+        transaction.onabort = () => reject(transaction.error ?? request.error);
+      });
+    });
+
+  const getValue = <V = unknown>(key: string): Promise<V | null> =>
+    runRequest('readonly', (store) => store.get(key) as IDBRequest<V | undefined>).then(
+      (value) => value ?? null
+    );
+
+  return {
+    getItem(key: string): Promise<string | null> {
+      return getValue(key).then((value) => {
+        if (value === null || typeof value === 'string') {
+          return value;
+        }
+        // Structured values written with setValue are exposed as JSON
+        return JSON.stringify(value);
+      });
+    },
+    setItem(key: string, value: string): Promise<void> {
+      return runRequest('readwrite', (store) => store.put(value, key)).then(() => undefined);
+    },
+    removeItem(key: string): Promise<void> {
+      return runRequest('readwrite', (store) => store.delete(key)).then(() => undefined);
+    },
+    getValue,
+    setValue(key: string, value: unknown): Promise<void> {
+      return runRequest('readwrite', (store) => store.put(value, key)).then(() => undefined);
+    },
+    close(): void {
+      const pending = dbPromise;
+      dbPromise = null;
+      void pending?.then((db) => db.close()).catch(() => undefined);
+    },
+  };
+}
+
+/**
+ * Check if IndexedDB is available in the current environment
+ *
+ * @returns boolean indicating if IndexedDB can be used
+ */
+export function isIndexedDBAvailable(): boolean {
+  try {
+    return typeof indexedDB !== 'undefined' && indexedDB !== null;
+  } catch /* istanbul ignore next -- @preserve Access denied by browser settings */ {
+    return false;
+  }
+}
+
 /**
  * Check if storage is available and working
  * Handles various browser edge cases like Safari private browsing
@@ -118,6 +259,21 @@ function getMemoryStorage(): StorageAdapter {
   return memoryStorageInstance;
 }
 
+/**
+ * Singleton IndexedDB storage instance using the default database
+ */
+let indexedDBStorageInstance: IndexedDBStorageAdapter | null = null;
+
+/**
+ * Get IndexedDB storage singleton
+ */
+function getIndexedDBStorage(): IndexedDBStorageAdapter {
+  if (!indexedDBStorageInstance) {
+    indexedDBStorageInstance = createIndexedDBStorage();
+  }
+  return indexedDBStorageInstance;
+}
+
 /**
  * Get the appropriate storage adapter based on configuration
  * Falls back to memory storage if requested storage is unavailable
@@ -138,6 +294,9 @@ function getMemoryStorage(): StorageAdapter {
  *
  * // Explicitly use memory storage
  * const adapter = getStorageAdapter('memory');
+ *
+ * // Use IndexedDB (asynchronous, default database)
+ * const adapter = getStorageAdapter('indexedDB');
  * ```
  */
 export function getStorageAdapter(
@@ -162,6 +321,10 @@ export function getStorageAdapter(
     return createBrowserStorageAdapter(window.sessionStorage);
   }
 
+  if (storage === 'indexedDB' && !isSSR() && isIndexedDBAvailable()) {
+    return getIndexedDBStorage();
+  }
+
   // Fallback to memory storage
   return getMemoryStorage();
 }
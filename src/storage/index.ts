@@ -10,6 +10,8 @@
 
 export {
   createMemoryStorage,
+  createIndexedDBStorage,
+  isIndexedDBAvailable,
   isStorageAvailable,
   getStorageAdapter,
   isSSR,
@@ -17,3 +19,12 @@ export {
   getStorageSize,
   clearStorageByPrefix,
 } from './adapters';
+
+export {
+  PARTITION_MARKER,
+  getPartitionKey,
+  parsePartitionManifest,
+  splitIntoPartitions,
+} from './partition';
+
+export type { PartitionManifest } from './partition';
@@ -0,0 +1,79 @@
+/**
+ * react-form-autosave
+ * @version 0.1.2
+ * @author 686f6c61
+ * @license MIT
+ * @repository https://github.com/686f6c61/react-form-autosave
+ *
+ * Partitioned persistence helpers
+ * Large payloads are split into chunks stored under `<key>:part:<index>`, with a
+ * small manifest stored under the main key.
+ */
+
+export const PARTITION_MARKER = '__rfp_partitioned__';
+
+export interface PartitionManifest {
+  __rfp_partitioned__: true;
+  count: number;
+}
+
+/**
+ * Storage key of a partition chunk
+ *
+ * @param fullKey - Full storage key of the form
+ * @param index - Chunk index
+ * @returns The chunk key
+ */
+export function getPartitionKey(fullKey: string, index: number): string {
+  return `${fullKey}:part:${index}`;
+}
+
+/**
+ * Parse a partition manifest
+ *
+ * @param raw - Raw value stored under the main key
+ * @returns The manifest, or null if the value is not a manifest
+ */
+export function parsePartitionManifest(raw: string): PartitionManifest | null {
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    if (!parsed || typeof parsed !== 'object') {
+      return null;
+    }
+
+    const candidate = parsed as Record<string, unknown>;
+    const count = candidate.count;
+    if (
+      candidate[PARTITION_MARKER] === true &&
+      typeof count === 'number' &&
+      Number.isInteger(count) &&
+      count > 0
+    ) {
+      return {
+        __rfp_partitioned__: true,
+        count,
+      };
+    }
+  } catch {
+    // Not a partition manifest
+  }
+  return null;
+}
+
+/**
+ * Split a serialized payload into chunks of at most maxSizeBytes (UTF-16)
+ *
+ * @param data - Serialized payload
+ * @param maxSizeBytes - Maximum chunk size in bytes
+ * @returns The chunks
+ */
+export function splitIntoPartitions(data: string, maxSizeBytes: number): string[] {
+  const chunkCharSize = Math.max(1, Math.floor(maxSizeBytes / 2));
+  const chunks: string[] = [];
+
+  for (let i = 0; i < data.length; i += chunkCharSize) {
+    chunks.push(data.slice(i, i + chunkCharSize));
+  }
+
+  return chunks;
+}
@@ -0,0 +1,146 @@
+/**
+ * react-form-autosave
+ * @version 0.1.2
+ * @author 686f6c61
+ * @license MIT
+ * @repository https://github.com/686f6c61/react-form-autosave
+ *
+ * Per-field modification clocks for field-level last-writer-wins merging
+ * Each field path records when and by which tab it was last written, so
+ * concurrent edits to different fields (including nested ones) both survive.
+ */
+
+import type { FieldClock, FieldClockEntry } from '../core/types';
+import { diffPaths, getPathValue, setPathValue, omitPaths } from '../middleware/paths';
+
+/**
+ * Compare two clock entries (later write wins, ties broken by tab id)
+ */
+function isNewer(a: FieldClockEntry | undefined, b: FieldClockEntry | undefined): boolean {
+  if (!a) return false;
+  if (!b) return true;
+  return a.at !== b.at ? a.at > b.at : a.tabId > b.tabId;
+}
+
+/**
+ * Latest write affecting a path, including writes that replaced a parent object
+ */
+function getEffectiveEntry(clock: FieldClock, path: string): FieldClockEntry | undefined {
+  const segments = path.split('.');
+  let latest: FieldClockEntry | undefined;
+
+  for (let i = 1; i <= segments.length; i++) {
+    const entry = clock[segments.slice(0, i).join('.')];
+    if (isNewer(entry, latest)) {
+      latest = entry;
+    }
+  }
+
+  return latest;
+}
+
+/**
+ * Record the fields that changed between two versions of the data
+ *
+ * @param clock - Current clock
+ * @param previous - Previous data (no changes are recorded when undefined)
+ * @param next - New data
+ * @param tabId - Tab that made the change
+ * @param at - Modification timestamp
+ * @returns Updated clock
+ */
+export function stampFieldChanges(
+  clock: FieldClock,
+  previous: unknown,
+  next: unknown,
+  tabId: string,
+  at: number
+): FieldClock {
+  if (previous === undefined) return clock;
+
+  const changed = diffPaths(previous, next).filter((path) => path !== '');
+  if (changed.length === 0) return clock;
+
+  const result: FieldClock = { ...clock };
+  for (const path of changed) {
+    // Entries below a replaced value are superseded by this write
+    for (const key of Object.keys(result)) {
+      if (key.startsWith(`${path}.`)) {
+        delete result[key];
+      }
+    }
+    result[path] = { at, tabId };
+  }
+  return result;
+}
+
+/**
+ * Keep the clock entries that describe the data being sent
+ * Drops entries for local-only fields (present locally but not sent) and keeps
+ * entries for deleted fields.
+ *
+ * @param clock - Local clock
+ * @param sent - Data as sent to other tabs or storage
+ * @param local - Full local data
+ * @returns Clock to send along with the data
+ */
+export function pickFieldClock(clock: FieldClock, sent: unknown, local: unknown): FieldClock {
+  const result: FieldClock = {};
+  for (const [path, entry] of Object.entries(clock)) {
+    if (getPathValue(sent, path) !== undefined || getPathValue(local, path) === undefined) {
+      result[path] = entry;
+    }
+  }
+  return result;
+}
+
+/**
+ * Merge local and remote data field by field, keeping the latest write of each field
+ * Fields without a remote clock entry keep their local value.
+ *
+ * @param local - Local data
+ * @param localClock - Local clock
+ * @param remote - Remote data
+ * @param remoteClock - Remote clock
+ * @returns Merged data and clock
+ *
+ * @example
+ * ```typescript
+ * const { data } = mergeFieldClocks(
+ *   { subject: 'Printer broken', priority: 'high' },
+ *   { priority: { at: 2000, tabId: 'a' } },
+ *   { subject: 'Printer on fire', priority: 'low' },
+ *   { subject: { at: 3000, tabId: 'b' }, priority: { at: 1000, tabId: 'b' } }
+ * );
+ * // { subject: 'Printer on fire', priority: 'high' }
+ * ```
+ */
+export function mergeFieldClocks<T>(
+  local: T,
+  localClock: FieldClock,
+  remote: T,
+  remoteClock: FieldClock
+): { data: T; clock: FieldClock } {
+  let data = local;
+
+  for (const path of diffPaths(local, remote)) {
+    if (path === '' || !isNewer(getEffectiveEntry(remoteClock, path), getEffectiveEntry(localClock, path))) {
+      continue;
+    }
+
+    const value = getPathValue(remote, path);
+    data =
+      value === undefined
+        ? (omitPaths(data, [path]) as T)
+        : setPathValue(data, path, value);
+  }
+
+  const clock: FieldClock = { ...localClock };
+  for (const [path, entry] of Object.entries(remoteClock)) {
+    if (isNewer(entry, clock[path])) {
+      clock[path] = entry;
+    }
+  }
+
+  return { data, clock };
+}
@@ -10,3 +10,4 @@
 
 export { SyncManager, createSyncManager } from './syncManager';
 export { useSync } from './useSync';
+export { stampFieldChanges, pickFieldClock, mergeFieldClocks } from './fieldClock';
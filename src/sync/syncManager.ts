@@ -9,9 +9,16 @@
  * Enables real-time sync of form state across browser tabs
  */
 
-import type { SyncOptions } from '../core/types';
+import type {
+  SyncOptions,
+  SyncConflict,
+  ConflictResolution,
+  FieldClock,
+} from '../core/types';
 import { DEFAULT_SYNC_CHANNEL } from '../core/constants';
 import { isSSR } from '../storage';
+import { isEqual } from '../middleware/merge';
+import { stampFieldChanges, pickFieldClock, mergeFieldClocks } from './fieldClock';
 
 /**
  * Message structure for broadcast communication
@@ -22,6 +29,20 @@ interface SyncMessage<T> {
   data?: T;
   timestamp: number;
   tabId: string;
+  /** Timestamp of the last remote update the sender had applied */
+  base?: number;
+  /** Per-field modification clock of data (`merge` strategy) */
+  clock?: FieldClock;
+}
+
+/**
+ * Metadata of an incoming update
+ */
+interface IncomingUpdate {
+  tabId: string | null;
+  timestamp: number;
+  base?: number;
+  clock?: FieldClock;
 }
 
 /**
@@ -29,6 +50,11 @@ interface SyncMessage<T> {
  */
 type SyncCallback<T> = (data: T, source: 'storage' | 'broadcast') => void;
 
+/**
+ * Callback type for conflict changes (null when the conflict is resolved)
+ */
+type ConflictCallback<T> = (conflict: SyncConflict<T> | null) => void;
+
 function isPlainObject(value: unknown): value is Record<string, unknown> {
   return (
     typeof value === 'object' &&
@@ -70,6 +96,18 @@ export class SyncManager<T> {
   private callback: SyncCallback<T> | null = null;
   private isDestroyed = false;
   private lastLocalData: T | undefined;
+  private conflictCallback: ConflictCallback<T> | null = null;
+  private conflict: SyncConflict<T> | null = null;
+  private conflictUpdate: IncomingUpdate | null = null;
+  private conflictSource: 'storage' | 'broadcast' = 'broadcast';
+  /** Data (as broadcast) last known to match the other tabs */
+  private syncedData: T | undefined;
+  /** Timestamp of the last remote update applied by this tab */
+  private lastAppliedAt = 0;
+  /** Last update sent by this tab */
+  private lastSent: { data: T; timestamp: number } | null = null;
+  /** Per-field modification clock of lastLocalData (`merge` strategy) */
+  private clock: FieldClock = {};
 
   constructor(key: string, options: SyncOptions<T> = {}) {
     this.key = key;
@@ -123,10 +161,14 @@ export class SyncManager<T> {
     }
 
     if (message.type === 'update' && message.data !== undefined) {
-      this.handleIncomingData(message.data, 'broadcast');
+      this.handleIncomingData(message.data, 'broadcast', {
+        tabId: message.tabId,
+        timestamp: message.timestamp,
+        base: message.base,
+        clock: message.clock,
+      });
     } else if (message.type === 'clear') {
-      this.lastLocalData = undefined;
-      this.notifySync(undefined as unknown as T, 'broadcast');
+      this.handleClear('broadcast');
     }
   };
 
@@ -142,8 +184,7 @@ export class SyncManager<T> {
 
     // Handle clear
     if (event.newValue === null) {
-      this.lastLocalData = undefined;
-      this.notifySync(undefined as unknown as T, 'storage');
+      this.handleClear('storage');
       return;
     }
 
@@ -151,7 +192,12 @@ export class SyncManager<T> {
     try {
       const parsed = JSON.parse(event.newValue) as unknown;
       if (parsed && typeof parsed === 'object' && 'data' in parsed) {
-        this.handleIncomingData((parsed as { data: T }).data, 'storage');
+        const envelope = parsed as { data: T; clock?: FieldClock };
+        this.handleIncomingData(envelope.data, 'storage', {
+          tabId: null,
+          timestamp: Date.now(),
+          clock: envelope.clock,
+        });
       }
     } catch {
       // Invalid JSON, ignore
@@ -163,16 +209,144 @@ export class SyncManager<T> {
     this.options.onSync?.(data, source);
   }
 
+  private setConflict(conflict: SyncConflict<T> | null): void {
+    this.conflict = conflict;
+    this.conflictCallback?.(conflict);
+    if (conflict) {
+      this.options.onConflict?.(conflict);
+    }
+  }
+
+  /**
+   * Data as it is sent to other tabs, used to compare local and remote data
+   */
+  private toBroadcastData(data: T): T {
+    return this.options.beforeBroadcast ? this.options.beforeBroadcast(data) : data;
+  }
+
+  /**
+   * Field clocks are only kept for the `merge` strategy without a custom resolver
+   */
+  private get tracksFieldClock(): boolean {
+    return this.options.strategy === 'merge' && !this.options.conflictResolver;
+  }
+
+  /**
+   * Record local edits in the field clock
+   */
+  private updateLocalData(data: T): void {
+    if (this.tracksFieldClock) {
+      this.clock = stampFieldChanges(this.clock, this.lastLocalData, data, this.tabId, Date.now());
+    }
+    this.lastLocalData = data;
+  }
+
+  /**
+   * Whether this tab has changes the sender of an update has not seen
+   * No changes since the last sync, or a sender that had already applied our
+   * latest update, means the incoming data can be applied without asking.
+   */
+  private hasUnseenLocalChanges(base: number | undefined): boolean {
+    if (this.lastLocalData === undefined) return false;
+
+    const local = this.toBroadcastData(this.lastLocalData);
+    if (this.syncedData !== undefined && isEqual(local, this.syncedData)) {
+      return false;
+    }
+
+    return !(
+      this.lastSent !== null &&
+      base !== undefined &&
+      base >= this.lastSent.timestamp &&
+      isEqual(local, this.lastSent.data)
+    );
+  }
+
+  private applyRemote(data: T, source: 'storage' | 'broadcast', update: IncomingUpdate): void {
+    this.lastLocalData = data;
+    this.syncedData = data;
+    this.lastAppliedAt = Math.max(this.lastAppliedAt, update.timestamp);
+    this.notifySync(data, source);
+  }
+
+  private handleClear(source: 'storage' | 'broadcast'): void {
+    this.lastLocalData = undefined;
+    this.syncedData = undefined;
+    this.clock = {};
+    if (this.conflict) {
+      this.conflictUpdate = null;
+      this.setConflict(null);
+    }
+    this.notifySync(undefined as unknown as T, source);
+  }
+
+  /**
+   * Hold conflicting updates until resolveConflict is called (`ask-user`)
+   */
+  private handleAskUser(
+    data: T,
+    source: 'storage' | 'broadcast',
+    update: IncomingUpdate
+  ): void {
+    if (this.conflict) {
+      // The sender had seen our changes after all (e.g. the storage event arrived first)
+      if (update.base !== undefined && !this.hasUnseenLocalChanges(update.base)) {
+        this.conflictUpdate = null;
+        this.setConflict(null);
+        this.applyRemote(data, source, update);
+        return;
+      }
+
+      this.conflictUpdate = update;
+      this.conflictSource = source;
+      this.setConflict({
+        ...this.conflict,
+        remote: data,
+        remoteTabId: update.tabId ?? this.conflict.remoteTabId,
+        receivedAt: Date.now(),
+      });
+      return;
+    }
+
+    if (
+      this.lastLocalData === undefined ||
+      isEqual(this.toBroadcastData(this.lastLocalData), data) ||
+      !this.hasUnseenLocalChanges(update.base)
+    ) {
+      this.applyRemote(data, source, update);
+      return;
+    }
+
+    this.conflictUpdate = update;
+    this.conflictSource = source;
+    this.setConflict({
+      local: this.lastLocalData,
+      remote: data,
+      remoteTabId: update.tabId,
+      receivedAt: Date.now(),
+    });
+  }
+
   /**
    * Handle incoming data with conflict resolution
    */
   /* istanbul ignore next -- @preserve Incoming data handler with optional callbacks */
-  private handleIncomingData(data: T, source: 'storage' | 'broadcast'): void {
+  private handleIncomingData(
+    data: T,
+    source: 'storage' | 'broadcast',
+    update: IncomingUpdate
+  ): void {
     const strategy = this.options.strategy ?? 'latest-wins';
+
+    if (strategy === 'ask-user') {
+      this.handleAskUser(data, source, update);
+      return;
+    }
+
     let resolvedData = data;
 
     if (
-      (strategy === 'merge' || strategy === 'ask-user') &&
+      strategy === 'merge' &&
       this.options.conflictResolver &&
       this.lastLocalData !== undefined
     ) {
@@ -183,14 +357,23 @@ export class SyncManager<T> {
       isPlainObject(this.lastLocalData) &&
       isPlainObject(data)
     ) {
-      resolvedData = {
-        ...this.lastLocalData,
-        ...data,
-      } as T;
+      if (update.clock) {
+        // Field-level merge: the latest write of each field wins
+        const merged = mergeFieldClocks(this.lastLocalData, this.clock, data, update.clock);
+        resolvedData = merged.data;
+        this.clock = merged.clock;
+      } else {
+        // Updates without a clock (older versions) are merged shallowly
+        resolvedData = {
+          ...this.lastLocalData,
+          ...data,
+        } as T;
+      }
+    } else if (this.tracksFieldClock && update.clock) {
+      this.clock = { ...update.clock };
     }
 
-    this.lastLocalData = resolvedData;
-    this.notifySync(resolvedData, source);
+    this.applyRemote(resolvedData, source, update);
   }
 
   /**
@@ -200,11 +383,81 @@ export class SyncManager<T> {
     this.callback = callback;
   }
 
+  /**
+   * Register a callback for conflict changes (`ask-user` strategy)
+   * Called with the conflict when it is detected or a newer remote update is
+   * held, and with null when it is resolved.
+   */
+  onConflict(callback: ConflictCallback<T>): void {
+    this.conflictCallback = callback;
+  }
+
+  /**
+   * Get the conflict waiting to be resolved, if any
+   */
+  getConflict(): SyncConflict<T> | null {
+    return this.conflict;
+  }
+
+  /**
+   * Resolve the current conflict and release held updates
+   * Choosing `remote` applies the held update through the sync callbacks. For
+   * `local` or merged data the caller applies and broadcasts the result; the
+   * next broadcast tells the other tab it was based on the remote update.
+   *
+   * @param resolution - `local`, `remote` or merged data
+   * @returns The resolved data, or undefined if there was no conflict
+   */
+  resolveConflict(resolution: ConflictResolution<T>): T | undefined {
+    const conflict = this.conflict;
+    const update = this.conflictUpdate;
+    if (!conflict || !update) return undefined;
+
+    this.conflictUpdate = null;
+    this.setConflict(null);
+
+    if (resolution === 'remote') {
+      this.applyRemote(conflict.remote, this.conflictSource, update);
+      return conflict.remote;
+    }
+
+    // Local edits made while the conflict was pending are kept
+    const resolved = resolution === 'local' ? this.lastLocalData ?? conflict.local : resolution;
+    this.lastLocalData = resolved;
+    this.lastAppliedAt = Math.max(this.lastAppliedAt, update.timestamp);
+    return resolved;
+  }
+
   /**
    * Set local data for conflict resolution and request-response sync.
    */
   setLocalData(data: T): void {
+    this.updateLocalData(data);
+  }
+
+  /**
+   * Set local data that is known to match the other tabs (e.g. restored from storage)
+   *
+   * @param data - Local data
+   * @param clock - Field clock stored with the data (`merge` strategy)
+   */
+  setSyncedData(data: T, clock?: FieldClock): void {
     this.lastLocalData = data;
+    this.syncedData = this.toBroadcastData(data);
+    this.clock = clock ? { ...clock } : {};
+  }
+
+  /**
+   * Get the field clock of the local data, as it is sent to other tabs
+   * Empty unless the `merge` strategy is used without a custom conflictResolver.
+   */
+  getClock(): FieldClock {
+    if (!this.tracksFieldClock || this.lastLocalData === undefined) return {};
+    return pickFieldClock(
+      this.clock,
+      this.toBroadcastData(this.lastLocalData),
+      this.lastLocalData
+    );
   }
 
   /**
@@ -212,15 +465,20 @@ export class SyncManager<T> {
    */
   broadcast(data: T): void {
     if (this.isDestroyed || isSSR()) return;
-    this.lastLocalData = data;
+    this.updateLocalData(data);
 
     const message: SyncMessage<T> = {
       type: 'update',
       key: this.key,
-      data,
+      data: this.toBroadcastData(data),
       timestamp: Date.now(),
       tabId: this.tabId,
+      base: this.lastAppliedAt,
     };
+    if (this.tracksFieldClock) {
+      message.clock = pickFieldClock(this.clock, message.data, data);
+    }
+    this.lastSent = { data: message.data as T, timestamp: message.timestamp };
 
     // Broadcast via BroadcastChannel
     if (this.channel) {
@@ -241,6 +499,8 @@ export class SyncManager<T> {
   broadcastClear(): void {
     if (this.isDestroyed || isSSR()) return;
     this.lastLocalData = undefined;
+    this.syncedData = undefined;
+    this.clock = {};
 
     const message: SyncMessage<T> = {
       type: 'clear',
@@ -300,6 +560,7 @@ export class SyncManager<T> {
     }
 
     this.callback = null;
+    this.conflictCallback = null;
   }
 }
 
@@ -9,7 +9,7 @@
  */
 
 import { useEffect, useRef, useCallback, useMemo } from 'react';
-import type { SyncOptions } from '../core/types';
+import type { SyncOptions, ConflictResolution } from '../core/types';
 import { SyncManager } from './syncManager';
 
 /**
@@ -18,7 +18,7 @@ import { SyncManager } from './syncManager';
  * @param key - Storage key
  * @param options - Sync options
  * @param onUpdate - Callback when data is updated from another tab
- * @returns Object with broadcast function
+ * @returns Object with broadcast and conflict resolution functions
  *
  * @example
  * ```tsx
@@ -40,6 +40,7 @@ export function useSync<T>(
   broadcast: (data: T) => void;
   broadcastClear: () => void;
   requestSync: () => void;
+  resolveConflict: (resolution: ConflictResolution<T>) => T | undefined;
 } {
   const managerRef = useRef<SyncManager<T> | null>(null);
   const onUpdateRef = useRef(onUpdate);
@@ -49,6 +50,8 @@ export function useSync<T>(
     strategy,
     conflictResolver,
     onSync,
+    onConflict,
+    beforeBroadcast,
   } = options;
   const managerOptions = useMemo<SyncOptions<T>>(
     () => ({
@@ -57,8 +60,10 @@ export function useSync<T>(
       strategy,
       conflictResolver,
       onSync,
+      onConflict,
+      beforeBroadcast,
     }),
-    [enabled, channel, strategy, conflictResolver, onSync]
+    [enabled, channel, strategy, conflictResolver, onSync, onConflict, beforeBroadcast]
   );
 
   // Initialize manager
@@ -96,5 +101,10 @@ export function useSync<T>(
     managerRef.current?.requestSync();
   }, []);
 
-  return { broadcast, broadcastClear, requestSync };
+  const resolveConflict = useCallback(
+    (resolution: ConflictResolution<T>) => managerRef.current?.resolveConflict(resolution),
+    []
+  );
+
+  return { broadcast, broadcastClear, requestSync, resolveConflict };
 }
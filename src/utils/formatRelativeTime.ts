@@ -0,0 +1,45 @@
+/**
+ * react-form-autosave
+ * @version 0.1.2
+ * @author 686f6c61
+ * @license MIT
+ * @repository https://github.com/686f6c61/react-form-autosave
+ *
+ * Relative time formatting shared by the UI components
+ */
+
+/**
+ * Format relative time (e.g., "2 minutes ago")
+ *
+ * @param timestamp - Timestamp to format
+ * @returns Formatted relative time string
+ */
+export function formatRelativeTime(timestamp: number): string {
+  const now = Date.now();
+  const diff = now - timestamp;
+
+  const seconds = Math.floor(diff / 1000);
+  const minutes = Math.floor(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+
+  if (seconds < 5) {
+    return 'just now';
+  }
+  if (seconds < 60) {
+    return `${seconds} seconds ago`;
+  }
+  if (minutes === 1) {
+    return '1 minute ago';
+  }
+  if (minutes < 60) {
+    return `${minutes} minutes ago`;
+  }
+  if (hours === 1) {
+    return '1 hour ago';
+  }
+  if (hours < 24) {
+    return `${hours} hours ago`;
+  }
+
+  return new Date(timestamp).toLocaleString();
+}
@@ -14,3 +14,5 @@ export {
   hasGroupData,
   getGroupSize,
 } from './clearGroup';
+
+export { formatRelativeTime } from './formatRelativeTime';